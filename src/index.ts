@@ -4,24 +4,44 @@
  * Provides fact-checking API for the browser extension
  */
 
+// Load environment variables before any module reads them
+import 'dotenv/config';
+
 import express from 'express';
 import cors from 'cors';
-import dotenv from 'dotenv';
 import apiRoutes from './routes/api';
-
-// Load environment variables
-dotenv.config();
+import streamRoutes from './routes/stream';
+import jobRoutes from './routes/jobs';
+import feedbackRoutes from './routes/feedback';
+import analyzeRoutes from './routes/analyze';
+import claimRoutes from './routes/claims';
+import { resumeJobs } from './services/jobService';
+import { validationError } from './middleware/validate';
+import { originGuard, describeAuthConfig } from './middleware/auth';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Behind a reverse proxy, trust X-Forwarded-For so per-IP rate limits see real clients
+// (e.g. TRUST_PROXY=1 for one proxy hop)
+if (process.env.TRUST_PROXY) {
+  const hops = parseInt(process.env.TRUST_PROXY);
+  app.set('trust proxy', isNaN(hops) ? process.env.TRUST_PROXY === 'true' : hops);
+}
+
 // Middleware
+// Browser requests must come from an allowed origin (ALLOWED_ORIGINS, see middleware/auth)
+app.use(originGuard);
 app.use(cors({
-  origin: '*', // Allow requests from the extension
-  methods: ['GET', 'POST'],
-  allowedHeaders: ['Content-Type'],
+  origin: true, // Origin was already checked against the allowlist
+  methods: ['GET', 'POST', 'PATCH', 'DELETE'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
+  exposedHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After'],
 }));
 
+// Raw page HTML needs a larger body limit than the other routes
+const HTML_BODY_LIMIT = process.env.HTML_BODY_LIMIT || '5mb';
+app.use('/api/analyze-html', express.json({ limit: HTML_BODY_LIMIT }));
 app.use(express.json({ limit: '1mb' }));
 
 // Request logging
@@ -32,6 +52,11 @@ app.use((req, _res, next) => {
 
 // Routes
 app.use('/api', apiRoutes);
+app.use('/api', streamRoutes);
+app.use('/api', jobRoutes);
+app.use('/api', feedbackRoutes);
+app.use('/api', analyzeRoutes);
+app.use('/api', claimRoutes);
 
 // Root endpoint
 app.get('/', (_req, res) => {
@@ -40,7 +65,21 @@ app.get('/', (_req, res) => {
     version: '0.1.0',
     endpoints: {
       verify: 'POST /api/verify',
+      verifyStream: 'POST /api/verify/stream',
+      extractAndVerifyStream: 'POST /api/extract-and-verify/stream',
+      analyzeHtml: 'POST /api/analyze-html',
+      pageReport: 'GET /api/page-report?url=',
+      jobs: 'POST /api/jobs',
+      job: 'GET|DELETE /api/jobs/:id',
+      feedback: 'POST|GET /api/feedback',
+      reviewFeedback: 'PATCH /api/feedback/:id',
+      searchClaims: 'GET /api/claims/search?q=',
+      claimReview: 'GET /api/claims/:id/claimreview',
+      claimReviewFeed: 'GET /api/claims/claimreview.ndjson',
+      profiles: 'GET /api/profiles',
+      quota: 'GET /api/quota',
       health: 'GET /api/health',
+      openapi: 'GET /api/openapi.json',
       cacheStats: 'GET /api/cache/stats',
       cacheClear: 'POST /api/cache/clear',
     }
@@ -48,7 +87,15 @@ app.get('/', (_req, res) => {
 });
 
 // Error handling
-app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+app.use((err: Error & { type?: string }, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+  // Malformed JSON bodies get the same 400 shape as schema validation failures
+  if (err.type === 'entity.parse.failed') {
+    return res.status(400).json(validationError([{ path: '(body)', message: 'must be valid JSON' }]));
+  }
+  if (err.type === 'entity.too.large') {
+    return res.status(413).json({ error: 'Payload too large', message: `Request bodies are limited to 1mb (${HTML_BODY_LIMIT} for /api/analyze-html)` });
+  }
+  
   console.error('Unhandled error:', err);
   res.status(500).json({ error: 'Internal server error' });
 });
@@ -92,4 +139,9 @@ app.listen(PORT, () => {
   if (!hasGoogleKey && !hasOpenAIKey) {
     console.warn('\n❌ No verification APIs configured - all claims will return as "unverified"');
   }
+  
+  describeAuthConfig();
+  
+  // Pick up jobs interrupted by the last shutdown (persistent store only)
+  resumeJobs().catch(error => console.error('[Jobs] Failed to resume jobs:', error));
 });
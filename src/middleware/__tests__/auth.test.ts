@@ -0,0 +1,162 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Request, Response } from 'express';
+import { authorize, originGuard, isOriginAllowed } from '../auth';
+import { createApiKey, revokeApiKey } from '../../services/apiKeys';
+import { RouteContract } from '../../schemas';
+
+const env = { ...process.env };
+let dir: string;
+let keysPath: string;
+let verifyKey: string;
+let extractKey: string;
+
+const contract = (scopes: RouteContract['scopes']): RouteContract =>
+  ({ method: 'post', path: '/verify', summary: '', tag: '', scopes, responses: {} });
+
+function request(headers: Record<string, string> = {}): Request {
+  const lower = Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]));
+  return { get: (name: string) => lower[name.toLowerCase()], method: 'POST', path: '/verify' } as unknown as Request;
+}
+
+function response() {
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    headers: {} as Record<string, string>,
+    locals: {} as Record<string, unknown>,
+    status(code: number) { res.statusCode = code; return res; },
+    set(name: string, value: string) { res.headers[name] = value; return res; },
+    json(body: unknown) { res.body = body; return res; },
+  };
+  return res;
+}
+
+/**
+ * Run the middleware; returns the response and whether it called next()
+ */
+function run(handler: (req: Request, res: Response, next: () => void) => unknown, req: Request) {
+  const res = response();
+  let passed = false;
+  handler(req, res as unknown as Response, () => { passed = true; });
+  return { res, passed };
+}
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-test-'));
+  keysPath = path.join(dir, 'api-keys.json');
+  process.env.API_KEYS_PATH = keysPath;
+  verifyKey = createApiKey('verifier', ['verify']).key;
+  extractKey = createApiKey('extractor', ['extract']).key;
+});
+
+afterEach(() => {
+  process.env = { ...env, API_KEYS_PATH: keysPath };
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+  fs.rmSync(dir, { recursive: true, force: true });
+  process.env = env;
+});
+
+describe('authorize', () => {
+  it('accepts a key with the required scope, from either header', () => {
+    const sent: Array<Record<string, string>> = [{ 'X-API-Key': verifyKey }, { Authorization: `Bearer ${verifyKey}` }];
+    for (const headers of sent) {
+      const { res, passed } = run(authorize(contract(['verify'])), request(headers));
+      expect(passed).toBe(true);
+      expect(res.locals.apiKey).toMatchObject({ name: 'verifier', scopes: ['verify'] });
+    }
+  });
+
+  it('refuses requests without a key', () => {
+    const { res, passed } = run(authorize(contract(['verify'])), request());
+    expect(passed).toBe(false);
+    expect(res.statusCode).toBe(401);
+    expect(res.headers['WWW-Authenticate']).toBe('Bearer');
+  });
+
+  it('refuses unknown keys', () => {
+    const { res } = run(authorize(contract(['verify'])), request({ 'X-API-Key': 'ld_unknown' }));
+    expect(res.statusCode).toBe(401);
+  });
+
+  it('refuses keys without the required scope', () => {
+    const { res, passed } = run(authorize(contract(['verify'])), request({ 'X-API-Key': extractKey }));
+    expect(passed).toBe(false);
+    expect(res.statusCode).toBe(403);
+    expect(res.body).toMatchObject({ error: 'Forbidden', message: expect.stringContaining('verify') });
+  });
+
+  it('records a valid key on public routes without requiring one', () => {
+    expect(run(authorize(contract([])), request()).passed).toBe(true);
+
+    const { res, passed } = run(authorize(contract([])), request({ 'X-API-Key': verifyKey }));
+    expect(passed).toBe(true);
+    expect(res.locals.apiKey).toMatchObject({ name: 'verifier' });
+  });
+
+  it('refuses revoked keys', () => {
+    const { key, record } = createApiKey('revoked', ['verify']);
+    revokeApiKey(record.id);
+
+    const { res } = run(authorize(contract(['verify'])), request({ 'X-API-Key': key }));
+    expect(res.statusCode).toBe(401);
+  });
+
+  describe('without any keys', () => {
+    beforeEach(() => {
+      process.env.API_KEYS_PATH = path.join(dir, 'missing.json');
+    });
+
+    it('fails closed', () => {
+      const { res, passed } = run(authorize(contract(['verify'])), request());
+      expect(passed).toBe(false);
+      expect(res.statusCode).toBe(401);
+    });
+
+    it('opens non-admin routes only with ALLOW_UNAUTHENTICATED=true', () => {
+      process.env.ALLOW_UNAUTHENTICATED = 'true';
+
+      expect(run(authorize(contract(['verify'])), request()).passed).toBe(true);
+      expect(run(authorize(contract(['admin'])), request()).res.statusCode).toBe(401);
+    });
+  });
+});
+
+describe('origin allowlist', () => {
+  it('allows no browser origin by default', () => {
+    delete process.env.EXTENSION_IDS;
+    delete process.env.ALLOWED_ORIGINS;
+
+    expect(isOriginAllowed('chrome-extension://abcdefghijklmnop')).toBe(false);
+    expect(isOriginAllowed('https://example.com')).toBe(false);
+  });
+
+  it('allows the configured extensions and origins', () => {
+    process.env.EXTENSION_IDS = 'abcdefghijklmnop';
+    process.env.ALLOWED_ORIGINS = 'https://app.example.com, https://preview-*';
+
+    expect(isOriginAllowed('chrome-extension://abcdefghijklmnop')).toBe(true);
+    expect(isOriginAllowed('moz-extension://abcdefghijklmnop')).toBe(true);
+    expect(isOriginAllowed('chrome-extension://someoneelse')).toBe(false);
+    expect(isOriginAllowed('https://app.example.com')).toBe(true);
+    expect(isOriginAllowed('https://app.example.com.evil.test')).toBe(false);
+    expect(isOriginAllowed('https://preview-42.example.com')).toBe(true);
+  });
+
+  it('refuses disallowed origins but not requests without one', () => {
+    process.env.ALLOWED_ORIGINS = 'https://app.example.com';
+
+    expect(run(originGuard, request()).passed).toBe(true);
+    expect(run(originGuard, request({ Origin: 'https://app.example.com' })).passed).toBe(true);
+
+    const { res, passed } = run(originGuard, request({ Origin: 'https://evil.test' }));
+    expect(passed).toBe(false);
+    expect(res.statusCode).toBe(403);
+  });
+});
@@ -0,0 +1,133 @@
+import { Request, Response } from 'express';
+import { meter, enforceDailyQuota } from '../rateLimit';
+import { recordUsage } from '../../services/quotas';
+import { RouteContract } from '../../schemas';
+
+const contract = (metering: RouteContract['metering']): RouteContract =>
+  ({ method: 'post', path: '/verify', summary: '', tag: '', metering, responses: {} });
+
+function request(body: unknown = {}): Request {
+  return { body, ip: '203.0.113.1' } as unknown as Request;
+}
+
+function response(keyId: string, limits: Record<string, number>) {
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    headers: {} as Record<string, string>,
+    locals: { apiKey: { id: keyId, name: keyId, scopes: ['verify'], limits } } as Record<string, unknown>,
+    status(code: number) { res.statusCode = code; return res; },
+    set(name: string | Record<string, string>, value?: string) {
+      Object.assign(res.headers, typeof name === 'string' ? { [name]: value } : name);
+      return res;
+    },
+    json(body: unknown) { res.body = body; return res; },
+  };
+  return res;
+}
+
+async function run(contractMetering: RouteContract['metering'], res: ReturnType<typeof response>, body?: unknown) {
+  let passed = false;
+  await meter(contract(contractMetering))(request(body), res as unknown as Response, () => { passed = true; });
+  return passed;
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('meter', () => {
+  it('sets rate limit headers and refuses requests over the limit', async () => {
+    const res = response('rate', { requestsPerMinute: 1 });
+    expect(await run('requests', res)).toBe(true);
+    expect(res.headers).toMatchObject({ 'RateLimit-Limit': '1', 'RateLimit-Remaining': '0' });
+
+    const refused = response('rate', { requestsPerMinute: 1 });
+    expect(await run('requests', refused)).toBe(false);
+    expect(refused.statusCode).toBe(429);
+    expect(refused.headers['Retry-After']).toBeDefined();
+    expect(refused.body).toMatchObject({ error: 'Too many requests' });
+  });
+
+  it('leaves unmetered routes alone', async () => {
+    const res = response('unmetered', { requestsPerMinute: 1 });
+    expect(await run(undefined, res)).toBe(true);
+    expect(await run(undefined, res)).toBe(true);
+    expect(res.headers).toEqual({});
+  });
+
+  it('checks the claim quota against the claims in the request', async () => {
+    const limits = { requestsPerMinute: 0, dailyClaims: 3, dailyLlmCalls: 0 };
+    await recordUsage('key:claims', { claims: 1 });
+
+    expect(await run('claims', response('claims', limits), { claims: [{}, {}] })).toBe(true);
+
+    const refused = response('claims', limits);
+    expect(await run('claims', refused, { claims: [{}, {}, {}] })).toBe(false);
+    expect(refused.statusCode).toBe(429);
+    expect(refused.body).toMatchObject({ error: 'Quota exceeded', message: expect.stringContaining('1 used, 3 requested') });
+  });
+
+  it('checks extraction routes against the most claims they may extract', async () => {
+    const limits = { requestsPerMinute: 0, dailyClaims: 25, dailyLlmCalls: 0 };
+    await recordUsage('key:extract', { claims: 10 });
+
+    expect(await run('claims', response('extract', limits), { text: 'Some text.', maxClaims: 15 })).toBe(true);
+
+    const refused = response('extract', limits);
+    expect(await run('claims', refused, { text: 'Some text.' })).toBe(false);
+    expect(refused.body).toMatchObject({ message: expect.stringContaining('10 used, 20 requested') });
+  });
+
+  it('checks the LLM calls the llm filter would make classifying extracted claims', async () => {
+    const limits = { requestsPerMinute: 0, dailyClaims: 0, dailyLlmCalls: 10 };
+    await recordUsage('key:filter', { llmCalls: 4 });
+    const apiKey = process.env.OPENAI_API_KEY;
+    process.env.OPENAI_API_KEY = 'sk-test-key';
+
+    try {
+      expect(await run('claims', response('filter', limits), { text: 'Some text.', maxClaims: 6, filter: 'llm' })).toBe(true);
+
+      const refused = response('filter', limits);
+      expect(await run('claims', refused, { text: 'Some text.', maxClaims: 7, filter: 'llm' })).toBe(false);
+      expect(refused.body).toMatchObject({ message: expect.stringContaining('4 used, 7 requested') });
+    } finally {
+      if (apiKey === undefined) delete process.env.OPENAI_API_KEY;
+      else process.env.OPENAI_API_KEY = apiKey;
+    }
+  });
+
+  it('lets requests through without the LLM once the LLM quota is used up', async () => {
+    const limits = { requestsPerMinute: 0, dailyClaims: 0, dailyLlmCalls: 2 };
+    await recordUsage('key:no-llm', { llmCalls: 2 });
+
+    const res = response('no-llm', limits);
+    expect(await run('claims', res, { claims: [{}] })).toBe(true);
+    expect(res.locals.llmExhausted).toBe(true);
+  });
+
+  it('only counts requests against the quotas on claims routes', async () => {
+    const limits = { requestsPerMinute: 0, dailyClaims: 1, dailyLlmCalls: 1 };
+    await recordUsage('key:requests-only', { claims: 5, llmCalls: 5 });
+
+    expect(await run('requests', response('requests-only', limits))).toBe(true);
+  });
+});
+
+describe('enforceDailyQuota', () => {
+  it('refuses LLM calls that would not fit in the quota', async () => {
+    const limits = { requestsPerMinute: 0, dailyClaims: 0, dailyLlmCalls: 10 };
+    await recordUsage('key:llm', { llmCalls: 8 });
+
+    expect(await enforceDailyQuota(request(), response('llm', limits) as unknown as Response, 0, 2)).toBe(true);
+
+    const refused = response('llm', limits);
+    expect(await enforceDailyQuota(request(), refused as unknown as Response, 0, 3)).toBe(false);
+    expect(refused.statusCode).toBe(429);
+    expect(refused.body).toMatchObject({ message: expect.stringContaining('8 used, 3 requested') });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Authentication: API keys with scopes, and the browser origin allowlist
+ *
+ * Clients send their key in an `X-API-Key` header or as `Authorization: Bearer <key>`.
+ * Each route contract lists the scopes it needs. Without any API keys (for
+ * example when API_KEYS_PATH is missing) protected routes refuse every request,
+ * unless ALLOW_UNAUTHENTICATED=true opens non-admin routes for local development.
+ *
+ * Browser requests must come from an allowed origin:
+ *   EXTENSION_IDS=abcdefghijklmnopabcdefghijklmnop   (the extension's own origins)
+ *   ALLOWED_ORIGINS=https://app.example.com         (any other origins)
+ * ALLOWED_ORIGINS entries may end in `*` to match a prefix. No browser origin
+ * is allowed by default. Requests without an Origin header (curl, servers)
+ * are not affected.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ErrorResponse } from '../types';
+import { RouteContract } from '../schemas';
+import { ApiKeyScope, ApiKeyRecord, findApiKey, hasApiKeys } from '../services/apiKeys';
+import { ClientLimits } from '../services/quotas';
+
+/**
+ * Whether routes may run without keys while none are configured (local development only)
+ */
+function allowsUnauthenticated(): boolean {
+  return process.env.ALLOW_UNAUTHENTICATED === 'true';
+}
+
+/**
+ * The caller's key, stored in res.locals.apiKey by authorize()
+ */
+export interface AuthenticatedKey {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  limits?: Partial<ClientLimits>;
+}
+
+function unauthorized(res: Response, message: string) {
+  const body: ErrorResponse = { error: 'Unauthorized', message };
+  return res.status(401).set('WWW-Authenticate', 'Bearer').json(body);
+}
+
+function forbidden(res: Response, message: string) {
+  const body: ErrorResponse = { error: 'Forbidden', message };
+  return res.status(403).json(body);
+}
+
+/**
+ * The API key sent with a request, if any
+ */
+function getPresentedKey(req: Request): string | undefined {
+  const header = req.get('X-API-Key');
+  if (header) return header.trim();
+
+  const authorization = req.get('Authorization');
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : undefined;
+}
+
+function setAuthenticatedKey(res: Response, record: ApiKeyRecord): void {
+  const key: AuthenticatedKey = {
+    id: record.id,
+    name: record.name,
+    scopes: record.scopes,
+    ...(record.limits && { limits: record.limits }),
+  };
+  res.locals.apiKey = key;
+}
+
+/**
+ * Middleware requiring an API key with every scope the route contract lists.
+ * On public routes a valid key is still recorded, so usage can be attributed to it.
+ */
+export function authorize(contract: RouteContract): RequestHandler {
+  const required = contract.scopes || [];
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (required.length === 0) {
+      const presented = getPresentedKey(req);
+      const record = presented ? findApiKey(presented) : null;
+      if (record) setAuthenticatedKey(res, record);
+      return next();
+    }
+
+    if (!hasApiKeys()) {
+      if (allowsUnauthenticated() && !required.includes('admin')) return next();
+      return unauthorized(res, 'No API keys are configured on this server.');
+    }
+
+    const presented = getPresentedKey(req);
+    if (!presented) {
+      return unauthorized(res, 'An API key is required. Send it in the X-API-Key header or as a Bearer token.');
+    }
+
+    const record = findApiKey(presented);
+    if (!record) {
+      return unauthorized(res, 'The API key is invalid or has been revoked.');
+    }
+
+    const missing = required.filter(scope => !record.scopes.includes(scope));
+    if (missing.length > 0) {
+      console.warn(`[Auth] Key ${record.id} (${record.name}) lacks ${missing.join(', ')} for ${req.method} ${req.path}`);
+      return forbidden(res, `This API key lacks the required scope${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`);
+    }
+
+    setAuthenticatedKey(res, record);
+    next();
+  };
+}
+
+/**
+ * Configured origin patterns
+ */
+function getAllowedOrigins(): string[] {
+  const list = (value: string | undefined) => (value || '').split(',').map(v => v.trim()).filter(Boolean);
+  const extensionOrigins = list(process.env.EXTENSION_IDS)
+    .flatMap(id => [`chrome-extension://${id}`, `moz-extension://${id}`]);
+  return [...extensionOrigins, ...list(process.env.ALLOWED_ORIGINS)];
+}
+
+export function isOriginAllowed(origin: string): boolean {
+  return getAllowedOrigins().some(pattern =>
+    pattern.endsWith('*') ? origin.startsWith(pattern.slice(0, -1)) : origin === pattern
+  );
+}
+
+/**
+ * Reject browser requests (including CORS preflights) from origins outside
+ * the allowlist, before any route runs
+ */
+export function originGuard(req: Request, res: Response, next: NextFunction) {
+  const origin = req.get('Origin');
+  if (!origin || isOriginAllowed(origin)) return next();
+
+  console.warn(`[Auth] Rejected request from origin ${origin}`);
+  return forbidden(res, `Origin ${origin} is not allowed`);
+}
+
+/**
+ * Log how authentication is configured (at startup)
+ */
+export function describeAuthConfig(): void {
+  if (hasApiKeys()) {
+    console.log('✅ API key authentication enabled');
+  } else if (allowsUnauthenticated()) {
+    console.warn('⚠️  No API keys configured and ALLOW_UNAUTHENTICATED=true - verify/extract routes are open, admin routes are disabled');
+    console.warn('   Create a key with: npm run api-key -- create <name> <scopes>');
+  } else {
+    console.warn('⚠️  No API keys configured - protected routes refuse every request');
+    console.warn('   Create a key with: npm run api-key -- create <name> <scopes>');
+  }
+
+  const origins = getAllowedOrigins();
+  if (origins.length === 0) {
+    console.warn('⚠️  No EXTENSION_IDS or ALLOWED_ORIGINS set - browser requests are refused');
+  }
+  if (origins.includes('*')) {
+    console.warn('⚠️  ALLOWED_ORIGINS contains "*" - any web page can call the API from a browser');
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Per-client rate limiting and daily quota checks (see services/quotas)
+ *
+ * Routes opt in through their contract's `metering`:
+ *   'requests' - counts against the per-minute request limit
+ *   'claims'   - also refused when the claims it may verify would go over
+ *                today's claim quota; once the LLM quota is used up it runs
+ *                without the LLM fallback (res.locals.llmExhausted)
+ *
+ * Extraction routes are checked against their maxClaims, including the LLM
+ * calls the 'llm' check-worthiness filter would make classifying them.
+ * Routes that only learn what they'll spend later (e.g. /extract with the
+ * LLM filter) call enforceDailyQuota() themselves.
+ *
+ * Every metered response carries RateLimit-Limit, RateLimit-Remaining and
+ * RateLimit-Reset headers; refusals are 429s with Retry-After.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ErrorResponse } from '../types';
+import { RouteContract } from '../schemas';
+import { AuthenticatedKey } from './auth';
+import { consumeRequest, checkQuota, getClientLimits, getQuotaResetTime, ClientLimits } from '../services/quotas';
+import { DEFAULT_MAX_CLAIMS } from '../services/nlpService';
+import { classificationLlmCalls, resolveFilter } from '../services/checkWorthiness';
+
+/**
+ * The client a request is metered as: its API key, else its IP
+ */
+export function getClientId(req: Request, res: Response): string {
+  const key = res.locals.apiKey as AuthenticatedKey | undefined;
+  return key ? `key:${key.id}` : `ip:${req.ip}`;
+}
+
+/**
+ * Limits for the request's client
+ */
+export function getRequestLimits(res: Response): ClientLimits {
+  return getClientLimits((res.locals.apiKey as AuthenticatedKey | undefined)?.limits);
+}
+
+function tooManyRequests(res: Response, retryAfterSeconds: number, body: ErrorResponse) {
+  return res.status(429).set('Retry-After', String(retryAfterSeconds)).json(body);
+}
+
+/**
+ * Claims a request may verify, for the quota pre-check: the claims it sends,
+ * or for extraction routes the most claims it asked to extract.
+ */
+function requestedClaims(req: Request): number {
+  if (Array.isArray(req.body?.claims)) return req.body.claims.length;
+  return req.body?.maxClaims || DEFAULT_MAX_CLAIMS;
+}
+
+/**
+ * Refuse the request with a 429 if verifying `claims` more claims, or making
+ * `llmCalls` LLM calls, would exceed the client's daily quotas. Returns
+ * whether the request may go ahead; a quota that can't be read doesn't
+ * stop it. Sets res.locals.llmExhausted when no LLM calls are left.
+ */
+export async function enforceDailyQuota(req: Request, res: Response, claims: number, llmCalls = 0): Promise<boolean> {
+  const client = getClientId(req, res);
+  const limits = getRequestLimits(res);
+
+  try {
+    const { exceeded, usage, llmExhausted } = await checkQuota(client, limits, claims, llmCalls);
+    if (llmExhausted) {
+      console.warn(`[RateLimit] ${client} has used its daily LLM quota; running without the LLM`);
+      res.locals.llmExhausted = true;
+    }
+    if (!exceeded) return true;
+
+    const resetAt = getQuotaResetTime();
+    const retryAfter = Math.ceil((resetAt.getTime() - Date.now()) / 1000);
+    const message = exceeded === 'claims'
+      ? `Daily claim quota of ${limits.dailyClaims} would be exceeded (${usage.claims} used, ${claims} requested).`
+      : `Daily LLM call quota of ${limits.dailyLlmCalls} would be exceeded (${usage.llmCalls} used, ${llmCalls} requested).`;
+
+    console.warn(`[RateLimit] ${client} hit the daily ${exceeded} quota`);
+    tooManyRequests(res, retryAfter, {
+      error: 'Quota exceeded',
+      message: `${message} Quotas reset at ${resetAt.toISOString()}.`,
+    });
+    return false;
+  } catch (error) {
+    // Don't fail requests because usage couldn't be read
+    console.error('[RateLimit] Failed to check quota:', error);
+    return true;
+  }
+}
+
+/**
+ * Middleware enforcing the route contract's metering. Must run after authorize()
+ * and validate(), so malformed requests aren't counted.
+ */
+export function meter(contract: RouteContract): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!contract.metering) return next();
+
+    const client = getClientId(req, res);
+    const limits = getRequestLimits(res);
+    res.locals.quotaClient = client;
+
+    if (limits.requestsPerMinute > 0) {
+      const window = consumeRequest(client, limits.requestsPerMinute);
+      res.set({
+        'RateLimit-Limit': String(window.limit),
+        'RateLimit-Remaining': String(window.remaining),
+        'RateLimit-Reset': String(window.resetSeconds),
+      });
+
+      if (!window.allowed) {
+        console.warn(`[RateLimit] ${client} exceeded ${window.limit} requests/minute`);
+        return tooManyRequests(res, window.resetSeconds, {
+          error: 'Too many requests',
+          message: `Rate limit of ${window.limit} requests per minute exceeded. Retry in ${window.resetSeconds}s.`,
+        });
+      }
+    }
+
+    if (contract.metering === 'claims') {
+      const claims = requestedClaims(req);
+      // Extraction routes classify what they extract, one LLM call a claim with the 'llm' filter
+      const llmCalls = Array.isArray(req.body?.claims) ? 0 : classificationLlmCalls(claims, resolveFilter(req.body?.filter));
+      if (!(await enforceDailyQuota(req, res, claims, llmCalls))) return;
+    }
+
+    next();
+  };
+}
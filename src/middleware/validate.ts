@@ -0,0 +1,230 @@
+/**
+ * Request validation against the declarative schemas in schemas.ts
+ *
+ * Schemas are a subset of JSON Schema (the dialect OpenAPI 3.1 uses), so the
+ * same definitions drive validation here and the generated OpenAPI document.
+ *
+ * Set VALIDATE_RESPONSES=true to also check JSON responses against their
+ * declared schemas; mismatches are logged, never sent to the client.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { FieldError, ErrorResponse } from '../types';
+import { JsonSchema, RouteContract, componentSchemas } from '../schemas';
+
+// Stop collecting after this many problems so huge invalid bodies get a short reply
+const MAX_ERRORS = 20;
+
+const REF_PREFIX = '#/components/schemas/';
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === 'number') return actual === 'number' || actual === 'integer';
+  return actual === type;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const parsed = new URL(value);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Check a value against a schema, appending any problems to `errors`
+ */
+function check(value: unknown, schema: JsonSchema, path: string, errors: FieldError[]): void {
+  if (errors.length >= MAX_ERRORS) return;
+
+  const fail = (message: string) => {
+    errors.push({ path: path || '(body)', message });
+  };
+
+  if (schema.$ref) {
+    const resolved = componentSchemas[schema.$ref.slice(REF_PREFIX.length)];
+    if (!resolved) throw new Error(`Unknown schema reference ${schema.$ref}`);
+    check(value, resolved, path, errors);
+    return;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(t => matchesType(value, t))) {
+      fail(`must be ${types.map(t => (t === 'array' || t === 'integer' ? `an ${t}` : `a ${t}`)).join(' or ')}`);
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as never)) {
+    fail(`must be one of: ${schema.enum.join(', ')}`);
+    return;
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`must be at most ${schema.maxLength.toLocaleString('en-US')} characters`);
+    }
+    if (schema.format === 'uri' && !isHttpUrl(value)) {
+      fail('must be an absolute http(s) URL');
+    }
+    if (schema.format === 'date-time' && isNaN(Date.parse(value))) {
+      fail('must be an ISO 8601 date-time');
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(schema.minItems === 1 ? 'must not be empty' : `must contain at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`must contain at most ${schema.maxItems} items`);
+      // Don't check every item of an oversized array
+      return;
+    }
+    if (schema.items) {
+      value.forEach((item, i) => check(item, schema.items!, childPath(path, i), errors));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) {
+        errors.push({ path: childPath(path, key), message: 'is required' });
+      }
+    }
+
+    for (const [key, item] of Object.entries(record)) {
+      if (item === undefined) continue;
+
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        check(item, propertySchema, childPath(path, key), errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: childPath(path, key), message: 'is not an allowed field' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        check(item, schema.additionalProperties, childPath(path, key), errors);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a value against a schema. Returns the problems found (empty if valid).
+ */
+export function validateValue(value: unknown, schema: JsonSchema): FieldError[] {
+  const errors: FieldError[] = [];
+  check(value, schema, '', errors);
+  return errors.slice(0, MAX_ERRORS);
+}
+
+/**
+ * The 400 body for a request that failed validation
+ */
+export function validationError(details: FieldError[]): ErrorResponse {
+  const first = details[0];
+  return {
+    error: 'Invalid request',
+    message: details.length === 1
+      ? `${first.path} ${first.message}`
+      : `${first.path} ${first.message} (and ${details.length - 1} more)`,
+    details,
+  };
+}
+
+/**
+ * Log JSON responses that don't match the route's declared response schema
+ */
+function checkResponses(contract: RouteContract, res: Response): void {
+  const json = res.json.bind(res);
+
+  res.json = (body: unknown) => {
+    const schema = contract.responses[res.statusCode]?.schema;
+    if (schema) {
+      const problems = validateValue(body, schema);
+      if (problems.length > 0) {
+        console.warn(`[Validation] ${contract.method.toUpperCase()} ${contract.path} ${res.statusCode} response does not match its schema:`, problems);
+      }
+    }
+    return json(body);
+  };
+}
+
+/**
+ * Query values arrive as strings; convert those the schema declares as
+ * numbers or booleans so they validate (and reach handlers) typed
+ */
+function coerceQuery(query: Record<string, unknown>, schema: JsonSchema): Record<string, unknown> {
+  const coerced = { ...query };
+
+  for (const [key, value] of Object.entries(query)) {
+    const property = schema.properties?.[key];
+    if (!property?.type || typeof value !== 'string') continue;
+
+    const types = Array.isArray(property.type) ? property.type : [property.type];
+    if ((types.includes('integer') || types.includes('number')) && value.trim() !== '' && !isNaN(Number(value))) {
+      coerced[key] = Number(value);
+    } else if (types.includes('boolean') && (value === 'true' || value === 'false')) {
+      coerced[key] = value === 'true';
+    }
+  }
+
+  return coerced;
+}
+
+/**
+ * Middleware enforcing a route's request contract (params, query and body)
+ */
+export function validate(contract: RouteContract): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const details: FieldError[] = [];
+
+    if (contract.params) {
+      details.push(...validateValue(req.params, contract.params).map(e => ({ ...e, path: `params.${e.path}` })));
+    }
+    if (contract.query) {
+      req.query = coerceQuery(req.query, contract.query) as Request['query'];
+      details.push(...validateValue(req.query, contract.query).map(e => ({ ...e, path: `query.${e.path}` })));
+    }
+    if (contract.body) {
+      details.push(...validateValue(req.body, contract.body));
+    }
+
+    if (details.length > 0) {
+      return res.status(400).json(validationError(details));
+    }
+
+    if (process.env.VALIDATE_RESPONSES === 'true') {
+      checkResponses(contract, res);
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * OpenAPI document generated from the route contracts in schemas.ts
+ *
+ * Served at GET /api/openapi.json; the extension generates its client from it.
+ */
+
+import { JsonSchema, RouteContract, componentSchemas, contracts, ref } from './schemas';
+
+let document: Record<string, unknown> | null = null;
+
+/**
+ * Path and query parameters from a contract's params/query schema
+ */
+function describeParameters(schema: JsonSchema | undefined, location: 'path' | 'query') {
+  return Object.entries(schema?.properties || {}).map(([name, property]) => ({
+    name,
+    in: location,
+    required: location === 'path' || (schema!.required || []).includes(name),
+    schema: property,
+  }));
+}
+
+function describeOperation(operationId: string, contract: RouteContract) {
+  const responses: Record<string, unknown> = {};
+
+  for (const [status, response] of Object.entries(contract.responses)) {
+    if (status === '200' && contract.events) {
+      responses[status] = {
+        description: `${response.description}. Events: ${Object.keys(contract.events).join(', ')}`,
+        content: { 'text/event-stream': { schema: { type: 'string' } } },
+      };
+      continue;
+    }
+
+    responses[status] = {
+      description: response.description,
+      ...(response.schema && { content: { [response.contentType || 'application/json']: { schema: response.schema } } }),
+    };
+  }
+
+  if (contract.scopes?.length) {
+    responses['401'] = { description: 'Missing, invalid or revoked API key', content: { 'application/json': { schema: ref('ErrorResponse') } } };
+    responses['403'] = { description: 'API key lacks a required scope', content: { 'application/json': { schema: ref('ErrorResponse') } } };
+  }
+
+  if (contract.metering) {
+    responses['429'] = {
+      description: contract.metering === 'claims'
+        ? 'Rate limit or daily quota exceeded; see Retry-After'
+        : 'Rate limit exceeded; see Retry-After',
+      headers: {
+        'Retry-After': { schema: { type: 'integer' } },
+        'RateLimit-Limit': { schema: { type: 'integer' } },
+        'RateLimit-Remaining': { schema: { type: 'integer' } },
+        'RateLimit-Reset': { schema: { type: 'integer' } },
+      },
+      content: { 'application/json': { schema: ref('ErrorResponse') } },
+    };
+  }
+
+  const parameters = [
+    ...describeParameters(contract.params, 'path'),
+    ...describeParameters(contract.query, 'query'),
+  ];
+
+  return {
+    operationId,
+    summary: contract.summary,
+    tags: [contract.tag],
+    ...(parameters.length > 0 && { parameters }),
+    ...(contract.body && {
+      requestBody: { required: true, content: { 'application/json': { schema: contract.body } } },
+    }),
+    ...(contract.scopes?.length && {
+      security: [{ apiKeyHeader: [] }, { bearerAuth: [] }],
+      'x-required-scopes': contract.scopes,
+    }),
+    responses,
+    // Payload schema for each Server-Sent Event name
+    ...(contract.events && { 'x-sse-events': contract.events }),
+  };
+}
+
+/**
+ * Build (once) and return the OpenAPI 3.1 document
+ */
+export function getOpenApiDocument(): Record<string, unknown> {
+  if (document) return document;
+
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const [operationId, contract] of Object.entries(contracts) as Array<[string, RouteContract]>) {
+    const path = '/api' + contract.path.replace(/:(\w+)/g, '{$1}');
+    paths[path] = paths[path] || {};
+    paths[path][contract.method] = describeOperation(operationId, contract);
+  }
+
+  document = {
+    openapi: '3.1.0',
+    info: {
+      title: 'LieDetector Backend',
+      version: '0.1.0',
+      description: 'Fact-checking API for the LieDetector browser extension',
+    },
+    servers: [{ url: '/' }],
+    paths,
+    components: {
+      schemas: componentSchemas,
+      securitySchemes: {
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+      },
+    },
+  };
+
+  return document;
+}
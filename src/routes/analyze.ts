@@ -0,0 +1,150 @@
+/**
+ * HTML ingestion: extract the readable article from raw page HTML, then run
+ * the usual claim extraction and verification on it
+ */
+
+import { Router, Request, Response } from 'express';
+import { resolveFilter } from '../services/checkWorthiness';
+import { extractArticle, mapToTextNodes, ExtractedArticle } from '../services/articleExtractor';
+import { DEFAULT_MAX_CLAIMS } from '../services/nlpService';
+import { getProfile } from '../services/profiles';
+import { findPageReport } from '../services/pageReportService';
+import { AnalyzeHtmlRequest, Article, ClaimHighlight, Claim, NlpClaimDetail } from '../types';
+import { contracts } from '../schemas';
+import { validate } from '../middleware/validate';
+import { meter } from '../middleware/rateLimit';
+import { authorize } from '../middleware/auth';
+import { unknownProfileError, resolveTimeout, extractClaims, toClaims, describeNlpClaims, chargeUsage, quotaProfile, reportPage, storedReportMeta, verifyCheckWorthy } from './helpers';
+
+const router = Router();
+
+// The most article text sent for extraction, as for /api/extract-and-verify
+const MAX_ARTICLE_LENGTH = 100000;
+
+/**
+ * Where an extracted claim sits in the article text. The NLP offsets are
+ * used when they match the claim text, otherwise its first occurrence.
+ */
+function locateClaim(text: string, claim: NlpClaimDetail): { charStart: number; charEnd: number } | null {
+  if (claim.charStart !== undefined && claim.charEnd !== undefined && text.slice(claim.charStart, claim.charEnd) === claim.text) {
+    return { charStart: claim.charStart, charEnd: claim.charEnd };
+  }
+
+  const index = text.indexOf(claim.text);
+  return index === -1 ? null : { charStart: index, charEnd: index + claim.text.length };
+}
+
+/**
+ * Highlights for the claims that can be found in the article
+ */
+function highlightClaims(extracted: ExtractedArticle, claims: Claim[], nlpDetails: NlpClaimDetail[]): ClaimHighlight[] {
+  return nlpDetails.flatMap((detail, i) => {
+    const span = locateClaim(extracted.text, detail);
+    if (!span) return [];
+    return [{ claimId: claims[i].id, ...span, ranges: mapToTextNodes(extracted, span.charStart, span.charEnd) }];
+  });
+}
+
+/**
+ * POST /api/analyze-html
+ * Extract the article from raw page HTML, then extract and verify its claims
+ */
+router.post('/analyze-html', authorize(contracts.analyzeHtml), validate(contracts.analyzeHtml), meter(contracts.analyzeHtml), async (req: Request, res: Response) => {
+  try {
+    const { html, url, maxClaims, profile: profileName, timeoutMs, refresh, filter: requestedFilter } = req.body as AnalyzeHtmlRequest;
+    const filter = resolveFilter(requestedFilter);
+    const claimLimit = maxClaims || DEFAULT_MAX_CLAIMS;
+
+    const profile = getProfile(profileName);
+    if (!profile) {
+      return res.status(400).json(unknownProfileError(profileName!));
+    }
+
+    const extracted = extractArticle(html, MAX_ARTICLE_LENGTH);
+    const article: Article = {
+      ...(extracted.title && { title: extracted.title }),
+      text: extracted.text,
+      paragraphs: extracted.paragraphs,
+      truncated: extracted.truncated,
+    };
+
+    console.log(
+      `[API] /analyze-html - ${html.length} chars of HTML from ${url || 'unknown'}, ` +
+      `${article.text.length} chars of article text in ${article.paragraphs.length} paragraphs`
+    );
+
+    // A repeat visit to a page whose article hasn't changed gets the stored report
+    const stored = url && article.text && !refresh ? await findPageReport(url, article.text, profile.name, filter, claimLimit) : undefined;
+    if (stored) {
+      console.log(`[API] Serving stored page report for ${stored.report.url}`);
+      return res.json({
+        article,
+        claims: stored.claims,
+        verifications: stored.verifications,
+        highlights: highlightClaims(extracted, stored.claims, stored.nlpDetails),
+        report: stored.report,
+        meta: storedReportMeta(stored),
+      });
+    }
+
+    if (!article.text) {
+      return res.json({
+        article,
+        claims: [],
+        verifications: [],
+        highlights: [],
+        meta: { total: 0, source: 'none', error: 'No article text found' }
+      });
+    }
+
+    const { nlpClaims, source } = await extractClaims(article.text, url, claimLimit);
+
+    if (nlpClaims.length === 0) {
+      return res.json({
+        article,
+        claims: [],
+        verifications: [],
+        highlights: [],
+        meta: { total: 0, source }
+      });
+    }
+
+    const claims = toClaims(nlpClaims, url);
+
+    console.log(`[API] Extracted ${claims.length} claims, now verifying...`);
+
+    const { verifications, cachedCount, partialCount, sourceCalls, filtered, checkedCount, llmCalls } = await verifyCheckWorthy(article.text, claims, nlpClaims, filter, {
+      profile: quotaProfile(res, profile),
+      timeoutMs: resolveTimeout(timeoutMs),
+    });
+    await chargeUsage(res, checkedCount, sourceCalls, llmCalls);
+
+    const nlpDetails = describeNlpClaims(nlpClaims);
+    const report = reportPage({ url, text: article.text, profile: profile.name, source, filter, filtered, maxClaims: claimLimit, claims, verifications, nlpDetails }, partialCount);
+
+    return res.json({
+      article,
+      claims,
+      verifications,
+      highlights: highlightClaims(extracted, claims, nlpDetails),
+      report,
+      meta: {
+        total: claims.length,
+        fromCache: cachedCount,
+        partial: partialCount,
+        profile: profile.name,
+        source,
+        ...(filtered.length > 0 && { filtered }),
+        nlpDetails,
+      }
+    });
+  } catch (error) {
+    console.error('[API] /analyze-html error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to analyze HTML'
+    });
+  }
+});
+
+export default router;
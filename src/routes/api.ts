@@ -4,9 +4,24 @@
 
 import { Router, Request, Response } from 'express';
 import { verifyClaims, getCacheStats, clearCache } from '../services/verificationService';
-import { nlpService, ExtractedClaim } from '../services/nlpService';
-import { VerifyRequest, Claim } from '../types';
-import { v4 as uuidv4 } from 'uuid';
+import { resolveFilter, classifyClaims, classificationLlmCalls, describeFiltered } from '../services/checkWorthiness';
+import { nlpService, DEFAULT_MAX_CLAIMS } from '../services/nlpService';
+import { describeSources } from '../services/sourceRegistry';
+import { getRateLimiterStats } from '../services/rateLimiter';
+import { getJobStats } from '../services/jobService';
+import { getQueryPlannerStats } from '../services/queryPlanner';
+import { listRoutes } from '../services/sourceRouter';
+import { getUsage, peekRequests, getQuotaResetTime } from '../services/quotas';
+import { getProfile, listProfiles, getDefaultProfileName } from '../services/profiles';
+import { createDeadline } from '../services/deadline';
+import { findPageReport, getPageReport, clearPageReports } from '../services/pageReportService';
+import { VerifyRequest, ExtractRequest, ExtractAndVerifyRequest, FilteredClaim } from '../types';
+import { contracts } from '../schemas';
+import { getOpenApiDocument } from '../openapi';
+import { validate } from '../middleware/validate';
+import { meter, enforceDailyQuota, getClientId, getRequestLimits } from '../middleware/rateLimit';
+import { authorize } from '../middleware/auth';
+import { unknownProfileError, resolveTimeout, extractClaims, verifyCheckWorthy, toClaims, describeNlpClaims, chargeUsage, quotaProfile, reportPage, storedReportMeta } from './helpers';
 
 const router = Router();
 
@@ -14,35 +29,33 @@ const router = Router();
  * POST /api/verify
  * Verify one or more claims
  */
-router.post('/verify', async (req: Request, res: Response) => {
+router.post('/verify', authorize(contracts.verify), validate(contracts.verify), meter(contracts.verify), async (req: Request, res: Response) => {
   try {
-    const { claims, url } = req.body as VerifyRequest;
+    const { claims, url, trace, profile: profileName, timeoutMs } = req.body as VerifyRequest;
     
-    if (!claims || !Array.isArray(claims) || claims.length === 0) {
-      return res.status(400).json({ 
-        error: 'Invalid request', 
-        message: 'Request must include a non-empty array of claims' 
-      });
-    }
-    
-    // Limit batch size to prevent abuse
-    if (claims.length > 50) {
-      return res.status(400).json({ 
-        error: 'Too many claims', 
-        message: 'Maximum 50 claims per request' 
-      });
+    const profile = getProfile(profileName);
+    if (!profile) {
+      return res.status(400).json(unknownProfileError(profileName!));
     }
     
-    console.log(`[API] /verify - ${claims.length} claims from ${url || 'unknown'}`);
+    console.log(`[API] /verify - ${claims.length} claims from ${url || 'unknown'} (profile: ${profile.name})`);
     
-    const { verifications, cachedCount } = await verifyClaims(claims);
+    const { verifications, cachedCount, partialCount, sourceCalls, traces } = await verifyClaims(claims, {
+      trace: trace === true,
+      profile: quotaProfile(res, profile),
+      timeoutMs: resolveTimeout(timeoutMs),
+    });
+    await chargeUsage(res, claims.length, sourceCalls);
     
     return res.json({
       verifications,
       cached: cachedCount === claims.length,
+      ...(traces && { traces }),
       meta: {
         total: claims.length,
         fromCache: cachedCount,
+        partial: partialCount,
+        profile: profile.name,
       }
     });
   } catch (error) {
@@ -58,63 +71,40 @@ router.post('/verify', async (req: Request, res: Response) => {
  * POST /api/extract
  * Extract claims from text using NLP (without verification)
  */
-router.post('/extract', async (req: Request, res: Response) => {
+router.post('/extract', authorize(contracts.extract), validate(contracts.extract), meter(contracts.extract), async (req: Request, res: Response) => {
   try {
-    const { text, url, maxClaims } = req.body;
-    
-    if (!text || typeof text !== 'string') {
-      return res.status(400).json({ 
-        error: 'Invalid request', 
-        message: 'Request must include text to extract claims from' 
-      });
-    }
-    
-    // Limit text size
-    if (text.length > 100000) {
-      return res.status(400).json({ 
-        error: 'Text too long', 
-        message: 'Maximum 100,000 characters per request' 
-      });
-    }
+    const { text, url, maxClaims, filter: requestedFilter } = req.body as ExtractRequest;
+    const filter = resolveFilter(requestedFilter);
     
     console.log(`[API] /extract - ${text.length} chars from ${url || 'unknown'}`);
     
-    // Try NLP service first
-    const nlpClaims = await nlpService.extractClaims(text, url, maxClaims || 20);
-    
-    if (nlpClaims) {
-      // Convert NLP claims to standard format
-      const claims: Claim[] = nlpClaims.map((c: ExtractedClaim) => ({
-        id: uuidv4(),
-        text: c.text,
-        context: `${c.claim_type} claim (confidence: ${(c.confidence * 100).toFixed(0)}%)`,
-        sourceUrl: url,
-      }));
-      
-      return res.json({
-        claims,
-        meta: {
-          total: claims.length,
-          source: 'nlp',
-          nlpDetails: nlpClaims.map((c: ExtractedClaim) => ({
-            text: c.text,
-            claimType: c.claim_type,
-            confidence: c.confidence,
-            entities: c.entities,
-            keywords: c.evidence_keywords,
-          })),
-        }
-      });
+    const { nlpClaims, source } = await extractClaims(text, url, maxClaims || DEFAULT_MAX_CLAIMS);
+    const claims = toClaims(nlpClaims, url);
+    
+    // Claims stay in the response; filtered ones are listed in meta
+    let filtered: FilteredClaim[] = [];
+    if (filter !== 'none' && claims.length > 0) {
+      // The route is metered by request, so the LLM filter's calls are checked here
+      const expectedLlmCalls = classificationLlmCalls(claims.length, filter);
+      if (expectedLlmCalls > 0 && !(await enforceDailyQuota(req, res, 0, expectedLlmCalls))) return;
+
+      const deadline = createDeadline(resolveTimeout());
+      try {
+        const { classifications, llmCalls } = await classifyClaims(claims, filter, deadline.signal);
+        await chargeUsage(res, 0, {}, llmCalls);
+        filtered = classifications.flatMap((c, i) => (c.checkWorthy ? [] : [describeFiltered(claims[i], c)]));
+      } finally {
+        deadline.dispose();
+      }
     }
     
-    // Fallback: return empty array if NLP service unavailable
-    console.log('[API] NLP service unavailable, returning empty claims');
     return res.json({
-      claims: [],
+      claims,
       meta: {
-        total: 0,
-        source: 'fallback',
-        error: 'NLP service unavailable',
+        total: claims.length,
+        source,
+        nlpDetails: describeNlpClaims(nlpClaims, false),
+        ...(filtered.length > 0 && { filtered }),
       }
     });
   } catch (error) {
@@ -130,71 +120,66 @@ router.post('/extract', async (req: Request, res: Response) => {
  * POST /api/extract-and-verify
  * Extract claims from text using NLP and verify them
  */
-router.post('/extract-and-verify', async (req: Request, res: Response) => {
+router.post('/extract-and-verify', authorize(contracts.extractAndVerify), validate(contracts.extractAndVerify), meter(contracts.extractAndVerify), async (req: Request, res: Response) => {
   try {
-    const { text, url, maxClaims } = req.body;
+    const { text, url, maxClaims, profile: profileName, timeoutMs, refresh, filter: requestedFilter } = req.body as ExtractAndVerifyRequest;
+    const filter = resolveFilter(requestedFilter);
+    const claimLimit = maxClaims || DEFAULT_MAX_CLAIMS;
     
-    if (!text || typeof text !== 'string') {
-      return res.status(400).json({ 
-        error: 'Invalid request', 
-        message: 'Request must include text to extract claims from' 
-      });
+    const profile = getProfile(profileName);
+    if (!profile) {
+      return res.status(400).json(unknownProfileError(profileName!));
     }
     
-    // Limit text size
-    if (text.length > 100000) {
-      return res.status(400).json({ 
-        error: 'Text too long', 
-        message: 'Maximum 100,000 characters per request' 
+    console.log(`[API] /extract-and-verify - ${text.length} chars from ${url || 'unknown'}`);
+    
+    // A repeat visit to a page that hasn't changed gets the stored report
+    const stored = url && !refresh ? await findPageReport(url, text, profile.name, filter, claimLimit) : undefined;
+    if (stored) {
+      console.log(`[API] Serving stored page report for ${stored.report.url}`);
+      return res.json({
+        claims: stored.claims,
+        verifications: stored.verifications,
+        report: stored.report,
+        meta: storedReportMeta(stored),
       });
     }
     
-    console.log(`[API] /extract-and-verify - ${text.length} chars from ${url || 'unknown'}`);
-    
-    // Extract claims using NLP
-    const nlpClaims = await nlpService.extractClaims(text, url, maxClaims || 20);
+    const { nlpClaims, source } = await extractClaims(text, url, claimLimit);
     
-    if (!nlpClaims || nlpClaims.length === 0) {
+    if (nlpClaims.length === 0) {
       return res.json({
         claims: [],
         verifications: [],
-        meta: {
-          total: 0,
-          source: nlpClaims === null ? 'fallback' : 'nlp',
-          error: nlpClaims === null ? 'NLP service unavailable' : undefined,
-        }
+        meta: { total: 0, source }
       });
     }
     
-    // Convert NLP claims to standard format
-    const claims: Claim[] = nlpClaims.map((c: ExtractedClaim) => ({
-      id: uuidv4(),
-      text: c.text,
-      context: `${c.claim_type} claim (confidence: ${(c.confidence * 100).toFixed(0)}%)`,
-      sourceUrl: url,
-    }));
+    const claims = toClaims(nlpClaims, url);
     
     console.log(`[API] Extracted ${claims.length} claims, now verifying...`);
     
-    // Verify claims
-    const { verifications, cachedCount } = await verifyClaims(claims);
+    // Verify the claims worth checking
+    const { verifications, cachedCount, partialCount, sourceCalls, filtered, checkedCount, llmCalls } = await verifyCheckWorthy(
+      text, claims, nlpClaims, filter, { profile: quotaProfile(res, profile), timeoutMs: resolveTimeout(timeoutMs) }
+    );
+    await chargeUsage(res, checkedCount, sourceCalls, llmCalls);
+    
+    const nlpDetails = describeNlpClaims(nlpClaims);
+    const report = reportPage({ url, text, profile: profile.name, source, filter, filtered, maxClaims: claimLimit, claims, verifications, nlpDetails }, partialCount);
     
     return res.json({
       claims,
       verifications,
+      report,
       meta: {
         total: claims.length,
         fromCache: cachedCount,
-        source: 'nlp',
-        nlpDetails: nlpClaims.map((c: ExtractedClaim) => ({
-          text: c.text,
-          claimType: c.claim_type,
-          confidence: c.confidence,
-          entities: c.entities,
-          keywords: c.evidence_keywords,
-          charStart: c.char_start,
-          charEnd: c.char_end,
-        })),
+        partial: partialCount,
+        profile: profile.name,
+        source,
+        nlpDetails,
+        ...(filtered.length > 0 && { filtered }),
       }
     });
   } catch (error) {
@@ -207,45 +192,158 @@ router.post('/extract-and-verify', async (req: Request, res: Response) => {
 });
 
 /**
- * GET /api/health
- * Health check endpoint
+ * GET /api/page-report
+ * The stored credibility report for a page
  */
-router.get('/health', async (_req: Request, res: Response) => {
-  const cacheStats = getCacheStats();
-  const nlpAvailable = await nlpService.checkHealth();
+router.get('/page-report', authorize(contracts.pageReport), validate(contracts.pageReport), meter(contracts.pageReport), async (req: Request, res: Response) => {
+  const url = req.query.url as string;
   
-  return res.json({
-    status: 'ok',
-    timestamp: new Date().toISOString(),
-    cache: cacheStats,
-    services: {
-      googleFactCheck: !!process.env.GOOGLE_FACT_CHECK_API_KEY && 
-                       process.env.GOOGLE_FACT_CHECK_API_KEY !== 'your_google_api_key_here',
-      llmVerification: !!process.env.OPENAI_API_KEY && 
-                       process.env.OPENAI_API_KEY !== 'your_openai_api_key_here',
-      nlpService: nlpAvailable,
+  try {
+    const stored = await getPageReport(url);
+    if (!stored) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: `No report is stored for ${url}`,
+      });
     }
+
+    return res.json(stored.report);
+  } catch (error) {
+    console.error('[API] /page-report error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to read the page report'
+    });
+  }
+});
+
+/**
+ * GET /api/profiles
+ * List the verification profiles clients can select
+ */
+router.get('/profiles', authorize(contracts.profiles), validate(contracts.profiles), meter(contracts.profiles), (_req: Request, res: Response) => {
+  return res.json({
+    profiles: listProfiles(),
+    default: getDefaultProfileName(),
   });
 });
 
+/**
+ * GET /api/quota
+ * The caller's rate limit window and today's quota usage
+ */
+router.get('/quota', authorize(contracts.quota), validate(contracts.quota), meter(contracts.quota), async (req: Request, res: Response) => {
+  try {
+    const client = getClientId(req, res);
+    const limits = getRequestLimits(res);
+    const usage = await getUsage(client);
+    const window = peekRequests(client, limits.requestsPerMinute);
+
+    // Limits of 0 are unlimited, reported as null
+    const counter = (limit: number, used: number) => ({
+      limit: limit > 0 ? limit : null,
+      used,
+      remaining: limit > 0 ? Math.max(0, limit - used) : null,
+    });
+
+    return res.json({
+      client,
+      requests: {
+        limit: window.limit > 0 ? window.limit : null,
+        remaining: window.limit > 0 ? window.remaining : null,
+        resetSeconds: window.resetSeconds,
+      },
+      claims: counter(limits.dailyClaims, usage.claims),
+      llmCalls: counter(limits.dailyLlmCalls, usage.llmCalls),
+      resetsAt: getQuotaResetTime().toISOString(),
+    });
+  } catch (error) {
+    console.error('[API] /quota error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to read quota usage'
+    });
+  }
+});
+
+/**
+ * GET /api/health
+ * Health check endpoint
+ */
+router.get('/health', authorize(contracts.health), validate(contracts.health), meter(contracts.health), async (_req: Request, res: Response) => {
+  try {
+    const cacheStats = await getCacheStats();
+    const nlpAvailable = await nlpService.checkHealth();
+
+    return res.json({
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      cache: cacheStats,
+      services: {
+        googleFactCheck: !!process.env.GOOGLE_FACT_CHECK_API_KEY && 
+                         process.env.GOOGLE_FACT_CHECK_API_KEY !== 'your_google_api_key_here',
+        llmVerification: !!process.env.OPENAI_API_KEY && 
+                         process.env.OPENAI_API_KEY !== 'your_openai_api_key_here',
+        nlpService: nlpAvailable,
+      },
+      sources: describeSources(),
+      rateLimits: getRateLimiterStats(),
+      jobs: getJobStats(),
+      routes: listRoutes(),
+      queryPlanner: getQueryPlannerStats(),
+    });
+  } catch (error) {
+    console.error('[API] /health error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to check service health'
+    });
+  }
+});
+
 /**
  * POST /api/cache/clear
  * Clear the verification cache (admin endpoint)
  */
-router.post('/cache/clear', (_req: Request, res: Response) => {
-  clearCache();
-  return res.json({ 
-    status: 'ok', 
-    message: 'Cache cleared' 
-  });
+router.post('/cache/clear', authorize(contracts.cacheClear), validate(contracts.cacheClear), meter(contracts.cacheClear), async (_req: Request, res: Response) => {
+  try {
+    await clearCache();
+    await clearPageReports();
+    return res.json({ 
+      status: 'ok', 
+      message: 'Cache cleared' 
+    });
+  } catch (error) {
+    console.error('[API] /cache/clear error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to clear the cache'
+    });
+  }
 });
 
 /**
  * GET /api/cache/stats
  * Get cache statistics
  */
-router.get('/cache/stats', (_req: Request, res: Response) => {
-  return res.json(getCacheStats());
+router.get('/cache/stats', authorize(contracts.cacheStats), validate(contracts.cacheStats), meter(contracts.cacheStats), async (_req: Request, res: Response) => {
+  try {
+    return res.json(await getCacheStats());
+  } catch (error) {
+    console.error('[API] /cache/stats error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to read cache statistics'
+    });
+  }
+});
+
+/**
+ * GET /api/openapi.json
+ * OpenAPI document generated from the route contracts
+ */
+router.get('/openapi.json', authorize(contracts.openapi), validate(contracts.openapi), meter(contracts.openapi), (_req: Request, res: Response) => {
+  return res.json(getOpenApiDocument());
 });
 
 export default router;
@@ -0,0 +1,108 @@
+/**
+ * Claim history routes, for editors checking what has already been verified
+ */
+
+import { once } from 'events';
+import { Router, Request, Response } from 'express';
+import { searchClaimHistory, getClaimHistoryEntry, ClaimSearchFilters } from '../services/claimHistoryService';
+import { toClaimReview } from '../services/claimReview';
+import { contracts } from '../schemas';
+import { validate } from '../middleware/validate';
+import { meter } from '../middleware/rateLimit';
+import { authorize } from '../middleware/auth';
+
+const router = Router();
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Base of the URLs in exported reviews; PUBLIC_BASE_URL when set, otherwise
+ * where the request was sent
+ */
+function publicBaseUrl(req: Request): string {
+  return process.env.PUBLIC_BASE_URL || `${req.protocol}://${req.get('host')}`;
+}
+
+/**
+ * GET /api/claims/search
+ * Search the history of verified claims
+ */
+router.get('/claims/search', authorize(contracts.searchClaims), validate(contracts.searchClaims), meter(contracts.searchClaims), async (req: Request, res: Response) => {
+  try {
+    // Query values were coerced to their schema types by validate()
+    const query = req.query as Partial<ClaimSearchFilters>;
+    const filters: ClaimSearchFilters = {
+      ...query,
+      limit: query.limit ?? DEFAULT_PAGE_SIZE,
+      offset: query.offset ?? 0,
+    };
+
+    const { results, total } = await searchClaimHistory(filters);
+    return res.json({ results, total, limit: filters.limit, offset: filters.offset });
+  } catch (error) {
+    console.error('[API] /claims/search error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to search claims'
+    });
+  }
+});
+
+/**
+ * GET /api/claims/claimreview.ndjson
+ * Export the claim history as ClaimReview JSON-LD, one object per line
+ */
+router.get('/claims/claimreview.ndjson', authorize(contracts.claimReviewFeed), validate(contracts.claimReviewFeed), meter(contracts.claimReviewFeed), async (req: Request, res: Response) => {
+  try {
+    const query = req.query as Partial<ClaimSearchFilters>;
+    const { results } = await searchClaimHistory({ ...query, limit: Infinity, offset: 0 });
+    const baseUrl = publicBaseUrl(req);
+
+    console.log(`[API] /claims/claimreview.ndjson - exporting ${results.length} claims`);
+
+    res.type('application/x-ndjson');
+    for (const entry of results) {
+      if (res.destroyed) return;
+      if (!res.write(`${JSON.stringify(toClaimReview(entry, baseUrl))}\n`)) {
+        await once(res, 'drain');
+      }
+    }
+    res.end();
+  } catch (error) {
+    console.error('[API] /claims/claimreview.ndjson error:', error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to export claims'
+    });
+  }
+});
+
+/**
+ * GET /api/claims/:id/claimreview
+ * A claim's latest verification as ClaimReview JSON-LD
+ */
+router.get('/claims/:id/claimreview', authorize(contracts.claimReview), validate(contracts.claimReview), meter(contracts.claimReview), async (req: Request, res: Response) => {
+  try {
+    const entry = await getClaimHistoryEntry(req.params.id);
+    if (!entry) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: `No claim with id ${req.params.id}`
+      });
+    }
+
+    return res.type('application/ld+json').json(toClaimReview(entry, publicBaseUrl(req)));
+  } catch (error) {
+    console.error('[API] /claims/:id/claimreview error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to export claim'
+    });
+  }
+});
+
+export default router;
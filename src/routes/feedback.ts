@@ -0,0 +1,101 @@
+/**
+ * User feedback routes: extension users report verdicts they disagree with,
+ * reviewers list and triage the reports
+ */
+
+import { Router, Request, Response } from 'express';
+import { createFeedback, listFeedback, reviewFeedback, DuplicateFeedbackError, FeedbackFilters } from '../services/feedbackService';
+import { getCacheKey } from '../services/verificationService';
+import { FeedbackRequest, FeedbackStatus } from '../types';
+import { contracts } from '../schemas';
+import { validate } from '../middleware/validate';
+import { meter, getClientId } from '../middleware/rateLimit';
+import { authorize, AuthenticatedKey } from '../middleware/auth';
+
+const router = Router();
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * POST /api/feedback
+ * Report whether a verdict shown to the user is right
+ */
+router.post('/feedback', authorize(contracts.submitFeedback), validate(contracts.submitFeedback), meter(contracts.submitFeedback), async (req: Request, res: Response) => {
+  try {
+    const request = req.body as FeedbackRequest;
+
+    const feedback = await createFeedback(request, getCacheKey({ text: request.claimText }), {
+      apiKeyId: (res.locals.apiKey as AuthenticatedKey | undefined)?.id,
+      client: getClientId(req, res),
+    });
+
+    return res.status(201).json(feedback);
+  } catch (error) {
+    if (error instanceof DuplicateFeedbackError) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: error.existingId ? `${error.message} (${error.existingId})` : error.message,
+      });
+    }
+
+    console.error('[API] /feedback error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to record feedback'
+    });
+  }
+});
+
+/**
+ * GET /api/feedback
+ * List feedback for review, filtered by status and rating
+ */
+router.get('/feedback', authorize(contracts.listFeedback), validate(contracts.listFeedback), meter(contracts.listFeedback), async (req: Request, res: Response) => {
+  try {
+    // Query values were coerced to their schema types by validate()
+    const query = req.query as Partial<FeedbackFilters>;
+    const filters: FeedbackFilters = {
+      ...query,
+      limit: query.limit ?? DEFAULT_PAGE_SIZE,
+      offset: query.offset ?? 0,
+    };
+
+    const { feedback, total } = await listFeedback(filters);
+    return res.json({ feedback, total, limit: filters.limit, offset: filters.offset });
+  } catch (error) {
+    console.error('[API] /feedback error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to list feedback'
+    });
+  }
+});
+
+/**
+ * PATCH /api/feedback/:id
+ * Accept or reject a report; rejected reports stop counting towards disputes
+ */
+router.patch('/feedback/:id', authorize(contracts.reviewFeedback), validate(contracts.reviewFeedback), meter(contracts.reviewFeedback), async (req: Request, res: Response) => {
+  try {
+    const { status, note } = req.body as { status: FeedbackStatus; note?: string };
+
+    const feedback = await reviewFeedback(req.params.id, status, note);
+    if (!feedback) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: `Feedback ${req.params.id} does not exist`,
+      });
+    }
+
+    console.log(`[API] Feedback ${feedback.id} marked ${status}`);
+    return res.json(feedback);
+  } catch (error) {
+    console.error('[API] /feedback/:id error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to review feedback'
+    });
+  }
+});
+
+export default router;
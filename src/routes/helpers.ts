@@ -0,0 +1,225 @@
+/**
+ * Helpers shared by the API route modules
+ */
+
+import { Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { nlpService, ExtractedClaim } from '../services/nlpService';
+import { extractClaimsBuiltin } from '../services/builtinExtractor';
+import { verifyExtractedClaims } from '../services/claimNormalizer';
+import { classifyClaims, filteredVerification, describeFiltered } from '../services/checkWorthiness';
+import { VerifyOptions } from '../services/verificationService';
+import { createDeadline } from '../services/deadline';
+import { listProfiles, withoutLlmFallback, VerificationProfile } from '../services/profiles';
+import { recordUsage } from '../services/quotas';
+import { llmSource } from '../services/llmService';
+import { buildPageReport, savePageReport } from '../services/pageReportService';
+import {
+  Claim, Verification, NlpClaimDetail, PageReport, StoredPageReport, ExtractMeta, CheckWorthinessFilter, FilteredClaim,
+} from '../types';
+
+/**
+ * Error body for a request naming a profile that doesn't exist
+ */
+export function unknownProfileError(name: string) {
+  return {
+    error: 'Unknown profile',
+    message: `Profile "${name}" does not exist. Available: ${listProfiles().map(p => p.name).join(', ')}`,
+  };
+}
+
+/**
+ * A request's timeoutMs, falling back to VERIFY_TIMEOUT_MS.
+ * The value itself is range-checked by the request schema.
+ */
+export function resolveTimeout(value?: number): number | undefined {
+  if (value !== undefined) return value;
+
+  const configured = parseInt(process.env.VERIFY_TIMEOUT_MS || '');
+  return configured > 0 ? configured : undefined;
+}
+
+/**
+ * Extract claims with the NLP service, or with the built-in extractor when
+ * the service is unavailable
+ */
+export async function extractClaims(
+  text: string,
+  url: string | undefined,
+  maxClaims: number
+): Promise<{ nlpClaims: ExtractedClaim[]; source: ExtractMeta['source'] }> {
+  const nlpClaims = await nlpService.extractClaims(text, url, maxClaims);
+  if (nlpClaims) {
+    return { nlpClaims, source: 'nlp' };
+  }
+
+  const builtinClaims = extractClaimsBuiltin(text, maxClaims);
+  console.log(`[API] NLP service unavailable, built-in extractor found ${builtinClaims.length} claims`);
+  return { nlpClaims: builtinClaims, source: 'builtin' };
+}
+
+/**
+ * Run the check-worthiness filter over extracted claims, then verify the
+ * claims worth checking. Filtered claims get their verdict straight away
+ * (through onResult, before any other); verifications are indexed like
+ * `claims`. `checkedCount` (atomic claims verified) and `llmCalls` are what
+ * the client is charged.
+ */
+export async function verifyCheckWorthy(
+  text: string,
+  claims: Claim[],
+  nlpClaims: ExtractedClaim[],
+  filter: CheckWorthinessFilter,
+  options: VerifyOptions
+) {
+  const verdicts: Array<Verification | undefined> = new Array(claims.length);
+  const filtered: FilteredClaim[] = [];
+  let llmCalls = 0;
+
+  // One deadline covers classifying and verifying
+  const deadline = createDeadline(options.timeoutMs, options.signal);
+  try {
+    if (filter !== 'none') {
+      const result = await classifyClaims(claims, filter, deadline.signal);
+      llmCalls = result.llmCalls;
+
+      result.classifications.forEach((classification, i) => {
+        if (classification.checkWorthy) return;
+        const verification = filteredVerification(claims[i], classification);
+        verdicts[i] = verification;
+        filtered.push(describeFiltered(claims[i], classification));
+        options.onResult?.(i, { verification, cached: false });
+      });
+      console.log(`[API] Check-worthiness filter (${filter}) filtered out ${filtered.length} of ${claims.length} claims`);
+    }
+
+    const toVerify = claims.flatMap((_, i) => (verdicts[i] ? [] : [i]));
+    const { onResult } = options;
+    const { verifications, cachedCount, partialCount, atomicCount, sourceCalls } = await verifyExtractedClaims(
+      text,
+      toVerify.map(i => claims[i]),
+      toVerify.map(i => nlpClaims[i]),
+      {
+        ...options,
+        timeoutMs: undefined,
+        signal: deadline.signal,
+        onResult: onResult && ((index, result) => onResult(toVerify[index], result)),
+      }
+    );
+    toVerify.forEach((claimIndex, i) => {
+      verdicts[claimIndex] = verifications[i];
+    });
+
+    return {
+      verifications: verdicts as Verification[],
+      cachedCount,
+      partialCount,
+      sourceCalls,
+      filtered,
+      checkedCount: atomicCount,
+      llmCalls,
+    };
+  } finally {
+    deadline.dispose();
+  }
+}
+
+/**
+ * Convert NLP claims to standard format
+ */
+export function toClaims(nlpClaims: ExtractedClaim[], url?: string): Claim[] {
+  return nlpClaims.map((c: ExtractedClaim) => ({
+    id: uuidv4(),
+    text: c.text,
+    context: `${c.claim_type} claim (confidence: ${(c.confidence * 100).toFixed(0)}%)`,
+    sourceUrl: url,
+    entities: c.entities,
+    keywords: c.evidence_keywords,
+    claimType: c.claim_type,
+  }));
+}
+
+/**
+ * NLP details returned in response meta blocks
+ */
+export function describeNlpClaims(nlpClaims: ExtractedClaim[], includeOffsets: boolean = true) {
+  return nlpClaims.map((c: ExtractedClaim) => ({
+    text: c.text,
+    claimType: c.claim_type,
+    confidence: c.confidence,
+    entities: c.entities,
+    keywords: c.evidence_keywords,
+    ...(includeOffsets && { charStart: c.char_start, charEnd: c.char_end }),
+  }));
+}
+
+/**
+ * The profile to verify a request with: without the LLM fallback once the
+ * client's daily LLM quota is used up (flagged by the meter middleware)
+ */
+export function quotaProfile(res: Response, profile: VerificationProfile): VerificationProfile {
+  return res.locals.llmExhausted ? withoutLlmFallback(profile) : profile;
+}
+
+/**
+ * Charge verified claims and the LLM calls they made to the request's client
+ * (set by the meter middleware). Awaited before responding, so the client's
+ * next request is checked against the new usage.
+ */
+export async function chargeUsage(res: Response, claimCount: number, sourceCalls: Record<string, number>, extraLlmCalls: number = 0): Promise<void> {
+  const client = res.locals.quotaClient as string | undefined;
+  if (!client) return;
+
+  try {
+    await recordUsage(client, { claims: claimCount, llmCalls: (sourceCalls[llmSource.name] || 0) + extraLlmCalls });
+  } catch (error) {
+    console.error('[RateLimit] Failed to record usage:', error);
+  }
+}
+
+/**
+ * Build the credibility report for a verified page and store it under the
+ * page's url. Reports with partial verdicts are returned but not stored, so
+ * a timed-out run isn't served to later visits.
+ */
+export function reportPage(
+  page: {
+    url?: string;
+    text: string;
+    profile: string;
+    source: ExtractMeta['source'];
+    filter: CheckWorthinessFilter;
+    filtered: FilteredClaim[];
+    maxClaims: number;
+    claims: Claim[];
+    verifications: Verification[];
+    nlpDetails: NlpClaimDetail[];
+  },
+  partialCount: number
+): PageReport {
+  const report = buildPageReport(page);
+
+  if (page.url && partialCount === 0) {
+    const { claims, verifications, nlpDetails, source, filter, filtered, maxClaims } = page;
+    savePageReport({ report, claims, verifications, nlpDetails, source, filter, filtered, maxClaims })
+      .catch(error => console.error('[PageReport] Failed to store report:', error));
+  }
+
+  return report;
+}
+
+/**
+ * Response meta for a request answered from a stored page report
+ */
+export function storedReportMeta(stored: StoredPageReport) {
+  return {
+    total: stored.claims.length,
+    fromCache: stored.claims.length,
+    partial: 0,
+    profile: stored.report.profile,
+    source: stored.source || 'nlp',
+    nlpDetails: stored.nlpDetails,
+    cachedReport: true,
+    ...(stored.filtered && stored.filtered.length > 0 && { filtered: stored.filtered }),
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Asynchronous verification job routes
+ */
+
+import { Router, Request, Response } from 'express';
+import { createJob, getJob, cancelJob } from '../services/jobService';
+import { checkCallbackUrl } from '../services/callbackTargets';
+import { getProfile } from '../services/profiles';
+import { JobRequest, VerificationJob } from '../types';
+import { contracts } from '../schemas';
+import { validate } from '../middleware/validate';
+import { meter } from '../middleware/rateLimit';
+import { authorize, AuthenticatedKey } from '../middleware/auth';
+import { unknownProfileError } from './helpers';
+
+const router = Router();
+
+function jobNotFound(id: string) {
+  return {
+    error: 'Not found',
+    message: `Job ${id} does not exist or has expired`,
+  };
+}
+
+/**
+ * Whether the caller may see a job: jobs submitted with a key belong to that
+ * key, though admin keys can see every job
+ */
+function canAccessJob(job: VerificationJob, res: Response): boolean {
+  const key = res.locals.apiKey as AuthenticatedKey | undefined;
+  if (!job.apiKeyId || key?.scopes.includes('admin')) return true;
+  return key?.id === job.apiKeyId;
+}
+
+/**
+ * POST /api/jobs
+ * Queue a batch of claims for background verification
+ */
+router.post('/jobs', authorize(contracts.createJob), validate(contracts.createJob), meter(contracts.createJob), async (req: Request, res: Response) => {
+  try {
+    const { claims, url, profile: profileName, callbackUrl } = req.body as JobRequest;
+
+    const profile = getProfile(profileName);
+    if (!profile) {
+      return res.status(400).json(unknownProfileError(profileName!));
+    }
+
+    const refused = callbackUrl ? checkCallbackUrl(callbackUrl) : null;
+    if (refused) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: refused
+      });
+    }
+
+    console.log(`[API] /jobs - ${claims.length} claims from ${url || 'unknown'} (profile: ${profile.name})`);
+
+    const job = await createJob(claims, profile, {
+      url,
+      callbackUrl,
+      apiKeyId: (res.locals.apiKey as AuthenticatedKey | undefined)?.id,
+      client: res.locals.quotaClient,
+      withoutLlm: res.locals.llmExhausted === true,
+    });
+
+    return res.status(202).location(`/api/jobs/${job.id}`).json({
+      id: job.id,
+      status: job.status,
+      progress: job.progress,
+      createdAt: job.createdAt,
+    });
+  } catch (error) {
+    console.error('[API] /jobs error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to create job'
+    });
+  }
+});
+
+/**
+ * GET /api/jobs/:id
+ * Job status, progress and the verifications finished so far
+ */
+router.get('/jobs/:id', authorize(contracts.getJob), validate(contracts.getJob), meter(contracts.getJob), async (req: Request, res: Response) => {
+  try {
+    const job = await getJob(req.params.id);
+    if (!job || !canAccessJob(job, res)) {
+      return res.status(404).json(jobNotFound(req.params.id));
+    }
+
+    return res.json(job);
+  } catch (error) {
+    console.error('[API] /jobs/:id error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to get job'
+    });
+  }
+});
+
+/**
+ * DELETE /api/jobs/:id
+ * Cancel a queued or running job, or delete a finished one
+ */
+router.delete('/jobs/:id', authorize(contracts.deleteJob), validate(contracts.deleteJob), meter(contracts.deleteJob), async (req: Request, res: Response) => {
+  try {
+    const existing = await getJob(req.params.id);
+    const job = existing && canAccessJob(existing, res) ? await cancelJob(req.params.id) : undefined;
+    if (!job) {
+      return res.status(404).json(jobNotFound(req.params.id));
+    }
+
+    return res.json({
+      status: 'ok',
+      message: job.status === 'cancelled' ? 'Job cancelled' : 'Job deleted',
+      job: {
+        id: job.id,
+        status: job.status,
+        progress: job.progress,
+      },
+    });
+  } catch (error) {
+    console.error('[API] DELETE /jobs/:id error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to cancel job'
+    });
+  }
+});
+
+export default router;
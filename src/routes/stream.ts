@@ -0,0 +1,212 @@
+/**
+ * Streaming (Server-Sent Events) variants of the verification routes
+ *
+ * Instead of one JSON body at the end, these routes send events as work
+ * completes so the extension can highlight claims progressively:
+ *   claims        - extracted claims, as soon as extraction returns (extract-and-verify only)
+ *   verification  - one per finished claim: { index, claimId, verification, cached }
+ *   summary       - the meta block (and page report) the non-streaming route would return
+ *   error         - { error, message } if the request fails after the stream opened
+ *
+ * Validation errors are still returned as plain 400 JSON before the stream opens.
+ * If the client disconnects, outstanding verifications are cancelled.
+ */
+
+import { Router, Request, Response } from 'express';
+import { verifyClaims, ClaimVerificationResult } from '../services/verificationService';
+import { resolveFilter } from '../services/checkWorthiness';
+import { DEFAULT_MAX_CLAIMS } from '../services/nlpService';
+import { getProfile } from '../services/profiles';
+import { findPageReport } from '../services/pageReportService';
+import { Claim, VerifyRequest, ExtractAndVerifyRequest } from '../types';
+import { contracts } from '../schemas';
+import { validate } from '../middleware/validate';
+import { meter } from '../middleware/rateLimit';
+import { authorize } from '../middleware/auth';
+import { unknownProfileError, resolveTimeout, extractClaims, toClaims, describeNlpClaims, chargeUsage, quotaProfile, reportPage, storedReportMeta, verifyCheckWorthy } from './helpers';
+
+const router = Router();
+
+// Comment lines keep idle connections open through proxies while slow sources run
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+interface EventStream {
+  send: (event: string, data: unknown) => void;
+  end: () => void;
+  /** Aborts when the client disconnects */
+  signal: AbortSignal;
+}
+
+/**
+ * Switch the response to an event stream
+ */
+function openEventStream(res: Response): EventStream {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Stop nginx from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  const controller = new AbortController();
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    if (!res.writableEnded) {
+      console.log('[API] Stream client disconnected, cancelling verification');
+      controller.abort();
+    }
+  });
+
+  return {
+    send: (event, data) => {
+      if (res.writableEnded || res.destroyed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    end: () => {
+      clearInterval(heartbeat);
+      if (!res.writableEnded) res.end();
+    },
+    signal: controller.signal,
+  };
+}
+
+/**
+ * Event payload for one finished claim
+ */
+function verificationEvent(claims: Claim[], index: number, result: ClaimVerificationResult, includeTrace: boolean) {
+  return {
+    index,
+    claimId: claims[index].id,
+    verification: result.verification,
+    cached: result.cached,
+    ...(includeTrace && result.trace && { trace: result.trace }),
+  };
+}
+
+/**
+ * POST /api/verify/stream
+ * Verify one or more claims, streaming each verdict as it finishes
+ */
+router.post('/verify/stream', authorize(contracts.verifyStream), validate(contracts.verifyStream), meter(contracts.verifyStream), async (req: Request, res: Response) => {
+  const { claims, url, trace, profile: profileName, timeoutMs } = req.body as VerifyRequest;
+
+  const profile = getProfile(profileName);
+  if (!profile) {
+    return res.status(400).json(unknownProfileError(profileName!));
+  }
+
+  console.log(`[API] /verify/stream - ${claims.length} claims from ${url || 'unknown'} (profile: ${profile.name})`);
+
+  const stream = openEventStream(res);
+
+  try {
+    const { cachedCount, partialCount, sourceCalls } = await verifyClaims(claims, {
+      profile: quotaProfile(res, profile),
+      timeoutMs: resolveTimeout(timeoutMs),
+      signal: stream.signal,
+      onResult: (index, result) => stream.send('verification', verificationEvent(claims, index, result, trace === true)),
+    });
+    await chargeUsage(res, claims.length, sourceCalls);
+
+    stream.send('summary', {
+      cached: cachedCount === claims.length,
+      meta: {
+        total: claims.length,
+        fromCache: cachedCount,
+        partial: partialCount,
+        profile: profile.name,
+      }
+    });
+  } catch (error) {
+    console.error('[API] /verify/stream error:', error);
+    stream.send('error', {
+      error: 'Internal server error',
+      message: 'Failed to verify claims'
+    });
+  } finally {
+    stream.end();
+  }
+});
+
+/**
+ * POST /api/extract-and-verify/stream
+ * Extract claims from text using NLP, stream them, then stream each verdict
+ */
+router.post('/extract-and-verify/stream', authorize(contracts.extractAndVerifyStream), validate(contracts.extractAndVerifyStream), meter(contracts.extractAndVerifyStream), async (req: Request, res: Response) => {
+  const { text, url, maxClaims, profile: profileName, timeoutMs, refresh, filter: requestedFilter } = req.body as ExtractAndVerifyRequest;
+  const filter = resolveFilter(requestedFilter);
+  const claimLimit = maxClaims || DEFAULT_MAX_CLAIMS;
+
+  const profile = getProfile(profileName);
+  if (!profile) {
+    return res.status(400).json(unknownProfileError(profileName!));
+  }
+
+  console.log(`[API] /extract-and-verify/stream - ${text.length} chars from ${url || 'unknown'}`);
+
+  const stream = openEventStream(res);
+
+  try {
+    // A repeat visit to a page that hasn't changed replays the stored report
+    const stored = url && !refresh ? await findPageReport(url, text, profile.name, filter, claimLimit) : undefined;
+    if (stored) {
+      console.log(`[API] Replaying stored page report for ${stored.report.url}`);
+      stream.send('claims', { claims: stored.claims, nlpDetails: stored.nlpDetails });
+      stored.verifications.forEach((verification, index) => {
+        stream.send('verification', { index, claimId: verification.claimId, verification, cached: true });
+      });
+      stream.send('summary', { report: stored.report, meta: storedReportMeta(stored) });
+      return;
+    }
+
+    const { nlpClaims, source } = await extractClaims(text, url, claimLimit);
+
+    if (nlpClaims.length === 0) {
+      stream.send('claims', { claims: [], nlpDetails: [] });
+      stream.send('summary', { meta: { total: 0, source } });
+      return;
+    }
+
+    const claims = toClaims(nlpClaims, url);
+    const nlpDetails = describeNlpClaims(nlpClaims);
+
+    stream.send('claims', { claims, nlpDetails });
+
+    const { verifications, cachedCount, partialCount, sourceCalls, filtered, checkedCount, llmCalls } = await verifyCheckWorthy(text, claims, nlpClaims, filter, {
+      profile: quotaProfile(res, profile),
+      timeoutMs: resolveTimeout(timeoutMs),
+      signal: stream.signal,
+      onResult: (index, result) => stream.send('verification', verificationEvent(claims, index, result, false)),
+    });
+    await chargeUsage(res, checkedCount, sourceCalls, llmCalls);
+
+    const report = reportPage({ url, text, profile: profile.name, source, filter, filtered, maxClaims: claimLimit, claims, verifications, nlpDetails }, partialCount);
+
+    stream.send('summary', {
+      report,
+      meta: {
+        total: claims.length,
+        fromCache: cachedCount,
+        partial: partialCount,
+        profile: profile.name,
+        source,
+        ...(filtered.length > 0 && { filtered }),
+        nlpDetails,
+      }
+    });
+  } catch (error) {
+    console.error('[API] /extract-and-verify/stream error:', error);
+    stream.send('error', {
+      error: 'Internal server error',
+      message: 'Failed to extract and verify claims'
+    });
+  } finally {
+    stream.end();
+  }
+});
+
+export default router;
@@ -0,0 +1,1286 @@
+/**
+ * Declarative request/response schemas and route contracts
+ *
+ * Each schema mirrors an interface in types.ts. Route contracts pair a route
+ * with its request and response schemas: the validate() middleware enforces
+ * the request side and the OpenAPI document at /api/openapi.json is generated
+ * from the same contracts, so keep both in sync with types.ts.
+ */
+
+import { getMaxJobClaims } from './services/jobConfig';
+import { ApiKeyScope } from './services/apiKeys';
+
+/**
+ * The subset of JSON Schema understood by the validator
+ */
+export interface JsonSchema {
+  $ref?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: Array<string | number | boolean | null>;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  /** 'uri' requires an absolute http(s) URL */
+  format?: 'uri' | 'date-time';
+}
+
+type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface RouteContract {
+  method: 'get' | 'post' | 'patch' | 'delete';
+  /** Express-style path below /api, e.g. "/jobs/:id" */
+  path: string;
+  summary: string;
+  tag: string;
+  /** API key scopes the caller needs (see middleware/auth) */
+  scopes?: ApiKeyScope[];
+  /** Per-client rate limiting: 'claims' also enforces the daily quotas (see middleware/rateLimit) */
+  metering?: 'requests' | 'claims';
+  params?: JsonSchema;
+  query?: JsonSchema;
+  body?: JsonSchema;
+  /** Set for routes that respond with a Server-Sent Events stream */
+  events?: Record<string, JsonSchema>;
+  /** contentType defaults to application/json */
+  responses: Record<number, { description: string; schema?: JsonSchema; contentType?: string }>;
+}
+
+/**
+ * Reference a named component schema
+ */
+export function ref(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+const RATINGS = ['verified', 'mostly_true', 'mixed', 'mostly_false', 'false', 'unverified', 'opinion', 'outdated'];
+const SOURCE_VERDICT_STATUSES = ['ok', 'no_result', 'skipped', 'error', 'timeout'];
+const JOB_STATUSES = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+const FEEDBACK_STATUSES = ['open', 'accepted', 'rejected'];
+
+// Shared by every route that accepts a profile / deadline
+const profileProperty: JsonSchema = {
+  type: 'string',
+  description: 'Verification profile name (see GET /api/profiles)',
+};
+const timeoutProperty: JsonSchema = {
+  type: 'number',
+  minimum: 100,
+  maximum: 300000,
+  description: 'Time budget in ms; unfinished claims come back with status "partial"',
+};
+
+const refreshProperty: JsonSchema = {
+  type: 'boolean',
+  description: 'Verify again even if a page report is stored for this url and text',
+};
+
+const filterProperty: JsonSchema = {
+  type: 'string',
+  enum: ['none', 'heuristic', 'llm'],
+  description: 'Check-worthiness filter: skip opinions, predictions, questions and commands (default CHECK_WORTHINESS_FILTER)',
+};
+
+export const componentSchemas: Record<string, JsonSchema> = {
+  Rating: { type: 'string', enum: RATINGS },
+
+  Claim: {
+    type: 'object',
+    required: ['id', 'text'],
+    properties: {
+      id: { type: 'string', minLength: 1 },
+      text: { type: 'string', minLength: 1, maxLength: 5000 },
+      context: { type: 'string' },
+      sourceUrl: { type: 'string' },
+      entities: {
+        type: 'array',
+        maxItems: 50,
+        description: 'Named entities in the claim, used to build source queries',
+        items: {
+          type: 'object',
+          required: ['text', 'label'],
+          properties: { text: { type: 'string', minLength: 1 }, label: { type: 'string' } },
+        },
+      },
+      keywords: {
+        type: 'array',
+        maxItems: 50,
+        description: 'Evidence keywords, used to build source queries',
+        items: { type: 'string', minLength: 1 },
+      },
+      claimType: { type: 'string', maxLength: 50, description: 'Kind of claim, e.g. statistic or quote; picks the route to the sources' },
+    },
+  },
+
+  Evidence: {
+    type: 'object',
+    required: ['url', 'sourceName'],
+    properties: {
+      id: { type: 'string', description: 'e.g. "google-1"; referenced by SourceVerdict.evidenceIds' },
+      url: { type: 'string' },
+      sourceName: { type: 'string' },
+      quote: { type: 'string' },
+      datePublished: { type: 'string' },
+      peerReviewed: { type: 'boolean' },
+    },
+  },
+
+  SourceConflict: {
+    type: 'object',
+    required: ['sources', 'ratings', 'severity', 'description'],
+    properties: {
+      sources: { type: 'array', items: { type: 'string' }, minItems: 2, maxItems: 2 },
+      ratings: { type: 'array', items: ref('Rating'), minItems: 2, maxItems: 2 },
+      severity: { type: 'string', enum: ['moderate', 'major'] },
+      description: { type: 'string' },
+    },
+  },
+
+  SourceVerdict: {
+    type: 'object',
+    description: 'What a single source said about a claim, before the consensus',
+    required: ['source', 'status', 'latencyMs', 'evidenceIds'],
+    properties: {
+      source: { type: 'string' },
+      status: { type: 'string', enum: SOURCE_VERDICT_STATUSES },
+      rating: ref('Rating'),
+      confidence: { type: 'number', minimum: 0, maximum: 1 },
+      latencyMs: { type: 'number' },
+      evidenceIds: { type: 'array', items: { type: 'string' } },
+      reason: { type: 'string', description: 'Why the source was skipped or failed' },
+    },
+  },
+
+  ClaimMatch: {
+    type: 'object',
+    description: 'Set when a verification was reused from a similar, previously verified claim',
+    required: ['score', 'claimText'],
+    properties: {
+      score: { type: 'number' },
+      claimText: { type: 'string' },
+    },
+  },
+
+  Verification: {
+    type: 'object',
+    required: ['claimId', 'rating', 'confidence', 'summary', 'evidence', 'checkedAt'],
+    properties: {
+      claimId: { type: 'string' },
+      rating: ref('Rating'),
+      confidence: { type: 'number', minimum: 0, maximum: 1 },
+      summary: { type: 'string' },
+      evidence: { type: 'array', items: ref('Evidence') },
+      checkedAt: { type: 'string', format: 'date-time' },
+      status: {
+        type: 'string',
+        enum: ['complete', 'partial'],
+        description: '"partial" when the request deadline passed before every source finished',
+      },
+      caveats: { type: 'array', items: { type: 'string' } },
+      conflicts: { type: 'array', items: ref('SourceConflict') },
+      sourceVerdicts: { type: 'array', items: ref('SourceVerdict') },
+      match: ref('ClaimMatch'),
+      subClaims: {
+        type: 'array',
+        description: 'Verdicts on the atomic claims this verification was rolled up from',
+        items: ref('SubClaimVerdict'),
+      },
+    },
+  },
+
+  SubClaimVerdict: {
+    type: 'object',
+    required: ['claim', 'verification'],
+    properties: {
+      claim: {
+        type: 'object',
+        required: ['id', 'text', 'parentId', 'span'],
+        properties: {
+          id: { type: 'string' },
+          text: { type: 'string', description: 'The part as verified, with references resolved' },
+          context: { type: 'string' },
+          sourceUrl: { type: 'string' },
+          parentId: { type: 'string' },
+          span: {
+            type: 'object',
+            required: ['start', 'end'],
+            description: "Where the part came from in the parent claim's text",
+            properties: { start: { type: 'integer' }, end: { type: 'integer' } },
+          },
+        },
+      },
+      verification: ref('Verification'),
+    },
+  },
+
+  RouteSource: {
+    type: 'object',
+    required: ['source'],
+    properties: {
+      source: { type: 'string' },
+      retries: { type: 'integer', description: "Most retries on this route (the profile's when lower)" },
+      reliability: { type: 'number', description: "Overrides the source's weight in the consensus" },
+    },
+  },
+
+  SourceRoute: {
+    type: 'object',
+    required: ['name', 'sources'],
+    properties: {
+      name: { type: 'string' },
+      claimTypes: { type: 'array', items: { type: 'string' } },
+      topics: { type: 'array', items: { type: 'string' } },
+      sources: { type: 'array', items: ref('RouteSource') },
+    },
+  },
+
+  SourceRouting: {
+    type: 'object',
+    required: ['route', 'topics', 'sources'],
+    description: 'The route the claim took to the sources',
+    properties: {
+      route: { type: 'string' },
+      claimType: { type: 'string' },
+      topics: { type: 'array', items: { type: 'string' }, description: 'Topics detected in the claim text' },
+      sources: { type: 'array', items: ref('RouteSource'), description: 'Sources on the route, in the order they ran' },
+    },
+  },
+
+  SourceTrace: {
+    type: 'object',
+    required: ['source', 'status', 'durationMs', 'queries', 'relevance', 'notes'],
+    properties: {
+      source: { type: 'string' },
+      status: { type: 'string', enum: SOURCE_VERDICT_STATUSES },
+      reason: { type: 'string' },
+      durationMs: { type: 'number' },
+      queries: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['upstream', 'query', 'hits', 'durationMs'],
+          properties: {
+            upstream: { type: 'string' },
+            query: { type: 'string' },
+            hits: { type: 'integer' },
+            durationMs: { type: 'number' },
+          },
+        },
+      },
+      relevance: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['item', 'score', 'relevant'],
+          properties: {
+            item: { type: 'string' },
+            score: { type: 'number' },
+            relevant: { type: 'boolean' },
+            detail: { type: 'string' },
+          },
+        },
+      },
+      notes: { type: 'array', items: { type: 'string' } },
+    },
+  },
+
+  VerificationTrace: {
+    type: 'object',
+    required: ['claimId', 'claimText', 'cache', 'profile', 'tracedAt', 'durationMs', 'sources', 'combine'],
+    properties: {
+      claimId: { type: 'string' },
+      claimText: { type: 'string' },
+      cache: {
+        type: 'string',
+        enum: ['miss', 'hit', 'similar', 'coalesced'],
+        description: 'How this request was answered; sources/combine describe the original run',
+      },
+      profile: { type: 'string' },
+      routing: ref('SourceRouting'),
+      tracedAt: { type: 'string', format: 'date-time' },
+      durationMs: { type: 'number' },
+      sources: { type: 'array', items: ref('SourceTrace') },
+      combine: {
+        type: 'object',
+        required: ['rating', 'confidence', 'agreement', 'primarySource', 'votes', 'conflicts'],
+        properties: {
+          rating: ref('Rating'),
+          confidence: { type: 'number' },
+          agreement: { type: 'number' },
+          primarySource: { type: ['string', 'null'] },
+          votes: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['source', 'rating', 'confidence', 'reliability'],
+              properties: {
+                source: { type: 'string' },
+                rating: ref('Rating'),
+                confidence: { type: 'number' },
+                reliability: { type: 'number' },
+              },
+            },
+          },
+          conflicts: { type: 'integer' },
+        },
+      },
+    },
+  },
+
+  VerifyRequest: {
+    type: 'object',
+    required: ['claims'],
+    properties: {
+      claims: { type: 'array', items: ref('Claim'), minItems: 1, maxItems: 50 },
+      url: { type: 'string' },
+      trace: { type: 'boolean', description: 'Include a decision trace per claim in the response' },
+      profile: profileProperty,
+      timeoutMs: timeoutProperty,
+    },
+  },
+
+  VerifyMeta: {
+    type: 'object',
+    required: ['total', 'fromCache', 'partial', 'profile'],
+    properties: {
+      total: { type: 'integer' },
+      fromCache: { type: 'integer' },
+      partial: { type: 'integer' },
+      profile: { type: 'string' },
+    },
+  },
+
+  VerifyResponse: {
+    type: 'object',
+    required: ['verifications', 'cached', 'meta'],
+    properties: {
+      verifications: { type: 'array', items: ref('Verification') },
+      cached: { type: 'boolean' },
+      traces: { type: 'array', items: ref('VerificationTrace') },
+      meta: ref('VerifyMeta'),
+    },
+  },
+
+  ExtractRequest: {
+    type: 'object',
+    required: ['text'],
+    properties: {
+      text: { type: 'string', minLength: 1, maxLength: 100000 },
+      url: { type: 'string' },
+      maxClaims: { type: 'integer', minimum: 1, maximum: 50, description: 'Maximum claims to extract (default 20)' },
+      filter: filterProperty,
+    },
+  },
+
+  ExtractAndVerifyRequest: {
+    type: 'object',
+    required: ['text'],
+    properties: {
+      text: { type: 'string', minLength: 1, maxLength: 100000 },
+      url: { type: 'string' },
+      maxClaims: { type: 'integer', minimum: 1, maximum: 50, description: 'Maximum claims to extract (default 20)' },
+      profile: profileProperty,
+      timeoutMs: timeoutProperty,
+      refresh: refreshProperty,
+      filter: filterProperty,
+    },
+  },
+
+  NlpClaimDetail: {
+    type: 'object',
+    required: ['text', 'claimType', 'confidence', 'entities', 'keywords'],
+    properties: {
+      text: { type: 'string' },
+      claimType: { type: 'string' },
+      confidence: { type: 'number' },
+      entities: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['text', 'label'],
+          properties: { text: { type: 'string' }, label: { type: 'string' } },
+        },
+      },
+      keywords: { type: 'array', items: { type: 'string' } },
+      charStart: { type: 'integer' },
+      charEnd: { type: 'integer' },
+    },
+  },
+
+  ExtractResponse: {
+    type: 'object',
+    required: ['claims', 'meta'],
+    properties: {
+      claims: { type: 'array', items: ref('Claim') },
+      meta: {
+        type: 'object',
+        required: ['total', 'source'],
+        properties: {
+          total: { type: 'integer' },
+          source: { type: 'string', enum: ['nlp', 'builtin'], description: '"builtin" when the NLP service was unavailable and the built-in extractor ran' },
+          filtered: { type: 'array', items: ref('FilteredClaim'), description: 'Claims the check-worthiness filter would skip' },
+          nlpDetails: { type: 'array', items: ref('NlpClaimDetail') },
+          error: { type: 'string' },
+        },
+      },
+    },
+  },
+
+  FilteredClaim: {
+    type: 'object',
+    required: ['claimId', 'claimType', 'reason', 'method'],
+    properties: {
+      claimId: { type: 'string' },
+      claimType: { type: 'string', enum: ['factual', 'opinion', 'prediction', 'question', 'command', 'unknown'] },
+      reason: { type: 'string' },
+      method: { type: 'string', enum: ['llm', 'heuristic'] },
+    },
+  },
+
+  ExtractAndVerifyResponse: {
+    type: 'object',
+    required: ['claims', 'verifications', 'meta'],
+    properties: {
+      claims: { type: 'array', items: ref('Claim') },
+      verifications: { type: 'array', items: ref('Verification') },
+      report: ref('PageReport'),
+      meta: ref('ExtractAndVerifyMeta'),
+    },
+  },
+
+  ExtractAndVerifyMeta: {
+    type: 'object',
+    required: ['total', 'source'],
+    properties: {
+      total: { type: 'integer' },
+      fromCache: { type: 'integer' },
+      partial: { type: 'integer' },
+      profile: { type: 'string' },
+      source: { type: 'string', enum: ['nlp', 'builtin', 'none'], description: '"none" when the page had no article text to extract from' },
+      filtered: { type: 'array', items: ref('FilteredClaim'), description: "Claims the check-worthiness filter skipped; their verdicts are rated 'opinion'" },
+      nlpDetails: { type: 'array', items: ref('NlpClaimDetail') },
+      error: { type: 'string' },
+      cachedReport: { type: 'boolean', description: 'Whether the response was served from a stored page report' },
+    },
+  },
+
+  PageReport: {
+    type: 'object',
+    required: [
+      'score', 'credibility', 'explanation', 'totalClaims', 'checkableClaims', 'falseOrMisleading',
+      'ratings', 'coverage', 'claims', 'profile', 'contentHash', 'generatedAt',
+    ],
+    properties: {
+      url: { type: 'string', description: 'Normalized page URL the report is stored under' },
+      score: { type: ['integer', 'null'], minimum: 0, maximum: 100, description: 'Weighted by confidence; null when nothing could be checked' },
+      credibility: { type: 'string', enum: ['reliable', 'mixed', 'unreliable', 'insufficient'] },
+      explanation: { type: 'string' },
+      totalClaims: { type: 'integer' },
+      checkableClaims: { type: 'integer', description: 'Claims with a verdict other than unverified or opinion' },
+      falseOrMisleading: { type: 'integer', description: 'Claims rated false or mostly false' },
+      ratings: {
+        type: 'object',
+        description: 'Claims per rating',
+        additionalProperties: { type: 'integer' },
+      },
+      coverage: {
+        type: 'object',
+        required: ['claims', 'text'],
+        properties: {
+          claims: { type: 'number', description: 'Share of claims that could be checked (0-1)' },
+          text: { type: 'number', description: 'Share of the article text inside checkable claims (0-1)' },
+        },
+      },
+      claims: { type: 'array', items: ref('PageReportClaim') },
+      profile: { type: 'string' },
+      contentHash: { type: 'string', description: 'SHA-256 of the text the report was built from' },
+      generatedAt: { type: 'string', format: 'date-time' },
+    },
+  },
+
+  PageReportClaim: {
+    type: 'object',
+    required: ['claimId', 'text', 'rating', 'confidence', 'nlpConfidence', 'weight', 'checkable'],
+    properties: {
+      claimId: { type: 'string' },
+      text: { type: 'string' },
+      rating: { type: 'string', enum: RATINGS },
+      confidence: { type: 'number' },
+      nlpConfidence: { type: 'number', description: 'NLP extraction confidence (1 when unknown)' },
+      weight: { type: 'number', description: 'confidence x nlpConfidence; 0 for claims that could not be checked' },
+      checkable: { type: 'boolean' },
+    },
+  },
+
+  AnalyzeHtmlRequest: {
+    type: 'object',
+    required: ['html'],
+    properties: {
+      html: { type: 'string', minLength: 1, description: 'Raw page HTML; the request body is limited by HTML_BODY_LIMIT (default 5mb)' },
+      url: { type: 'string' },
+      maxClaims: { type: 'integer', minimum: 1, maximum: 50, description: 'Maximum claims to extract (default 20)' },
+      profile: profileProperty,
+      timeoutMs: timeoutProperty,
+      refresh: refreshProperty,
+      filter: filterProperty,
+    },
+  },
+
+  Article: {
+    type: 'object',
+    required: ['text', 'paragraphs', 'truncated'],
+    properties: {
+      title: { type: 'string' },
+      text: { type: 'string', description: 'Main article text; paragraphs are separated by blank lines' },
+      paragraphs: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['tag', 'charStart', 'charEnd'],
+          properties: { tag: { type: 'string' }, charStart: { type: 'integer' }, charEnd: { type: 'integer' } },
+        },
+      },
+      truncated: { type: 'boolean', description: 'Whether trailing paragraphs were dropped to fit the extraction limit' },
+    },
+  },
+
+  TextNodeRange: {
+    type: 'object',
+    required: ['node', 'start', 'end', 'text', 'htmlStart', 'htmlEnd'],
+    properties: {
+      node: { type: 'integer', description: "Index among the page's non-whitespace text nodes, in document order, skipping script, style, noscript and template contents" },
+      start: { type: 'integer', description: "UTF-16 offset into the node's text" },
+      end: { type: 'integer' },
+      text: { type: 'string', description: 'The node text covered' },
+      htmlStart: { type: 'integer', description: 'Offset into the submitted HTML' },
+      htmlEnd: { type: 'integer' },
+    },
+  },
+
+  ClaimHighlight: {
+    type: 'object',
+    required: ['claimId', 'charStart', 'charEnd', 'ranges'],
+    properties: {
+      claimId: { type: 'string' },
+      charStart: { type: 'integer', description: 'Position of the claim in the article text' },
+      charEnd: { type: 'integer' },
+      ranges: { type: 'array', items: ref('TextNodeRange') },
+    },
+  },
+
+  AnalyzeHtmlResponse: {
+    type: 'object',
+    required: ['article', 'claims', 'verifications', 'highlights', 'meta'],
+    properties: {
+      article: ref('Article'),
+      claims: { type: 'array', items: ref('Claim') },
+      verifications: { type: 'array', items: ref('Verification') },
+      highlights: { type: 'array', items: ref('ClaimHighlight') },
+      report: ref('PageReport'),
+      meta: ref('ExtractAndVerifyMeta'),
+    },
+  },
+
+  JobRequest: {
+    type: 'object',
+    required: ['claims'],
+    properties: {
+      claims: { type: 'array', items: ref('Claim'), minItems: 1, maxItems: getMaxJobClaims() },
+      url: { type: 'string' },
+      profile: profileProperty,
+      callbackUrl: { type: 'string', format: 'uri', description: 'POSTed the finished job when it completes or fails' },
+    },
+  },
+
+  JobProgress: {
+    type: 'object',
+    required: ['total', 'completed', 'fromCache', 'partial'],
+    properties: {
+      total: { type: 'integer' },
+      completed: { type: 'integer' },
+      fromCache: { type: 'integer' },
+      partial: { type: 'integer' },
+    },
+  },
+
+  VerificationJob: {
+    type: 'object',
+    required: ['id', 'status', 'profile', 'claims', 'progress', 'verifications', 'createdAt'],
+    properties: {
+      id: { type: 'string' },
+      status: { type: 'string', enum: JOB_STATUSES },
+      profile: { type: 'string' },
+      url: { type: 'string' },
+      claims: { type: 'array', items: ref('Claim') },
+      progress: ref('JobProgress'),
+      verifications: {
+        type: 'array',
+        items: ref('Verification'),
+        description: 'Verifications in claim order; filled in as chunks finish',
+      },
+      callback: {
+        type: 'object',
+        required: ['url', 'status', 'attempts'],
+        properties: {
+          url: { type: 'string' },
+          status: { type: 'string', enum: ['pending', 'delivered', 'failed'] },
+          attempts: { type: 'integer' },
+          lastError: { type: 'string' },
+          deliveredAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      apiKeyId: { type: 'string', description: 'Id of the API key that submitted the job' },
+      client: { type: 'string', description: 'Quota client the job is charged to' },
+      withoutLlm: { type: 'boolean', description: "Verified without the LLM fallback because the client's daily LLM quota was used up" },
+      error: { type: 'string' },
+      createdAt: { type: 'string', format: 'date-time' },
+      startedAt: { type: 'string', format: 'date-time' },
+      finishedAt: { type: 'string', format: 'date-time' },
+    },
+  },
+
+  JobSummary: {
+    type: 'object',
+    required: ['id', 'status', 'progress'],
+    properties: {
+      id: { type: 'string' },
+      status: { type: 'string', enum: JOB_STATUSES },
+      progress: ref('JobProgress'),
+      createdAt: { type: 'string', format: 'date-time' },
+    },
+  },
+
+  FeedbackRequest: {
+    type: 'object',
+    required: ['claimText', 'verification', 'proposedRating'],
+    properties: {
+      claimId: { type: 'string' },
+      claimText: { type: 'string', minLength: 1, maxLength: 5000 },
+      verification: {
+        type: 'object',
+        description: 'The verdict the user was shown',
+        required: ['rating'],
+        properties: {
+          rating: { type: 'string', enum: RATINGS },
+          confidence: { type: 'number', minimum: 0, maximum: 1 },
+          checkedAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      proposedRating: { type: 'string', enum: RATINGS, description: 'The rating the user thinks is correct' },
+      evidenceUrl: { type: 'string', format: 'uri' },
+      comment: { type: 'string', maxLength: 2000 },
+    },
+  },
+
+  Feedback: {
+    type: 'object',
+    required: ['id', 'claimText', 'claimKey', 'shownRating', 'proposedRating', 'disputed', 'status', 'createdAt'],
+    properties: {
+      id: { type: 'string' },
+      claimId: { type: 'string' },
+      claimText: { type: 'string' },
+      claimKey: { type: 'string', description: 'Cache key of the verification the feedback is about' },
+      shownRating: { type: 'string', enum: RATINGS },
+      shownConfidence: { type: 'number' },
+      shownCheckedAt: { type: 'string' },
+      proposedRating: { type: 'string', enum: RATINGS },
+      disputed: { type: 'boolean', description: 'Whether the proposed rating differs from the one shown' },
+      evidenceUrl: { type: 'string' },
+      comment: { type: 'string' },
+      status: { type: 'string', enum: FEEDBACK_STATUSES },
+      reviewNote: { type: 'string' },
+      apiKeyId: { type: 'string' },
+      client: { type: 'string' },
+      createdAt: { type: 'string', format: 'date-time' },
+      reviewedAt: { type: 'string', format: 'date-time' },
+    },
+  },
+
+  FeedbackList: {
+    type: 'object',
+    required: ['feedback', 'total', 'limit', 'offset'],
+    properties: {
+      feedback: { type: 'array', items: ref('Feedback') },
+      total: { type: 'integer', description: 'Feedback matching the filters' },
+      limit: { type: 'integer' },
+      offset: { type: 'integer' },
+    },
+  },
+
+  ClaimSearchResult: {
+    type: 'object',
+    required: ['id', 'claimText', 'verification', 'sourceUrls', 'firstCheckedAt', 'lastCheckedAt', 'checks'],
+    properties: {
+      id: { type: 'string', description: "Stable id derived from the claim's cache key" },
+      claimText: { type: 'string' },
+      verification: ref('Verification'),
+      sourceUrls: { type: 'array', items: { type: 'string' }, description: 'Pages the claim was verified for, most recent first' },
+      firstCheckedAt: { type: 'string', format: 'date-time' },
+      lastCheckedAt: { type: 'string', format: 'date-time' },
+      checks: { type: 'integer', description: 'How many times the sources were run for the claim' },
+      score: { type: 'number', description: 'Relevance to the query, when one was given' },
+    },
+  },
+
+  ClaimSearchResponse: {
+    type: 'object',
+    required: ['results', 'total', 'limit', 'offset'],
+    properties: {
+      results: { type: 'array', items: ref('ClaimSearchResult') },
+      total: { type: 'integer', description: 'Entries matching the query and filters' },
+      limit: { type: 'integer' },
+      offset: { type: 'integer' },
+    },
+  },
+
+  ClaimReview: {
+    type: 'object',
+    description: 'schema.org ClaimReview (JSON-LD)',
+    required: ['@context', '@type', 'url', 'claimReviewed', 'datePublished', 'author', 'reviewRating', 'itemReviewed'],
+    properties: {
+      '@context': { type: 'string', enum: ['https://schema.org'] },
+      '@type': { type: 'string', enum: ['ClaimReview'] },
+      identifier: { type: 'string', description: 'Claim id, as in /api/claims/search' },
+      url: { type: 'string', description: 'Where this review is published' },
+      claimReviewed: { type: 'string' },
+      datePublished: { type: 'string', format: 'date-time' },
+      author: {
+        type: 'object',
+        required: ['@type', 'name'],
+        properties: { '@type': { type: 'string' }, name: { type: 'string' }, url: { type: 'string' } },
+      },
+      reviewRating: {
+        type: 'object',
+        required: ['@type', 'alternateName'],
+        properties: {
+          '@type': { type: 'string', enum: ['Rating'] },
+          ratingValue: { type: 'integer', minimum: 1, maximum: 5, description: 'Omitted for unverified, opinion and outdated' },
+          bestRating: { type: 'integer' },
+          worstRating: { type: 'integer' },
+          alternateName: { type: 'string', description: 'The rating in words, e.g. "Mostly false"' },
+          ratingExplanation: { type: 'string' },
+        },
+      },
+      itemReviewed: {
+        type: 'object',
+        required: ['@type', 'appearance'],
+        properties: {
+          '@type': { type: 'string', enum: ['Claim'] },
+          appearance: {
+            type: 'array',
+            description: 'The evidence the verdict is based on',
+            items: {
+              type: 'object',
+              required: ['@type', 'url'],
+              properties: {
+                '@type': { type: 'string' },
+                url: { type: 'string' },
+                text: { type: 'string' },
+                datePublished: { type: 'string' },
+                publisher: {
+                  type: 'object',
+                  required: ['@type', 'name'],
+                  properties: { '@type': { type: 'string' }, name: { type: 'string' } },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+
+  VerificationProfile: {
+    type: 'object',
+    required: ['name', 'description', 'allowLlmFallback', 'retries', 'cacheOnly'],
+    properties: {
+      name: { type: 'string' },
+      description: { type: 'string' },
+      sources: { type: 'array', items: { type: 'string' }, description: 'Sources allowed to run; omitted means every enabled source' },
+      allowLlmFallback: { type: 'boolean' },
+      alwaysRunFallback: { type: 'boolean' },
+      retries: { type: 'integer' },
+      cacheOnly: { type: 'boolean' },
+    },
+  },
+
+  CacheStats: {
+    type: 'object',
+    required: ['keys', 'hits', 'misses', 'hotKeys', 'storeHits', 'similarityHits', 'coalesced', 'inFlight', 'backend'],
+    properties: {
+      keys: { type: 'integer' },
+      hits: { type: 'integer' },
+      misses: { type: 'integer' },
+      hotKeys: { type: 'integer' },
+      storeHits: { type: 'integer' },
+      similarityHits: { type: 'integer' },
+      coalesced: { type: 'integer' },
+      inFlight: { type: 'integer' },
+      backend: { type: 'string', enum: ['memory', 'file'] },
+    },
+  },
+
+  HealthResponse: {
+    type: 'object',
+    required: ['status', 'timestamp', 'cache', 'services', 'sources', 'rateLimits', 'jobs'],
+    properties: {
+      status: { type: 'string' },
+      timestamp: { type: 'string', format: 'date-time' },
+      cache: ref('CacheStats'),
+      services: {
+        type: 'object',
+        additionalProperties: { type: 'boolean' },
+      },
+      sources: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['name', 'priority', 'enabled', 'configured', 'fallback'],
+          properties: {
+            name: { type: 'string' },
+            priority: { type: 'number' },
+            enabled: { type: 'boolean' },
+            configured: { type: 'boolean' },
+            fallback: { type: 'boolean' },
+          },
+        },
+      },
+      rateLimits: {
+        type: 'object',
+        additionalProperties: {
+          type: 'object',
+          required: ['ratePerSecond', 'pending'],
+          properties: {
+            ratePerSecond: { type: 'number' },
+            pending: { type: 'integer' },
+          },
+        },
+      },
+      jobs: {
+        type: 'object',
+        required: ['queued', 'running', 'backend'],
+        properties: {
+          queued: { type: 'integer' },
+          running: { type: 'integer' },
+          backend: { type: 'string' },
+        },
+      },
+      routes: {
+        type: 'array',
+        items: ref('SourceRoute'),
+        description: 'Source routes, in the order they are matched',
+      },
+      queryPlanner: {
+        type: 'object',
+        description: 'Upstream queries sent and queries with hits, per source and query strategy',
+        additionalProperties: {
+          type: 'object',
+          additionalProperties: {
+            type: 'object',
+            required: ['queries', 'hits', 'hitRate'],
+            properties: {
+              queries: { type: 'integer' },
+              hits: { type: 'integer' },
+              hitRate: { type: 'number' },
+            },
+          },
+        },
+      },
+    },
+  },
+
+  QuotaStatus: {
+    type: 'object',
+    required: ['client', 'requests', 'claims', 'llmCalls', 'resetsAt'],
+    properties: {
+      client: { type: 'string', description: '"key:<id>" for API keys, "ip:<address>" otherwise' },
+      requests: ref('QuotaWindow'),
+      claims: ref('QuotaCounter'),
+      llmCalls: ref('QuotaCounter'),
+      resetsAt: { type: 'string', format: 'date-time', description: 'When daily quotas reset (00:00 UTC)' },
+    },
+  },
+
+  QuotaWindow: {
+    type: 'object',
+    description: 'Requests per minute; limit and remaining are null when unlimited',
+    required: ['limit', 'remaining', 'resetSeconds'],
+    properties: {
+      limit: { type: ['integer', 'null'] },
+      remaining: { type: ['integer', 'null'] },
+      resetSeconds: { type: 'integer' },
+    },
+  },
+
+  QuotaCounter: {
+    type: 'object',
+    description: 'Daily usage; limit and remaining are null when unlimited',
+    required: ['limit', 'used', 'remaining'],
+    properties: {
+      limit: { type: ['integer', 'null'] },
+      used: { type: 'integer' },
+      remaining: { type: ['integer', 'null'] },
+    },
+  },
+
+  StatusResponse: {
+    type: 'object',
+    required: ['status', 'message'],
+    properties: {
+      status: { type: 'string' },
+      message: { type: 'string' },
+    },
+  },
+
+  FieldError: {
+    type: 'object',
+    required: ['path', 'message'],
+    properties: {
+      path: { type: 'string', description: 'Location of the invalid value, e.g. "claims[2].text"' },
+      message: { type: 'string' },
+    },
+  },
+
+  ErrorResponse: {
+    type: 'object',
+    required: ['error', 'message'],
+    properties: {
+      error: { type: 'string' },
+      message: { type: 'string' },
+      details: { type: 'array', items: ref('FieldError'), description: 'Per-field problems when a request fails validation' },
+    },
+  },
+};
+
+const badRequest = { description: 'Invalid request', schema: ref('ErrorResponse') };
+const serverError = { description: 'Internal server error', schema: ref('ErrorResponse') };
+const notFound = { description: 'Not found', schema: ref('ErrorResponse') };
+const conflict = { description: 'Conflict', schema: ref('ErrorResponse') };
+const idParams: JsonSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: { id: { type: 'string', minLength: 1 } },
+};
+
+// Filters shared by the claim history routes
+const claimFilterProperties: Record<string, JsonSchema> = {
+  q: { type: 'string', maxLength: 500, description: 'Words that must all appear in the claim (prefixes match too)' },
+  rating: { type: 'string', enum: RATINGS },
+  source: { type: 'string', description: 'A verification source that returned a result, e.g. "pubmed"' },
+  from: { type: 'string', format: 'date-time', description: 'Last checked at or after' },
+  to: { type: 'string', format: 'date-time', description: 'Last checked at or before' },
+  url: { type: 'string', description: 'Prefix of a page URL the claim was seen on' },
+};
+
+// Events sent by the streaming routes
+const verificationEvent: JsonSchema = {
+  type: 'object',
+  required: ['index', 'claimId', 'verification', 'cached'],
+  properties: {
+    index: { type: 'integer' },
+    claimId: { type: 'string' },
+    verification: ref('Verification'),
+    cached: { type: 'boolean' },
+    trace: ref('VerificationTrace'),
+  },
+};
+
+export const contracts = {
+  verify: {
+    method: 'post',
+    path: '/verify',
+    summary: 'Verify one or more claims',
+    tag: 'Verification',
+    scopes: ['verify'],
+    metering: 'claims',
+    body: ref('VerifyRequest'),
+    responses: { 200: { description: 'Verifications', schema: ref('VerifyResponse') }, 400: badRequest, 500: serverError },
+  },
+  verifyStream: {
+    method: 'post',
+    path: '/verify/stream',
+    summary: 'Verify one or more claims, streaming each verdict as a Server-Sent Event',
+    tag: 'Verification',
+    scopes: ['verify'],
+    metering: 'claims',
+    body: ref('VerifyRequest'),
+    events: {
+      verification: verificationEvent,
+      summary: {
+        type: 'object',
+        required: ['cached', 'meta'],
+        properties: { cached: { type: 'boolean' }, meta: ref('VerifyMeta') },
+      },
+      error: ref('ErrorResponse'),
+    },
+    responses: { 200: { description: 'Event stream' }, 400: badRequest },
+  },
+  extract: {
+    method: 'post',
+    path: '/extract',
+    summary: 'Extract claims from text using NLP (without verification)',
+    tag: 'Extraction',
+    scopes: ['extract'],
+    metering: 'requests',
+    body: ref('ExtractRequest'),
+    responses: { 200: { description: 'Extracted claims', schema: ref('ExtractResponse') }, 400: badRequest, 500: serverError },
+  },
+  extractAndVerify: {
+    method: 'post',
+    path: '/extract-and-verify',
+    summary: 'Extract claims from text using NLP and verify them',
+    tag: 'Verification',
+    scopes: ['extract', 'verify'],
+    metering: 'claims',
+    body: ref('ExtractAndVerifyRequest'),
+    responses: { 200: { description: 'Claims and their verifications', schema: ref('ExtractAndVerifyResponse') }, 400: badRequest, 500: serverError },
+  },
+  extractAndVerifyStream: {
+    method: 'post',
+    path: '/extract-and-verify/stream',
+    summary: 'Extract and verify claims, streaming the claims and then each verdict as Server-Sent Events',
+    tag: 'Verification',
+    scopes: ['extract', 'verify'],
+    metering: 'claims',
+    body: ref('ExtractAndVerifyRequest'),
+    events: {
+      claims: {
+        type: 'object',
+        required: ['claims', 'nlpDetails'],
+        properties: {
+          claims: { type: 'array', items: ref('Claim') },
+          nlpDetails: { type: 'array', items: ref('NlpClaimDetail') },
+        },
+      },
+      verification: verificationEvent,
+      summary: {
+        type: 'object',
+        required: ['meta'],
+        properties: { report: ref('PageReport'), meta: ref('ExtractAndVerifyMeta') },
+      },
+      error: ref('ErrorResponse'),
+    },
+    responses: { 200: { description: 'Event stream' }, 400: badRequest },
+  },
+  analyzeHtml: {
+    method: 'post',
+    path: '/analyze-html',
+    summary: 'Extract the article from raw page HTML, then extract and verify its claims',
+    tag: 'Verification',
+    scopes: ['extract', 'verify'],
+    metering: 'claims',
+    body: ref('AnalyzeHtmlRequest'),
+    responses: {
+      200: { description: 'The article, its claims and verifications, and where each claim sits in the HTML', schema: ref('AnalyzeHtmlResponse') },
+      400: badRequest,
+      413: { description: 'HTML too large', schema: ref('ErrorResponse') },
+      500: serverError,
+    },
+  },
+  createJob: {
+    method: 'post',
+    path: '/jobs',
+    summary: 'Queue a batch of claims for background verification',
+    tag: 'Jobs',
+    scopes: ['verify'],
+    metering: 'claims',
+    body: ref('JobRequest'),
+    responses: { 202: { description: 'Job queued', schema: ref('JobSummary') }, 400: badRequest, 500: serverError },
+  },
+  getJob: {
+    method: 'get',
+    path: '/jobs/:id',
+    summary: 'Job status, progress and the verifications finished so far',
+    tag: 'Jobs',
+    scopes: ['verify'],
+    params: idParams,
+    responses: { 200: { description: 'The job', schema: ref('VerificationJob') }, 404: notFound, 500: serverError },
+  },
+  deleteJob: {
+    method: 'delete',
+    path: '/jobs/:id',
+    summary: 'Cancel a queued or running job, or delete a finished one',
+    tag: 'Jobs',
+    scopes: ['verify'],
+    params: idParams,
+    responses: {
+      200: {
+        description: 'Job cancelled or deleted',
+        schema: {
+          type: 'object',
+          required: ['status', 'message', 'job'],
+          properties: { status: { type: 'string' }, message: { type: 'string' }, job: ref('JobSummary') },
+        },
+      },
+      404: notFound,
+      500: serverError,
+    },
+  },
+  submitFeedback: {
+    method: 'post',
+    path: '/feedback',
+    summary: 'Report whether a verdict shown to the user is right',
+    tag: 'Feedback',
+    scopes: ['verify'],
+    metering: 'requests',
+    body: ref('FeedbackRequest'),
+    responses: { 201: { description: 'Feedback recorded', schema: ref('Feedback') }, 400: badRequest, 409: conflict, 500: serverError },
+  },
+  listFeedback: {
+    method: 'get',
+    path: '/feedback',
+    summary: 'List feedback for review, newest first',
+    tag: 'Feedback',
+    scopes: ['review'],
+    query: {
+      type: 'object',
+      properties: {
+        status: { type: 'string', enum: FEEDBACK_STATUSES },
+        rating: { type: 'string', enum: RATINGS, description: 'Proposed rating' },
+        shownRating: { type: 'string', enum: RATINGS },
+        disputed: { type: 'boolean' },
+        claimId: { type: 'string' },
+        limit: { type: 'integer', minimum: 1, maximum: 200, description: 'Defaults to 50' },
+        offset: { type: 'integer', minimum: 0 },
+      },
+      additionalProperties: false,
+    },
+    responses: { 200: { description: 'Matching feedback', schema: ref('FeedbackList') }, 400: badRequest, 500: serverError },
+  },
+  reviewFeedback: {
+    method: 'patch',
+    path: '/feedback/:id',
+    summary: 'Accept or reject a feedback report',
+    tag: 'Feedback',
+    scopes: ['review'],
+    params: idParams,
+    body: {
+      type: 'object',
+      required: ['status'],
+      properties: {
+        status: { type: 'string', enum: FEEDBACK_STATUSES },
+        note: { type: 'string', maxLength: 2000 },
+      },
+      additionalProperties: false,
+    },
+    responses: { 200: { description: 'The updated feedback', schema: ref('Feedback') }, 400: badRequest, 404: notFound, 500: serverError },
+  },
+  searchClaims: {
+    method: 'get',
+    path: '/claims/search',
+    summary: 'Search the history of verified claims',
+    tag: 'Claims',
+    scopes: ['review'],
+    metering: 'requests',
+    query: {
+      type: 'object',
+      properties: {
+        ...claimFilterProperties,
+        limit: { type: 'integer', minimum: 1, maximum: 100, description: 'Defaults to 20' },
+        offset: { type: 'integer', minimum: 0 },
+      },
+      additionalProperties: false,
+    },
+    responses: { 200: { description: 'Matching claims', schema: ref('ClaimSearchResponse') }, 400: badRequest },
+  },
+  claimReviewFeed: {
+    method: 'get',
+    path: '/claims/claimreview.ndjson',
+    summary: 'Every claim in the history as schema.org ClaimReview, one JSON-LD object per line',
+    tag: 'Claims',
+    scopes: ['export'],
+    metering: 'requests',
+    query: { type: 'object', properties: claimFilterProperties, additionalProperties: false },
+    responses: {
+      200: { description: 'Newline-delimited ClaimReview objects, newest first', schema: ref('ClaimReview'), contentType: 'application/x-ndjson' },
+      400: badRequest,
+    },
+  },
+  claimReview: {
+    method: 'get',
+    path: '/claims/:id/claimreview',
+    summary: "A claim's latest verification as schema.org ClaimReview JSON-LD",
+    tag: 'Claims',
+    scopes: ['export'],
+    metering: 'requests',
+    params: idParams,
+    responses: {
+      200: { description: 'ClaimReview JSON-LD', schema: ref('ClaimReview'), contentType: 'application/ld+json' },
+      404: notFound,
+    },
+  },
+  pageReport: {
+    method: 'get',
+    path: '/page-report',
+    summary: 'The stored credibility report for a page',
+    tag: 'Verification',
+    scopes: ['verify'],
+    metering: 'requests',
+    query: {
+      type: 'object',
+      required: ['url'],
+      properties: { url: { type: 'string', minLength: 1, description: 'Page URL; fragments and tracking parameters are ignored' } },
+    },
+    responses: { 200: { description: 'The page report', schema: ref('PageReport') }, 400: badRequest, 404: notFound, 500: serverError },
+  },
+  profiles: {
+    method: 'get',
+    path: '/profiles',
+    summary: 'List the verification profiles clients can select',
+    tag: 'Service',
+    responses: {
+      200: {
+        description: 'Profiles and the default profile name',
+        schema: {
+          type: 'object',
+          required: ['profiles', 'default'],
+          properties: { profiles: { type: 'array', items: ref('VerificationProfile') }, default: { type: 'string' } },
+        },
+      },
+    },
+  },
+  quota: {
+    method: 'get',
+    path: '/quota',
+    summary: "The caller's rate limit and daily quota usage",
+    tag: 'Service',
+    responses: { 200: { description: 'Quota status', schema: ref('QuotaStatus') }, 500: serverError },
+  },
+  health: {
+    method: 'get',
+    path: '/health',
+    summary: 'Health check',
+    tag: 'Service',
+    responses: { 200: { description: 'Service health', schema: ref('HealthResponse') }, 500: serverError },
+  },
+  cacheClear: {
+    method: 'post',
+    path: '/cache/clear',
+    summary: 'Clear the verification cache and stored page reports',
+    tag: 'Cache',
+    scopes: ['admin'],
+    responses: { 200: { description: 'Cache cleared', schema: ref('StatusResponse') }, 500: serverError },
+  },
+  cacheStats: {
+    method: 'get',
+    path: '/cache/stats',
+    summary: 'Cache statistics',
+    tag: 'Cache',
+    scopes: ['admin'],
+    responses: { 200: { description: 'Cache statistics', schema: ref('CacheStats') }, 500: serverError },
+  },
+  openapi: {
+    method: 'get',
+    path: '/openapi.json',
+    summary: 'This OpenAPI document',
+    tag: 'Service',
+    responses: { 200: { description: 'OpenAPI 3.1 document', schema: { type: 'object' } } },
+  },
+} satisfies Record<string, RouteContract>;
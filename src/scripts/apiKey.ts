@@ -0,0 +1,76 @@
+/**
+ * Manage API keys in the key file (API_KEYS_PATH)
+ *
+ * Usage (after `npm run build`):
+ *   npm run api-key -- create <name> <scopes>   scopes: comma-separated verify,extract,review,export,admin
+ *   npm run api-key -- list
+ *   npm run api-key -- revoke <id>
+ */
+
+import 'dotenv/config';
+
+import {
+  API_KEY_SCOPES,
+  ApiKeyScope,
+  createApiKey,
+  getApiKeysPath,
+  listApiKeys,
+  revokeApiKey,
+} from '../services/apiKeys';
+
+function usage(): never {
+  console.error('Usage: api-key create <name> <scopes> | list | revoke <id>');
+  console.error(`Scopes: ${API_KEY_SCOPES.join(', ')}`);
+  process.exit(1);
+}
+
+const [command, ...args] = process.argv.slice(2);
+
+switch (command) {
+  case 'create': {
+    const [name, scopeList] = args;
+    if (!name || !scopeList) usage();
+
+    const scopes = scopeList.split(',').map(s => s.trim()).filter(Boolean);
+    const unknown = scopes.filter(s => !API_KEY_SCOPES.includes(s as ApiKeyScope));
+    if (unknown.length > 0) {
+      console.error(`Unknown scopes: ${unknown.join(', ')}`);
+      usage();
+    }
+
+    const { key, record } = createApiKey(name, scopes as ApiKeyScope[]);
+    console.log(`Created key ${record.id} (${record.name}) with scopes: ${record.scopes.join(', ')}`);
+    console.log(`Stored in ${getApiKeysPath()}`);
+    console.log(`\n  ${key}\n`);
+    console.log('This is the only time the key is shown. Store it somewhere safe.');
+    break;
+  }
+
+  case 'list': {
+    const keys = listApiKeys();
+    if (keys.length === 0) {
+      console.log(`No keys in ${getApiKeysPath()}`);
+      break;
+    }
+    for (const k of keys) {
+      const state = k.revokedAt ? `revoked ${k.revokedAt}` : 'active';
+      console.log(`${k.id}  ${k.name.padEnd(20)} ${k.scopes.join(',').padEnd(22)} ${state}`);
+    }
+    break;
+  }
+
+  case 'revoke': {
+    const [id] = args;
+    if (!id) usage();
+
+    if (!revokeApiKey(id)) {
+      console.error(`No active key with id ${id}`);
+      process.exit(1);
+    }
+    console.log(`Revoked key ${id}`);
+    break;
+  }
+
+  default:
+    usage();
+}
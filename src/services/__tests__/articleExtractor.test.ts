@@ -0,0 +1,85 @@
+import { extractArticle, mapToTextNodes } from '../articleExtractor';
+
+const page = (body: string, head = '') => `<!doctype html><html><head>${head}</head><body>${body}</body></html>`;
+
+describe('extractArticle', () => {
+  it('extracts paragraphs from the main content and drops boilerplate', () => {
+    const article = extractArticle(page(`
+      <nav><a href="/">Home</a> <a href="/news">News</a></nav>
+      <div class="sidebar"><p>Sign up for our newsletter to get the latest stories.</p></div>
+      <article>
+        <h1>Rates rise again</h1>
+        <p>The central bank raised interest rates by half a point on Tuesday.</p>
+        <div class="share-buttons"><p>Share this story with your friends and family.</p></div>
+        <p>Inflation  reached
+          6% in March, the highest level in a decade.</p>
+      </article>
+      <footer><p>Copyright 2024 Example News. All rights reserved.</p></footer>
+    `, '<title> Rates rise again | Example News </title>'));
+
+    expect(article.title).toBe('Rates rise again | Example News');
+    expect(article.text).toBe(
+      'Rates rise again\n\n' +
+      'The central bank raised interest rates by half a point on Tuesday.\n\n' +
+      'Inflation reached 6% in March, the highest level in a decade.'
+    );
+    expect(article.paragraphs.map(p => p.tag)).toEqual(['h1', 'p', 'p']);
+    expect(article.truncated).toBe(false);
+  });
+
+  it('decodes entities and keeps stray < characters as text', () => {
+    const article = extractArticle(page('<p>Fish &amp; chips &lt; 5 < 6 cost<br>3&nbsp;euros &#8212; in 2020 at the market.</p>'));
+
+    expect(article.text).toBe('Fish & chips < 5 < 6 cost 3 euros — in 2020 at the market.');
+  });
+
+  it('drops short and link-heavy blocks', () => {
+    const article = extractArticle(page(`
+      <p>Read more</p>
+      <p><a href="/a">A very long link text that makes up most of this block</a> here.</p>
+      <p>This paragraph is long enough to be part of the article text.</p>
+    `));
+
+    expect(article.text).toBe('This paragraph is long enough to be part of the article text.');
+  });
+
+  it('cuts the text at maxLength, keeping whole paragraphs after the first', () => {
+    const html = page('<p>The first paragraph has some words in it.</p><p>The second paragraph has more words in it.</p>');
+
+    const fits = extractArticle(html, 60);
+    expect(fits.text).toBe('The first paragraph has some words in it.');
+    expect(fits.truncated).toBe(true);
+
+    const cut = extractArticle(html, 10);
+    expect(cut.text).toBe('The first ');
+    expect(cut.origins).toHaveLength(10);
+  });
+
+  it('stays linear on text full of characters the tokenizer stops at', () => {
+    const html = page(`<p>${'a < '.repeat(40000)}</p>`);
+
+    const startedAt = Date.now();
+    const article = extractArticle(html);
+    const elapsed = Date.now() - startedAt;
+
+    expect(article.text).toHaveLength('a < '.repeat(40000).length - 1);
+    expect(elapsed).toBeLessThan(2000);
+  });
+});
+
+describe('mapToTextNodes', () => {
+  it('maps a range of the text back onto the page text nodes', () => {
+    const html = page('<script>var x = 1;</script><p>The company sold <b>5&nbsp;million</b> phones last year.</p>');
+    const article = extractArticle(html);
+
+    const start = article.text.indexOf('sold');
+    const ranges = mapToTextNodes(article, start, start + 'sold 5 million phones'.length);
+
+    expect(ranges.map(({ node, text }) => ({ node, text }))).toEqual([
+      { node: 0, text: 'sold ' },
+      { node: 1, text: '5 million' },
+      { node: 2, text: ' phones' },
+    ]);
+    expect(html.slice(ranges[1].htmlStart, ranges[1].htmlEnd)).toBe('5&nbsp;million');
+  });
+});
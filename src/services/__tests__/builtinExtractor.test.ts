@@ -0,0 +1,69 @@
+import { splitSentences, findEntities, extractClaimsBuiltin } from '../builtinExtractor';
+
+describe('splitSentences', () => {
+  it('does not split after abbreviations and initials', () => {
+    const text = 'Dr. Jane Smith moved to the U.S. in 1990. She works for J. R. Tolkien Ltd. today. Prices rose 5% vs. last year.';
+
+    expect(splitSentences(text).map(s => s.text)).toEqual([
+      'Dr. Jane Smith moved to the U.S. in 1990.',
+      'She works for J. R. Tolkien Ltd. today.',
+      'Prices rose 5% vs. last year.',
+    ]);
+  });
+
+  it('keeps offsets into the original text', () => {
+    const text = '  The bridge opened in 1932!\nIt is 1,149 metres long.  ';
+
+    for (const sentence of splitSentences(text)) {
+      expect(text.slice(sentence.start, sentence.end)).toBe(sentence.text);
+    }
+    expect(splitSentences(text).map(s => s.start)).toEqual([2, 29]);
+  });
+});
+
+describe('findEntities', () => {
+  it('labels numbers, dates and proper nouns', () => {
+    expect(findEntities('The World Health Organization said 40% of adults in March 2021 spent $5 million.')).toEqual([
+      { text: 'World Health Organization', label: 'ORG' },
+      { text: '40%', label: 'PERCENT' },
+      { text: 'March 2021', label: 'DATE' },
+      { text: '$5 million', label: 'MONEY' },
+    ]);
+  });
+});
+
+describe('extractClaimsBuiltin', () => {
+  const text = [
+    'The Eiffel Tower is 330 metres tall.',
+    'I think it is a beautiful sight.',
+    'Is it the tallest structure in Paris?',
+    '"We welcomed more visitors than ever," said Anne Hidalgo.',
+    'The tower is taller than the Chrysler Building in New York.',
+  ].join(' ');
+
+  it('returns check-worthy sentences with offsets into the text', () => {
+    const claims = extractClaimsBuiltin(text);
+
+    expect(claims.map(c => c.text)).toEqual([
+      'The Eiffel Tower is 330 metres tall.',
+      '"We welcomed more visitors than ever," said Anne Hidalgo.',
+      'The tower is taller than the Chrysler Building in New York.',
+    ]);
+    for (const claim of claims) {
+      expect(text.slice(claim.char_start, claim.char_end)).toBe(claim.text);
+    }
+    expect(claims.map(c => c.sentence_index)).toEqual([0, 3, 4]);
+  });
+
+  it('assigns a claim type from the sentence', () => {
+    expect(extractClaimsBuiltin(text).map(c => c.claim_type)).toEqual(['statistic', 'quote', 'factual']);
+    expect(extractClaimsBuiltin('Tesla sold more cars than Ford in Europe last year.')[0].claim_type).toBe('comparison');
+  });
+
+  it('keeps the most check-worthy claims, in document order', () => {
+    const claims = extractClaimsBuiltin(text, 2);
+
+    expect(claims).toHaveLength(2);
+    expect(claims[0].char_start).toBeLessThan(claims[1].char_start);
+  });
+});
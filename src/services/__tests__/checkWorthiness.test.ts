@@ -0,0 +1,85 @@
+import { classifyHeuristically, classifyClaims } from '../checkWorthiness';
+import { analyzeClaimWithLLM } from '../llmService';
+import { Claim } from '../../types';
+
+jest.mock('../llmService', () => ({
+  ...jest.requireActual('../llmService'),
+  analyzeClaimWithLLM: jest.fn(),
+}));
+
+const analyze = analyzeClaimWithLLM as jest.MockedFunction<typeof analyzeClaimWithLLM>;
+
+describe('classifyHeuristically', () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-10-19T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const typeOf = (text: string) => classifyHeuristically(text).claimType;
+
+  it('sorts questions, commands, predictions and opinions from facts', () => {
+    expect(typeOf('Is the tower really 330 metres tall?')).toBe('question');
+    expect(typeOf('Click here to subscribe to our newsletter.')).toBe('command');
+    expect(typeOf('Sales are expected to double next year.')).toBe('prediction');
+    expect(typeOf('The new bridge opens in 2031.')).toBe('prediction');
+    expect(typeOf('I think the new design is beautiful.')).toBe('opinion');
+    expect(typeOf('The tower is 330 metres tall.')).toBe('factual');
+  });
+
+  it('does not take names for modals or instructions', () => {
+    expect(typeOf('Will Smith won an Oscar in 2022.')).toBe('factual');
+    expect(typeOf('Always Sunny has run for 16 seasons.')).toBe('factual');
+    expect(typeOf('Always check the label before buying.')).toBe('command');
+  });
+
+  it('looks past a short label before a colon', () => {
+    expect(typeOf('Learn more: the tower is 330 metres tall.')).toBe('factual');
+    expect(typeOf('Remember: never leave a candle burning.')).toBe('command');
+  });
+
+  it('treats a forecast about a past year as checkable', () => {
+    expect(typeOf('The Fed said inflation will hit 2% in 2019.')).toBe('factual');
+    expect(typeOf('The Fed said inflation will hit 2% in 2027.')).toBe('prediction');
+    expect(classifyHeuristically('Inflation will hit 2% by 2028.').reason).toBe('About the future ("will")');
+  });
+});
+
+describe('classifyClaims', () => {
+  const env = { ...process.env };
+  const claims: Claim[] = ['one', 'two', 'three'].map(id => ({ id, text: `Claim ${id} is 5 metres long.` }));
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    process.env.OPENAI_API_KEY = 'sk-test-key';
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    analyze.mockReset();
+    process.env = { ...env };
+  });
+
+  it('bills only the LLM calls that were made before the deadline', async () => {
+    analyze
+      .mockResolvedValueOnce({ analysis: { isVerifiableClaim: true, claimType: 'factual', confidence: 0.9, reasoning: 'A fact' }, requested: true })
+      .mockResolvedValueOnce({ analysis: null, requested: true })
+      .mockResolvedValueOnce({ analysis: null, requested: false });
+
+    const { classifications, llmCalls } = await classifyClaims(claims, 'llm');
+
+    expect(llmCalls).toBe(2);
+    expect(classifications.map(c => c.method)).toEqual(['llm', 'heuristic', 'heuristic']);
+  });
+
+  it('makes no LLM calls without an OpenAI key', async () => {
+    delete process.env.OPENAI_API_KEY;
+
+    const { llmCalls } = await classifyClaims(claims, 'llm');
+
+    expect(llmCalls).toBe(0);
+    expect(analyze).not.toHaveBeenCalled();
+  });
+});
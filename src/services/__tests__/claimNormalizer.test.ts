@@ -0,0 +1,73 @@
+import { rollUpVerdicts } from '../claimNormalizer';
+import { AtomicClaim, Claim, SubClaimVerdict, Verification } from '../../types';
+
+const parent: Claim = { id: 'p', text: 'Sales rose 40% and profits fell 5%.' };
+
+function part(i: number, verification: Partial<Verification>): SubClaimVerdict {
+  const claim: AtomicClaim = { id: `p-${i}`, text: `part ${i}`, parentId: 'p', span: { start: 0, end: 1 } };
+  return {
+    claim,
+    verification: {
+      claimId: claim.id,
+      rating: 'verified',
+      confidence: 0.8,
+      summary: `summary ${i}`,
+      evidence: [],
+      checkedAt: `2024-01-0${i}T00:00:00.000Z`,
+      ...verification,
+    },
+  };
+}
+
+describe('rollUpVerdicts', () => {
+  it('rates true and false parts as mixed', () => {
+    const result = rollUpVerdicts(parent, [part(1, { rating: 'verified' }), part(2, { rating: 'false', confidence: 0.6 })]);
+
+    expect(result.rating).toBe('mixed');
+    expect(result.confidence).toBe(0.6);
+    expect(result.checkedAt).toBe('2024-01-02T00:00:00.000Z');
+    expect(result.summary).toBe('Checked as 2 separate claims: "part 1" is verified; "part 2" is false.');
+  });
+
+  it('merges evidence, source verdicts and conflicts from the parts', () => {
+    const result = rollUpVerdicts(parent, [
+      part(1, {
+        evidence: [{ id: 'google-1', url: 'https://a', sourceName: 'A' }, { id: 'wikipedia-1', url: 'https://w', sourceName: 'W' }],
+        sourceVerdicts: [
+          { source: 'google', status: 'ok', rating: 'verified', confidence: 0.9, latencyMs: 100, evidenceIds: ['google-1'] },
+          { source: 'wikipedia', status: 'ok', rating: 'verified', confidence: 0.5, latencyMs: 50, evidenceIds: ['wikipedia-1'] },
+        ],
+        conflicts: [{ sources: ['google', 'llm'], ratings: ['verified', 'false'], severity: 'major', description: 'one' }],
+      }),
+      part(2, {
+        rating: 'mostly_true',
+        evidence: [{ id: 'google-1', url: 'https://b', sourceName: 'B' }, { id: 'wikipedia-1', url: 'https://w', sourceName: 'W' }],
+        sourceVerdicts: [
+          { source: 'google', status: 'ok', rating: 'mostly_true', confidence: 0.7, latencyMs: 300, evidenceIds: ['google-1'] },
+          { source: 'wikipedia', status: 'no_result', latencyMs: 40, evidenceIds: [] },
+          { source: 'llm', status: 'skipped', latencyMs: 0, evidenceIds: [], reason: 'not needed' },
+        ],
+      }),
+    ]);
+
+    expect(result.evidence).toEqual([
+      { id: 'google-1', url: 'https://a', sourceName: 'A' },
+      { id: 'wikipedia-1', url: 'https://w', sourceName: 'W' },
+      { id: 'google-2', url: 'https://b', sourceName: 'B' },
+    ]);
+    expect(result.sourceVerdicts).toEqual([
+      { source: 'google', status: 'ok', rating: 'mostly_true', confidence: 0.7, latencyMs: 300, evidenceIds: ['google-1', 'google-2'] },
+      { source: 'wikipedia', status: 'ok', rating: 'verified', confidence: 0.5, latencyMs: 50, evidenceIds: ['wikipedia-1'] },
+      { source: 'llm', status: 'skipped', latencyMs: 0, evidenceIds: [], reason: 'not needed' },
+    ]);
+    expect(result.conflicts?.map(c => c.description)).toEqual(['one']);
+    expect(result.subClaims).toHaveLength(2);
+  });
+
+  it('keeps a match only for a single rewritten part', () => {
+    const match = { score: 0.95, claimText: 'Sales rose 40%' };
+
+    expect(rollUpVerdicts(parent, [part(1, { match })]).match).toEqual(match);
+    expect(rollUpVerdicts(parent, [part(1, { match }), part(2, { match })]).match).toBeUndefined();
+  });
+});
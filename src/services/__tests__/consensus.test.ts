@@ -0,0 +1,73 @@
+import { computeConsensus, WeightedVerdict } from '../consensus';
+
+const verdict = (source: string, rating: WeightedVerdict['rating'], confidence = 0.8, reliability = 1): WeightedVerdict =>
+  ({ source, rating, confidence, reliability });
+
+describe('computeConsensus', () => {
+  it('is unverified with no votes', () => {
+    const result = computeConsensus([verdict('google', 'unverified', 0.3), verdict('wikipedia', 'unverified', 0.2)]);
+
+    expect(result.rating).toBe('unverified');
+    expect(result.confidence).toBe(0.3);
+    expect(result.primarySource).toBe('google');
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('keeps the rating and confidence when sources agree', () => {
+    const result = computeConsensus([verdict('google', 'false'), verdict('pubmed', 'false')]);
+
+    expect(result.rating).toBe('false');
+    expect(result.agreement).toBe(1);
+    expect(result.confidence).toBeCloseTo(0.8);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('weights ratings by reliability', () => {
+    const result = computeConsensus([
+      verdict('google', 'false', 0.9, 0.95),
+      verdict('llm', 'verified', 0.9, 0.1),
+    ]);
+
+    expect(result.rating).toBe('false');
+    expect(result.primarySource).toBe('google');
+  });
+
+  it('ignores unverified verdicts when voting', () => {
+    const result = computeConsensus([verdict('google', 'unverified', 0.9), verdict('wikipedia', 'mostly_true', 0.6)]);
+
+    expect(result.rating).toBe('mostly_true');
+    expect(result.primarySource).toBe('wikipedia');
+  });
+
+  it('reports disagreement as conflicts and lowers confidence', () => {
+    const result = computeConsensus([verdict('google', 'false'), verdict('pubmed', 'verified')]);
+
+    expect(result.agreement).toBeLessThan(0.5);
+    expect(result.confidence).toBeLessThan(0.8);
+    expect(result.conflicts).toEqual([{
+      sources: ['google', 'pubmed'],
+      ratings: ['false', 'verified'],
+      severity: 'major',
+      description: "google rated this claim 'false' but pubmed rated it 'verified'",
+    }]);
+  });
+
+  it('grades conflicts by the gap between ratings', () => {
+    const moderate = computeConsensus([verdict('google', 'mostly_false'), verdict('pubmed', 'mostly_true')]);
+    const none = computeConsensus([verdict('google', 'mostly_true'), verdict('pubmed', 'verified')]);
+
+    expect(moderate.conflicts.map(c => c.severity)).toEqual(['moderate']);
+    expect(none.conflicts).toEqual([]);
+  });
+
+  it('lets a categorical rating outvote the truth scale', () => {
+    const result = computeConsensus([
+      verdict('google', 'opinion', 0.9),
+      verdict('wikipedia', 'opinion', 0.9),
+      verdict('llm', 'verified', 0.5, 0.5),
+    ]);
+
+    expect(result.rating).toBe('opinion');
+    expect(result.conflicts.every(c => c.severity === 'major')).toBe(true);
+  });
+});
@@ -0,0 +1,137 @@
+import { Claim, Verification, VerificationJob } from '../../types';
+import { verifyClaims } from '../verificationService';
+import { getProfile } from '../profiles';
+
+jest.mock('../verificationService', () => ({ verifyClaims: jest.fn() }));
+
+// Loaded in beforeAll so JOB_CHUNK_SIZE is read after it's set
+let jobs: typeof import('../jobService');
+
+const mockVerifyClaims = verifyClaims as jest.MockedFunction<typeof verifyClaims>;
+
+// Batches handed to verifyClaims that haven't finished yet
+let pending: Array<{ claims: Claim[]; finish: () => void }> = [];
+let running = 0;
+let maxRunning = 0;
+
+const claims = (n: number): Claim[] => Array.from({ length: n }, (_, i) => ({ id: `c${i}`, text: `Claim ${i}` }));
+
+const verification = (claim: Claim): Verification => ({
+  claimId: claim.id,
+  rating: 'verified',
+  confidence: 0.9,
+  summary: 'ok',
+  evidence: [],
+  checkedAt: new Date().toISOString(),
+});
+
+// Let queued promise callbacks (store reads and writes) run
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+async function waitForStatus(id: string, status: VerificationJob['status']): Promise<VerificationJob> {
+  for (let i = 0; i < 50; i++) {
+    const job = await jobs.getJob(id);
+    if (job?.status === status) return job;
+    await settle();
+  }
+  throw new Error(`Job ${id} never reached ${status}`);
+}
+
+beforeAll(() => {
+  process.env.JOB_CHUNK_SIZE = '2';
+  jobs = require('../jobService');
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  pending = [];
+  running = 0;
+  maxRunning = 0;
+
+  mockVerifyClaims.mockImplementation((batch, options) => {
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    return new Promise(resolve => {
+      const finish = () => {
+        running--;
+        batch.forEach((claim, i) => options?.onResult?.(i, { verification: verification(claim), cached: false }));
+        resolve({ verifications: batch.map(verification), cachedCount: 0, partialCount: 0, sourceCalls: {} });
+      };
+      pending.push({ claims: batch, finish });
+      options?.signal?.addEventListener('abort', finish, { once: true });
+    });
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('job queue', () => {
+  it('runs no more jobs at once than JOB_CONCURRENCY, even when submitted together', async () => {
+    const profile = getProfile()!;
+    const submitted = await Promise.all([1, 2, 3].map(() => jobs.createJob(claims(1), profile)));
+    await settle();
+
+    expect(pending).toHaveLength(1);
+    expect(jobs.getJobStats()).toMatchObject({ queued: 2, running: 1 });
+
+    for (const job of submitted) {
+      await settle();
+      pending.shift()!.finish();
+      await waitForStatus(job.id, 'completed');
+    }
+
+    expect(maxRunning).toBe(1);
+    expect(jobs.getJobStats()).toMatchObject({ queued: 0, running: 0 });
+  });
+
+  it('verifies claims in chunks, keeping progress between them', async () => {
+    const job = await jobs.createJob(claims(3), getProfile()!);
+    await settle();
+
+    expect(pending[0].claims.map(c => c.id)).toEqual(['c0', 'c1']);
+    pending.shift()!.finish();
+    await settle();
+
+    const midway = await jobs.getJob(job.id);
+    expect(midway).toMatchObject({ status: 'running', progress: { completed: 2, total: 3 } });
+    expect(pending[0].claims.map(c => c.id)).toEqual(['c2']);
+
+    pending.shift()!.finish();
+    const done = await waitForStatus(job.id, 'completed');
+    expect(done.verifications.map(v => v.claimId)).toEqual(['c0', 'c1', 'c2']);
+    expect(done.finishedAt).toBeDefined();
+  });
+
+  it('cancels a running job and moves on to the next', async () => {
+    const profile = getProfile()!;
+    const first = await jobs.createJob(claims(1), profile);
+    const second = await jobs.createJob(claims(1), profile);
+    await settle();
+
+    const cancelled = await jobs.cancelJob(first.id);
+    expect(cancelled?.status).toBe('cancelled');
+    expect(await jobs.getJob(first.id)).toBeUndefined();
+
+    await settle();
+    pending.pop()!.finish();
+    await waitForStatus(second.id, 'completed');
+  });
+
+  it('refuses to deliver callbacks to private addresses', async () => {
+    const job = await jobs.createJob(claims(1), getProfile()!, { callbackUrl: 'http://127.0.0.1:8080/hook' });
+    await settle();
+    pending.shift()!.finish();
+    await waitForStatus(job.id, 'completed');
+
+    let callback: VerificationJob['callback'];
+    for (let i = 0; i < 50 && callback?.status !== 'failed'; i++) {
+      await settle();
+      callback = (await jobs.getJob(job.id))?.callback;
+    }
+    expect(callback).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(callback?.lastError).toMatch(/not a public address/);
+  });
+});
@@ -0,0 +1,73 @@
+import { planQueries, recordQueryOutcome, getQueryPlannerStats } from '../queryPlanner';
+import { Claim } from '../../types';
+
+const claim: Claim = {
+  id: 'c1',
+  text: 'Drinking coffee lowers the risk of heart disease, a Harvard University study of 2019 found.',
+  entities: [
+    { text: 'Harvard University', label: 'ORG' },
+    { text: '2019', label: 'DATE' },
+    { text: 'World Health Organization', label: 'ORG' },
+    { text: 'Boston', label: 'GPE' },
+  ],
+  keywords: ['coffee', 'heart disease', 'risk', '2019', 'harvard', 'study'],
+};
+
+describe('planQueries', () => {
+  it('searches Wikipedia for up to two entity names', () => {
+    expect(planQueries(claim, 'wikipedia', 'Drinking coffee lowers the risk')).toEqual([
+      { query: 'Harvard University', strategy: 'entities' },
+      { query: 'World Health Organization', strategy: 'entities' },
+      { query: 'Drinking coffee lowers the risk', strategy: 'fallback' },
+    ]);
+  });
+
+  it('searches PubMed for keywords joined with AND, quoting phrases', () => {
+    expect(planQueries(claim, 'pubmed', 'coffee heart')[0]).toEqual({
+      query: 'coffee AND "heart disease" AND risk AND study',
+      strategy: 'keywords',
+    });
+  });
+
+  it('makes up missing PubMed keywords with names, and needs at least two terms', () => {
+    const fewKeywords = { ...claim, keywords: ['coffee'] };
+    expect(planQueries(fewKeywords, 'pubmed', 'coffee')[0].query).toBe('coffee AND "Harvard University" AND "World Health Organization" AND Boston');
+
+    const bare: Claim = { id: 'c2', text: 'Coffee is popular.', keywords: ['coffee'] };
+    expect(planQueries(bare, 'pubmed', 'Coffee is popular')).toEqual([{ query: 'Coffee is popular', strategy: 'fallback' }]);
+  });
+
+  it('searches Google Fact Check for names and keywords as phrases', () => {
+    expect(planQueries(claim, 'google', claim.text)[0]).toEqual({
+      query: '"Harvard University" "World Health Organization" Boston coffee "heart disease" risk study',
+      strategy: 'phrases',
+    });
+  });
+
+  it('falls back to the claim text without NLP data', () => {
+    const bare: Claim = { id: 'c2', text: 'Coffee is good for you.' };
+
+    for (const source of ['wikipedia', 'pubmed', 'google'] as const) {
+      expect(planQueries(bare, source, bare.text)).toEqual([{ query: bare.text, strategy: 'fallback' }]);
+    }
+  });
+
+  it('drops a planned query that repeats the fallback', () => {
+    const single: Claim = { id: 'c3', text: 'Boston is in Massachusetts.', entities: [{ text: 'Boston', label: 'GPE' }] };
+
+    expect(planQueries(single, 'wikipedia', 'boston')).toEqual([{ query: 'boston', strategy: 'fallback' }]);
+  });
+});
+
+describe('getQueryPlannerStats', () => {
+  it('reports hit rates per source and strategy', () => {
+    recordQueryOutcome('wikipedia', 'entities', 3);
+    recordQueryOutcome('wikipedia', 'entities', 0);
+    recordQueryOutcome('wikipedia', 'fallback', 1);
+
+    expect(getQueryPlannerStats().wikipedia).toEqual({
+      entities: { queries: 2, hits: 1, hitRate: 0.5 },
+      fallback: { queries: 1, hits: 1, hitRate: 1 },
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { consumeRequest, peekRequests, checkQuota, recordUsage, getUsage, getClientLimits, getQuotaResetTime } from '../quotas';
+
+const limits = { requestsPerMinute: 60, dailyClaims: 10, dailyLlmCalls: 5 };
+
+describe('request windows', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('allows up to the limit per minute', () => {
+    expect(consumeRequest('window-a', 2)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(consumeRequest('window-a', 2)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(consumeRequest('window-a', 2)).toMatchObject({ allowed: false, remaining: 0, resetSeconds: 60 });
+    expect(consumeRequest('window-b', 2)).toMatchObject({ allowed: true });
+  });
+
+  it('starts a new window after a minute', () => {
+    consumeRequest('window-c', 1);
+    expect(consumeRequest('window-c', 1).allowed).toBe(false);
+
+    jest.advanceTimersByTime(60_000);
+
+    expect(peekRequests('window-c', 1)).toMatchObject({ remaining: 1 });
+    expect(consumeRequest('window-c', 1).allowed).toBe(true);
+  });
+
+  it('never refuses with a limit of 0', () => {
+    for (let i = 0; i < 100; i++) consumeRequest('window-d', 0);
+    expect(consumeRequest('window-d', 0).allowed).toBe(true);
+  });
+});
+
+describe('daily quotas', () => {
+  it('adds recorded usage up', async () => {
+    await recordUsage('usage-a', { claims: 3 });
+    await recordUsage('usage-a', { claims: 2, llmCalls: 1 });
+
+    expect(await getUsage('usage-a')).toEqual({ claims: 5, llmCalls: 1 });
+    expect(await getUsage('usage-b')).toEqual({ claims: 0, llmCalls: 0 });
+  });
+
+  it('refuses claims that would go over the daily claim quota', async () => {
+    await recordUsage('claims-a', { claims: 8 });
+
+    expect((await checkQuota('claims-a', limits, 2)).exceeded).toBeNull();
+    expect(await checkQuota('claims-a', limits, 3)).toMatchObject({ exceeded: 'claims', usage: { claims: 8 } });
+  });
+
+  it('refuses LLM calls a request needs that would go over the LLM quota', async () => {
+    await recordUsage('llm-a', { llmCalls: 3 });
+
+    expect((await checkQuota('llm-a', limits, 0, 2)).exceeded).toBeNull();
+    expect((await checkQuota('llm-a', limits, 0, 3)).exceeded).toBe('llmCalls');
+  });
+
+  it('flags a used-up LLM quota without refusing requests that need no LLM calls', async () => {
+    await recordUsage('llm-b', { llmCalls: 4 });
+    expect(await checkQuota('llm-b', limits, 1)).toMatchObject({ exceeded: null, llmExhausted: false });
+
+    await recordUsage('llm-b', { llmCalls: 1 });
+    expect(await checkQuota('llm-b', limits, 1)).toMatchObject({ exceeded: null, llmExhausted: true });
+    expect((await checkQuota('llm-b', limits, 0, 1)).exceeded).toBe('llmCalls');
+  });
+
+  it('ignores quotas set to 0', async () => {
+    await recordUsage('unlimited', { claims: 1000, llmCalls: 1000 });
+
+    const result = await checkQuota('unlimited', { requestsPerMinute: 0, dailyClaims: 0, dailyLlmCalls: 0 }, 50, 50);
+    expect(result.exceeded).toBeNull();
+  });
+
+  it('resets at the next UTC midnight', () => {
+    const reset = getQuotaResetTime();
+    expect(reset.getTime()).toBeGreaterThan(Date.now());
+    expect(reset.getTime() - Date.now()).toBeLessThanOrEqual(24 * 3600 * 1000);
+    expect(reset.toISOString()).toMatch(/T00:00:00\.000Z$/);
+  });
+});
+
+describe('getClientLimits', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('reads defaults from the environment and applies per-key overrides', () => {
+    process.env.CLIENT_RATE_LIMIT = '10';
+    process.env.CLIENT_DAILY_CLAIMS = '0';
+    delete process.env.CLIENT_DAILY_LLM_CALLS;
+
+    expect(getClientLimits()).toEqual({ requestsPerMinute: 10, dailyClaims: 0, dailyLlmCalls: 200 });
+    expect(getClientLimits({ dailyLlmCalls: 5 })).toEqual({ requestsPerMinute: 10, dailyClaims: 0, dailyLlmCalls: 5 });
+  });
+});
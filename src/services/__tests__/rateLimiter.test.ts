@@ -0,0 +1,79 @@
+import { TokenBucket } from '../rateLimiter';
+
+describe('TokenBucket', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('hands out the first token straight away', async () => {
+    const bucket = new TokenBucket(2);
+
+    await expect(bucket.acquire()).resolves.toBeUndefined();
+    expect(bucket.pending).toBe(0);
+  });
+
+  it('spaces tokens out at the configured rate, in FIFO order', async () => {
+    const bucket = new TokenBucket(2);
+    const order: number[] = [];
+
+    await bucket.acquire();
+    const waits = [1, 2, 3].map(n => bucket.acquire().then(() => order.push(n)));
+    expect(bucket.pending).toBe(3);
+
+    await jest.advanceTimersByTimeAsync(499);
+    expect(order).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(order).toEqual([1]);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await Promise.all(waits);
+    expect(order).toEqual([1, 2, 3]);
+    expect(bucket.pending).toBe(0);
+  });
+
+  it('refills up to its capacity while idle', async () => {
+    const bucket = new TokenBucket(10, 3);
+    await Promise.all([bucket.acquire(), bucket.acquire(), bucket.acquire()]);
+
+    jest.advanceTimersByTime(10_000);
+
+    const granted: number[] = [];
+    [1, 2, 3, 4].forEach(n => bucket.acquire().then(() => granted.push(n)));
+    await Promise.resolve();
+    expect(granted).toEqual([1, 2, 3]);
+    expect(bucket.pending).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(granted).toEqual([1, 2, 3, 4]);
+  });
+
+  it('rejects at once when the signal has already aborted', async () => {
+    const bucket = new TokenBucket(1);
+    const controller = new AbortController();
+    controller.abort(new Error('deadline'));
+
+    await expect(bucket.acquire(controller.signal)).rejects.toThrow('deadline');
+  });
+
+  it('gives up its place in the queue when the signal aborts', async () => {
+    const bucket = new TokenBucket(1);
+    const controller = new AbortController();
+    await bucket.acquire();
+
+    const abandoned = bucket.acquire(controller.signal);
+    const next = bucket.acquire();
+    expect(bucket.pending).toBe(2);
+
+    controller.abort(new Error('deadline'));
+    await expect(abandoned).rejects.toThrow('deadline');
+    expect(bucket.pending).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await expect(next).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,49 @@
+import { SimilarityIndex, tokenizeClaim } from '../similarityIndex';
+
+describe('SimilarityIndex', () => {
+  let index: SimilarityIndex;
+
+  beforeEach(() => {
+    index = new SimilarityIndex();
+    index.add('tower', 'The Eiffel Tower is 330 metres tall.');
+  });
+
+  it('returns the matching claim text and its score', () => {
+    const match = index.findBest('The Eiffel Tower stands 330m tall', 0.5);
+
+    expect(match).toMatchObject({ key: 'tower', claimText: 'The Eiffel Tower is 330 metres tall.' });
+    expect(match!.score).toBeCloseTo(5 / 6);
+  });
+
+  it('never matches a claim with different numbers', () => {
+    expect(index.findBest('The Eiffel Tower is 300 metres tall.', 0)).toBeNull();
+  });
+
+  it('never matches a negated claim with its positive form', () => {
+    expect(index.findBest('The Eiffel Tower is not 330 metres tall.', 0)).toBeNull();
+    expect(index.findBest("The Eiffel Tower isn't 330 metres tall.", 0)).toBeNull();
+  });
+
+  it('only returns matches at or above the threshold', () => {
+    const text = 'The Eiffel Tower stands 330m tall';
+
+    expect(index.findBest(text, 5 / 6)).not.toBeNull();
+    expect(index.findBest(text, 0.85)).toBeNull();
+  });
+
+  it('picks the closest of several candidates and forgets removed claims', () => {
+    index.add('paris', 'The Eiffel Tower in Paris is 330 metres tall.');
+
+    expect(index.findBest('The Eiffel Tower in Paris is 330 metres high', 0.5)?.key).toBe('paris');
+
+    index.remove('paris');
+    expect(index.size).toBe(1);
+    expect(index.findBest('The Eiffel Tower in Paris is 330 metres high', 0.5)?.key).toBe('tower');
+  });
+});
+
+describe('tokenizeClaim', () => {
+  it('drops stop words and negations, stems words and collapses units', () => {
+    expect(tokenizeClaim("The towers aren't 1,500 feet tall")).toEqual(new Set(['tower', '1500', 'ft', 'tall']));
+  });
+});
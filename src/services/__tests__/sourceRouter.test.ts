@@ -0,0 +1,53 @@
+import { routeClaim } from '../sourceRouter';
+import { registerSource, unregisterSource, VerificationSource } from '../sourceRegistry';
+import { Claim } from '../../types';
+
+function source(name: string, priority: number, fallback = false): VerificationSource {
+  return { name, priority, fallback, reliability: 0.5, requiredConfig: [], canHandle: () => true, verify: async () => null };
+}
+
+const claim = (text: string, claimType?: string): Claim => ({ id: 'c1', text, ...(claimType && { claimType }) });
+const sourcesOf = (c: Claim) => routeClaim(c).sources.map(s => s.source);
+
+describe('routeClaim', () => {
+  it('routes health and research claims to PubMed', () => {
+    expect(routeClaim(claim('Coffee lowers the risk of heart disease.'))).toMatchObject({
+      route: 'health',
+      topics: ['health'],
+      sources: [{ source: 'google' }, { source: 'pubmed' }, { source: 'wikipedia' }, { source: 'llm' }],
+    });
+    expect(routeClaim(claim('A university survey of 2,000 drivers found that most speed.')).route).toBe('research');
+  });
+
+  it('keeps statistics without a health or research topic away from PubMed', () => {
+    const routing = routeClaim(claim('Unemployment fell to 4.1% in March.', 'Statistic'));
+
+    expect(routing).toMatchObject({ route: 'statistic', claimType: 'statistic', topics: [] });
+    expect(routing.sources).toEqual([{ source: 'google' }, { source: 'wikipedia', reliability: 0.35 }, { source: 'llm' }]);
+  });
+
+  it('matches topics before claim types, in route order', () => {
+    expect(routeClaim(claim('Smoking causes 8 million deaths a year.', 'statistic')).route).toBe('health');
+    expect(routeClaim(claim('"We will win," she said.', 'quote')).route).toBe('quote');
+    expect(routeClaim(claim('Paris is the capital of France.')).route).toBe('default');
+  });
+});
+
+describe('sources no route lists', () => {
+  beforeAll(() => {
+    registerSource(source('google', 10));
+    registerSource(source('wikipedia', 30));
+    registerSource(source('llm', 100, true));
+    registerSource(source('internal', 20));
+    registerSource(source('backup-llm', 90, true));
+  });
+
+  afterAll(() => {
+    ['google', 'wikipedia', 'llm', 'internal', 'backup-llm'].forEach(unregisterSource);
+  });
+
+  it('run before the route fallback sources, and fallback ones after them', () => {
+    expect(sourcesOf(claim('Paris is the capital of France.'))).toEqual(['google', 'wikipedia', 'internal', 'llm', 'backup-llm']);
+    expect(sourcesOf(claim('Coffee lowers the risk of heart disease.'))).toEqual(['google', 'pubmed', 'wikipedia', 'internal', 'llm', 'backup-llm']);
+  });
+});
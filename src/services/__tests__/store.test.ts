@@ -0,0 +1,137 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MemoryStore, FileStore, createStore } from '../store';
+
+describe('MemoryStore', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('stores, lists and deletes entries', async () => {
+    const store = new MemoryStore<number>();
+    await store.set('a', 1);
+    await store.set('b', 2);
+
+    expect(await store.get('a')).toBe(1);
+    expect(await store.entries()).toEqual([['a', 1], ['b', 2]]);
+    expect(await store.delete('a')).toBe(true);
+    expect(await store.delete('a')).toBe(false);
+    expect(await store.size()).toBe(1);
+
+    await store.clear();
+    expect(await store.get('b')).toBeUndefined();
+  });
+
+  it('expires entries after their TTL', async () => {
+    const store = new MemoryStore<string>();
+    await store.set('short', 'x', 10);
+    await store.set('forever', 'y');
+
+    expect(await store.ttl('short')).toBe(10);
+    expect(await store.ttl('forever')).toBe(0);
+    expect(await store.ttl('missing')).toBeUndefined();
+
+    jest.advanceTimersByTime(10_000);
+
+    expect(await store.get('short')).toBeUndefined();
+    expect(await store.entries()).toEqual([['forever', 'y']]);
+  });
+});
+
+describe('FileStore', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'store-test-'));
+    file = path.join(dir, 'test.jsonl');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replays sets, deletes and clears on startup', async () => {
+    const store = new FileStore<{ n: number }>(file);
+    await store.set('a', { n: 1 });
+    await store.set('b', { n: 2 });
+    await store.clear();
+    await store.set('c', { n: 3 });
+    await store.set('d', { n: 4 });
+    await store.delete('c');
+
+    const reloaded = new FileStore<{ n: number }>(file);
+    expect(await reloaded.entries()).toEqual([['d', { n: 4 }]]);
+  });
+
+  it('drops entries that expired while it was down', async () => {
+    const store = new FileStore<string>(file);
+    await store.set('stale', 'x', 1);
+    await store.set('live', 'y', 3600);
+
+    const later = Date.now() + 2000;
+    jest.spyOn(Date, 'now').mockReturnValue(later);
+
+    const reloaded = new FileStore<string>(file);
+    expect(await reloaded.entries()).toEqual([['live', 'y']]);
+  });
+
+  it('skips a truncated last line', async () => {
+    const store = new FileStore<string>(file);
+    await store.set('a', 'x');
+    fs.appendFileSync(file, '{"op":"set","key":"b","val');
+
+    const reloaded = new FileStore<string>(file);
+    expect(await reloaded.entries()).toEqual([['a', 'x']]);
+  });
+
+  it('compacts the log once most of it is stale', async () => {
+    const store = new FileStore<number>(file);
+    for (let i = 0; i < 1100; i++) {
+      await store.set('counter', i);
+    }
+
+    const lines = fs.readFileSync(file, 'utf8').split('\n').filter(Boolean);
+    expect(lines.length).toBeLessThan(200);
+
+    const reloaded = new FileStore<number>(file);
+    expect(await reloaded.get('counter')).toBe(1099);
+  });
+});
+
+describe('createStore', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+    jest.restoreAllMocks();
+  });
+
+  it('uses memory unless STORE_BACKEND is file', () => {
+    delete process.env.STORE_BACKEND;
+    expect(createStore('x').backend).toBe('memory');
+  });
+
+  it('puts file stores under STORE_PATH, one log per namespace', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'store-test-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    process.env.STORE_BACKEND = 'file';
+    process.env.STORE_PATH = dir;
+
+    try {
+      const store = createStore<string>('verifications');
+      await store.set('k', 'v');
+      expect(store.backend).toBe('file');
+      expect(fs.existsSync(path.join(dir, 'verifications.jsonl'))).toBe(true);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
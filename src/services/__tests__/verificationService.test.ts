@@ -0,0 +1,104 @@
+import { Claim, Verification } from '../../types';
+import { VerificationSource, registerSource } from '../sourceRegistry';
+import * as consensus from '../consensus';
+
+// Loaded in beforeAll so only the probe source below is enabled
+let service: typeof import('../verificationService');
+
+// Calls to the probe source that haven't been answered yet
+let calls: Array<{ claim: Claim; answer: (result: Verification | null) => void }> = [];
+
+const probe: VerificationSource = {
+  name: 'probe',
+  priority: 1,
+  reliability: 0.9,
+  requiredConfig: [],
+  canHandle: () => true,
+  verify: claim => new Promise(resolve => calls.push({ claim, answer: resolve })),
+};
+
+const rated = (claim: Claim): Verification => ({
+  claimId: claim.id,
+  rating: 'verified',
+  confidence: 0.9,
+  summary: 'Confirmed',
+  evidence: [],
+  checkedAt: new Date().toISOString(),
+});
+
+// Let queued promise callbacks (cache lookups, source calls) run
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+async function waitForCalls(count: number): Promise<void> {
+  for (let i = 0; i < 50 && calls.length < count; i++) await settle();
+  expect(calls).toHaveLength(count);
+}
+
+beforeAll(() => {
+  process.env.ENABLED_SOURCES = 'probe';
+  process.env.SIMILARITY_THRESHOLD = '0';
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  service = require('../verificationService');
+  registerSource(probe);
+});
+
+afterEach(() => {
+  calls = [];
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+  delete process.env.ENABLED_SOURCES;
+  delete process.env.SIMILARITY_THRESHOLD;
+});
+
+describe('verifyClaim coalescing', () => {
+  it('shares one run between concurrent requests for the same claim', async () => {
+    const claim = { id: 'a', text: 'The Eiffel Tower is 330 metres tall.' };
+
+    const first = service.verifyClaim(claim);
+    const second = service.verifyClaim({ ...claim, id: 'b' });
+    await waitForCalls(1);
+    calls[0].answer(rated(claim));
+
+    expect(await first).toMatchObject({ cached: false, verification: { rating: 'verified', claimId: 'a' } });
+    expect(await second).toMatchObject({ cached: true, verification: { rating: 'verified', claimId: 'b' } });
+    expect(calls).toHaveLength(1);
+  });
+
+  it('passes an error from the shared run on to the requests that joined it', async () => {
+    const claim = { id: 'a', text: 'The Louvre is the most visited museum.' };
+    jest.spyOn(consensus, 'computeConsensus').mockImplementationOnce(() => {
+      throw new Error('consensus failed');
+    });
+
+    const first = service.verifyClaim(claim);
+    const second = service.verifyClaim({ ...claim, id: 'b' });
+    await waitForCalls(1);
+    calls[0].answer(rated(claim));
+
+    await expect(first).rejects.toThrow('consensus failed');
+    await expect(second).rejects.toThrow('consensus failed');
+  });
+
+  it('has requests left by a run that ended at its deadline share one new run', async () => {
+    const claim = { id: 'a', text: 'The Seine is 777 kilometres long.' };
+    const owner = new AbortController();
+
+    const first = service.verifyClaim(claim, { signal: owner.signal });
+    const second = service.verifyClaim({ ...claim, id: 'b' });
+    const third = service.verifyClaim({ ...claim, id: 'c' });
+    await waitForCalls(1);
+
+    owner.abort();
+    expect((await first).verification.status).toBe('partial');
+    await waitForCalls(2);
+    await settle();
+    calls[1].answer(rated(claim));
+
+    expect(await second).toMatchObject({ cached: false, verification: { status: 'complete' } });
+    expect(await third).toMatchObject({ cached: true, verification: { status: 'complete', claimId: 'c' } });
+    expect(calls).toHaveLength(2);
+  });
+});
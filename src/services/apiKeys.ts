@@ -0,0 +1,141 @@
+/**
+ * API keys
+ *
+ * Keys are stored as SHA-256 hashes in a JSON file, so the file never holds a
+ * usable secret; the plaintext key is shown once when it is created. The file
+ * is re-read whenever it changes, so created or revoked keys take effect
+ * without a restart. Manage keys with `npm run api-key` (src/scripts/apiKey.ts).
+ *
+ * Configuration:
+ *   API_KEYS_PATH=./data/api-keys.json
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ClientLimits } from './quotas';
+
+export type ApiKeyScope = 'verify' | 'extract' | 'review' | 'export' | 'admin';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['verify', 'extract', 'review', 'export', 'admin'];
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  /** SHA-256 of the key, hex encoded */
+  hash: string;
+  scopes: ApiKeyScope[];
+  /** Overrides the default rate limit and daily quotas for this key */
+  limits?: Partial<ClientLimits>;
+  createdAt: string;
+  revokedAt?: string;
+}
+
+let cached: { mtimeMs: number; keys: ApiKeyRecord[] } | null = null;
+
+export function getApiKeysPath(): string {
+  return process.env.API_KEYS_PATH || path.join('.', 'data', 'api-keys.json');
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function isKeyRecord(value: unknown): value is ApiKeyRecord {
+  if (typeof value !== 'object' || value === null) return false;
+  const key = value as Record<string, unknown>;
+  return typeof key.id === 'string' && typeof key.hash === 'string' && Array.isArray(key.scopes);
+}
+
+/**
+ * Read the key file, reusing the parsed copy until the file changes
+ */
+function loadKeys(): ApiKeyRecord[] {
+  const filePath = getApiKeysPath();
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(filePath).mtimeMs;
+  } catch {
+    cached = null;
+    return [];
+  }
+
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.keys;
+  }
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    const keys = (Array.isArray(parsed) ? parsed : []).filter(isKeyRecord);
+    cached = { mtimeMs, keys };
+    console.log(`[ApiKeys] Loaded ${keys.length} keys from ${filePath}`);
+    return keys;
+  } catch (error) {
+    // Keep serving the last good copy rather than locking everyone out
+    console.error(`[ApiKeys] Failed to read ${filePath}:`, error);
+    return cached?.keys || [];
+  }
+}
+
+function saveKeys(keys: ApiKeyRecord[]): void {
+  const filePath = getApiKeysPath();
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(keys, null, 2) + '\n', { mode: 0o600 });
+  cached = null;
+}
+
+/**
+ * All keys, including revoked ones
+ */
+export function listApiKeys(): ApiKeyRecord[] {
+  return loadKeys();
+}
+
+/**
+ * Whether any usable key exists. Without one, protected routes refuse every
+ * request unless ALLOW_UNAUTHENTICATED is set (see middleware/auth).
+ */
+export function hasApiKeys(): boolean {
+  return loadKeys().some(k => !k.revokedAt);
+}
+
+/**
+ * Look up the record for a presented key. Returns null for unknown or revoked keys.
+ */
+export function findApiKey(key: string): ApiKeyRecord | null {
+  const hash = hashApiKey(key);
+  const record = loadKeys().find(k => k.hash === hash);
+  return record && !record.revokedAt ? record : null;
+}
+
+/**
+ * Create a key. The plaintext key is returned here only; just its hash is stored.
+ */
+export function createApiKey(name: string, scopes: ApiKeyScope[]): { key: string; record: ApiKeyRecord } {
+  const key = `ld_${crypto.randomBytes(24).toString('base64url')}`;
+  const record: ApiKeyRecord = {
+    id: uuidv4().slice(0, 8),
+    name,
+    hash: hashApiKey(key),
+    scopes,
+    createdAt: new Date().toISOString(),
+  };
+
+  saveKeys([...loadKeys(), record]);
+  return { key, record };
+}
+
+/**
+ * Revoke a key by id. Returns false if no active key has that id.
+ */
+export function revokeApiKey(id: string): boolean {
+  const keys = loadKeys();
+  const record = keys.find(k => k.id === id && !k.revokedAt);
+  if (!record) return false;
+
+  record.revokedAt = new Date().toISOString();
+  saveKeys(keys);
+  return true;
+}
@@ -0,0 +1,555 @@
+/**
+ * Readable-text extraction from raw page HTML
+ *
+ * A small, tolerant tokenizer builds an element tree from the page. The main
+ * content root is the <article>/<main> element holding the most paragraph
+ * text (else <body>); within it, boilerplate such as navigation, ads, share
+ * bars, comments and sidebars is dropped by tag, ARIA role and class/id, and
+ * the rest is flattened into paragraphs. Short or link-heavy blocks are
+ * dropped too.
+ *
+ * Every character of the article text remembers the text node it came from,
+ * so offsets into the text can be mapped back onto the page. Text nodes are
+ * numbered in document order, counting only nodes inside <body> (the whole
+ * document if it has none) that contain non-whitespace text and aren't inside
+ * script, style, noscript or template: the order a TreeWalker over
+ * document.body visits them once it skips those. Browsers repair broken
+ * markup in ways this parser doesn't, so each range also carries its text for
+ * the client to check against.
+ */
+
+import { Article, ArticleParagraph, TextNodeRange } from '../types';
+
+interface ElementNode {
+  type: 'element';
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+  parent: ElementNode | null;
+}
+
+export interface TextNode {
+  type: 'text';
+  /** Decoded text, as a browser's Text.data would hold it */
+  text: string;
+  sourceStart: number;
+  sourceEnd: number;
+  /** Position among counted text nodes, or -1 if not counted */
+  index: number;
+}
+
+type HtmlNode = ElementNode | TextNode;
+
+export interface ExtractedArticle extends Article {
+  /** Where each character of `text` came from; null for paragraph separators */
+  origins: Array<{ node: TextNode; offset: number } | null>;
+  /** The submitted HTML, for mapping back to source offsets */
+  html: string;
+}
+
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+// Elements whose content is not markup
+const RAW_TEXT_TAGS = new Set([
+  'script', 'style', 'textarea', 'title', 'noscript', 'template', 'iframe', 'noembed', 'noframes', 'xmp',
+]);
+
+// Text inside these never becomes a counted text node
+const UNCOUNTED_TAGS = new Set(['script', 'style', 'noscript', 'template']);
+
+// Opening one of these closes an open <p>
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'dd', 'details', 'div', 'dl', 'dt', 'fieldset', 'figcaption',
+  'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol',
+  'p', 'pre', 'section', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul',
+]);
+
+// Opening the key closes an open sibling of one of these
+const IMPLIED_END_TAGS: Record<string, string[]> = {
+  li: ['li'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['tr', 'td', 'th'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  option: ['option'],
+};
+
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+// Never article text
+const DROPPED_TAGS = new Set([
+  'head', 'title', 'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'math', 'video', 'audio',
+  'object', 'embed', 'nav', 'aside', 'footer', 'form', 'button', 'select', 'textarea', 'input', 'menu',
+  'dialog', 'figure',
+]);
+
+const DROPPED_ROLES = new Set([
+  'navigation', 'banner', 'contentinfo', 'complementary', 'search', 'menu', 'menubar', 'dialog', 'alertdialog',
+]);
+
+const BOILERPLATE_PATTERN = /(?:^|[\s_-])(?:nav|navbar|menu|breadcrumbs?|sidebar|footer|masthead|comments?|disqus|share|sharing|social|related|recommended|promo|ads?|advert\w*|sponsor\w*|newsletter|subscribe|cookies?|consent|banner|popup|modal|outbrain|taboola|paywall)(?:$|[\s_-])/i;
+
+// Class/id words that mark likely content even when they also look like boilerplate
+const CONTENT_PATTERN = /article|body|content|main|story|post|entry/i;
+
+// Blocks shorter than this are dropped unless they end a sentence or are headings
+const MIN_BLOCK_LENGTH = 25;
+
+// Blocks with more of their text in links than this are dropped
+const MAX_LINK_DENSITY = 0.5;
+
+// Content roots with less paragraph text than this lose to <body>
+const MIN_ROOT_TEXT = 200;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0', shy: '\u00ad',
+  ndash: '–', mdash: '—', hellip: '…', bull: '•', middot: '·',
+  lsquo: '‘', rsquo: '’', sbquo: '‚', ldquo: '“', rdquo: '”', bdquo: '„',
+  laquo: '«', raquo: '»', prime: '′', Prime: '″',
+  copy: '©', reg: '®', trade: '™', deg: '°', plusmn: '±', times: '×',
+  divide: '÷', frac12: '½', frac14: '¼', frac34: '¾', sup2: '²', sup3: '³',
+  micro: 'µ', para: '¶', sect: '§', cent: '¢', pound: '£', euro: '€',
+  yen: '¥', percnt: '%', ensp: '\u2002', emsp: '\u2003', thinsp: '\u2009', zwj: '\u200d', zwnj: '\u200c',
+};
+
+// Entities browsers also accept without the trailing semicolon
+const LEGACY_ENTITIES = new Set(['amp', 'lt', 'gt', 'quot', 'nbsp', 'copy', 'reg']);
+
+const ENTITY_PATTERN = /&(?:#(\d{1,7})|#[xX]([0-9a-fA-F]{1,6})|([a-zA-Z][a-zA-Z0-9]{1,31}))(;?)/g;
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z][^\s\/>]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/y;
+
+const ATTRIBUTE_PATTERN = /([^\s=\/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+function codePointToString(code: number): string {
+  if (code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) return '\ufffd';
+  return String.fromCodePoint(code);
+}
+
+/**
+ * Decode character references and normalize line endings, as a browser does
+ * for text content. With `withOffsets`, also returns the source position of
+ * each decoded UTF-16 unit, plus one for the end.
+ */
+function decodeText(raw: string, sourceStart: number, withOffsets: true): { text: string; offsets: number[] };
+function decodeText(raw: string, sourceStart: number, withOffsets?: false): { text: string };
+function decodeText(raw: string, sourceStart: number, withOffsets = false): { text: string; offsets?: number[] } {
+  let text = '';
+  const offsets: number[] = [];
+  let last = 0;
+
+  const copy = (from: number, to: number) => {
+    if (!withOffsets) {
+      text += raw.slice(from, to).replace(/\r\n?/g, '\n');
+      return;
+    }
+    for (let i = from; i < to; i++) {
+      // \r\n and lone \r become \n
+      if (raw[i] === '\r') {
+        if (raw[i + 1] === '\n') continue;
+        text += '\n';
+      } else {
+        text += raw[i];
+      }
+      offsets.push(sourceStart + i);
+    }
+  };
+
+  ENTITY_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ENTITY_PATTERN.exec(raw))) {
+    const [whole, decimal, hex, name, semicolon] = match;
+    let decoded: string | undefined;
+
+    if (decimal || hex) {
+      decoded = codePointToString(parseInt(decimal || hex, decimal ? 10 : 16));
+    } else if (NAMED_ENTITIES[name] && (semicolon || LEGACY_ENTITIES.has(name))) {
+      decoded = NAMED_ENTITIES[name];
+    }
+    if (decoded === undefined) continue;
+
+    copy(last, match.index);
+    text += decoded;
+    if (withOffsets) {
+      for (let i = 0; i < decoded.length; i++) offsets.push(sourceStart + match.index);
+    }
+    last = match.index + whole.length;
+  }
+  copy(last, raw.length);
+
+  if (!withOffsets) return { text };
+  offsets.push(sourceStart + raw.length);
+  return { text, offsets };
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE_PATTERN.exec(raw))) {
+    const name = match[1].toLowerCase();
+    if (!(name in attrs)) attrs[name] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attrs;
+}
+
+/**
+ * Build an element tree, closing unclosed and misnested elements the way
+ * browsers usually do
+ */
+function parseHtml(html: string): ElementNode {
+  const root: ElementNode = { type: 'element', tag: '#document', attrs: {}, children: [], parent: null };
+  let current = root;
+  let pos = 0;
+  // Text nodes are decoded once their source range is complete, after parsing
+  const textNodes: TextNode[] = [];
+
+  const addText = (start: number, end: number) => {
+    if (end <= start) return;
+    const previous = current.children[current.children.length - 1];
+    // Adjacent text (e.g. around a stray "<") is one node, as in the DOM
+    if (previous?.type === 'text' && previous.sourceEnd === start) {
+      previous.sourceEnd = end;
+      return;
+    }
+    const node: TextNode = { type: 'text', text: '', sourceStart: start, sourceEnd: end, index: -1 };
+    current.children.push(node);
+    textNodes.push(node);
+  };
+
+  const close = (tag: string) => {
+    for (let el: ElementNode | null = current; el && el !== root; el = el.parent) {
+      if (el.tag === tag) {
+        current = el.parent!;
+        return;
+      }
+    }
+  };
+
+  while (pos < html.length) {
+    const lt = html.indexOf('<', pos);
+    if (lt === -1) {
+      addText(pos, html.length);
+      break;
+    }
+    addText(pos, lt);
+
+    if (html.startsWith('<!--', lt)) {
+      const end = html.indexOf('-->', lt + 4);
+      pos = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html[lt + 1] === '!' || html[lt + 1] === '?') {
+      const end = html.indexOf('>', lt);
+      pos = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    TAG_PATTERN.lastIndex = lt;
+    const match = TAG_PATTERN.exec(html);
+    if (!match) {
+      // A "<" that doesn't start a tag is text
+      addText(lt, lt + 1);
+      pos = lt + 1;
+      continue;
+    }
+    pos = lt + match[0].length;
+
+    const [, closing, rawName, rawAttrs] = match;
+    const tag = rawName.toLowerCase();
+
+    if (closing) {
+      close(tag);
+      continue;
+    }
+
+    if (current.tag === 'p' && BLOCK_TAGS.has(tag)) {
+      current = current.parent!;
+    }
+    if (IMPLIED_END_TAGS[tag]?.includes(current.tag)) {
+      current = current.parent!;
+    }
+
+    const element: ElementNode = { type: 'element', tag, attrs: parseAttributes(rawAttrs), children: [], parent: current };
+    current.children.push(element);
+
+    if (VOID_TAGS.has(tag) || rawAttrs.trimEnd().endsWith('/')) {
+      continue;
+    }
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const closingTag = new RegExp(`</${tag}`, 'ig');
+      closingTag.lastIndex = pos;
+      const end = closingTag.exec(html)?.index ?? -1;
+      const contentEnd = end === -1 ? html.length : end;
+      current = element;
+      addText(pos, contentEnd);
+      current = element.parent!;
+      const closeEnd = end === -1 ? -1 : html.indexOf('>', end);
+      pos = closeEnd === -1 ? html.length : closeEnd + 1;
+      continue;
+    }
+
+    current = element;
+  }
+
+  for (const node of textNodes) {
+    node.text = decodeText(html.slice(node.sourceStart, node.sourceEnd), node.sourceStart).text;
+  }
+
+  return root;
+}
+
+function findElement(node: ElementNode, tag: string): ElementNode | undefined {
+  for (const child of node.children) {
+    if (child.type !== 'element') continue;
+    if (child.tag === tag) return child;
+    const found = findElement(child, tag);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Number the text nodes a client can find again (see the module comment)
+ */
+function numberTextNodes(root: ElementNode): void {
+  let next = 0;
+  const visit = (node: ElementNode) => {
+    for (const child of node.children) {
+      if (child.type === 'text') {
+        if (/\S/.test(child.text)) child.index = next++;
+      } else if (!UNCOUNTED_TAGS.has(child.tag)) {
+        visit(child);
+      }
+    }
+  };
+  visit(findElement(root, 'body') || root);
+}
+
+function isBoilerplate(el: ElementNode): boolean {
+  if (DROPPED_TAGS.has(el.tag)) return true;
+  if (el.tag === 'header' && !hasAncestor(el, 'article')) return true;
+  if ('hidden' in el.attrs || el.attrs['aria-hidden'] === 'true') return true;
+  if (/display\s*:\s*none/i.test(el.attrs.style || '')) return true;
+  if (DROPPED_ROLES.has((el.attrs.role || '').toLowerCase())) return true;
+
+  if (['html', 'body', 'article', 'main'].includes(el.tag)) return false;
+  const names = `${el.attrs.class || ''} ${el.attrs.id || ''}`;
+  return BOILERPLATE_PATTERN.test(names) && !CONTENT_PATTERN.test(names);
+}
+
+function hasAncestor(el: ElementNode, tag: string): boolean {
+  for (let p = el.parent; p; p = p.parent) {
+    if (p.tag === tag) return true;
+  }
+  return false;
+}
+
+/**
+ * Length of the text in <p> elements under a node, skipping boilerplate
+ */
+function paragraphTextLength(node: ElementNode, inParagraph = false): number {
+  let length = 0;
+  for (const child of node.children) {
+    if (child.type === 'text') {
+      if (inParagraph) length += child.text.trim().length;
+    } else if (!isBoilerplate(child)) {
+      length += paragraphTextLength(child, inParagraph || child.tag === 'p');
+    }
+  }
+  return length;
+}
+
+/**
+ * The element holding the article: the <article>, <main> or articleBody with
+ * the most paragraph text, falling back to <body>
+ */
+function findContentRoot(root: ElementNode): ElementNode {
+  const candidates: ElementNode[] = [];
+  const collect = (node: ElementNode) => {
+    for (const child of node.children) {
+      if (child.type !== 'element' || DROPPED_TAGS.has(child.tag)) continue;
+      if (child.tag === 'article' || child.tag === 'main' || child.attrs.role === 'main' || child.attrs.itemprop === 'articleBody') {
+        candidates.push(child);
+      }
+      collect(child);
+    }
+  };
+  collect(root);
+
+  let best: { el: ElementNode; length: number } | null = null;
+  for (const el of candidates) {
+    const length = paragraphTextLength(el);
+    if (length >= MIN_ROOT_TEXT && (!best || length > best.length)) best = { el, length };
+  }
+
+  return best?.el || findElement(root, 'body') || root;
+}
+
+interface Block {
+  tag: string;
+  text: string;
+  origins: Array<{ node: TextNode; offset: number }>;
+  linkLength: number;
+}
+
+/**
+ * Flatten the content root into blocks of whitespace-collapsed text
+ */
+function collectBlocks(contentRoot: ElementNode): Block[] {
+  const blocks: Block[] = [];
+  // Characters are collected in an array and joined once, at flush; growing
+  // the string a character at a time and checking its end is quadratic
+  let block: (Omit<Block, 'text'> & { chars: string[] }) | null = null;
+
+  const flush = () => {
+    if (block) {
+      const { chars, ...rest } = block;
+      // Drop a trailing collapsed space
+      if (chars[chars.length - 1] === ' ') {
+        chars.pop();
+        rest.origins.pop();
+      }
+      if (chars.length > 0) blocks.push({ ...rest, text: chars.join('') });
+    }
+    block = null;
+  };
+
+  const visit = (node: ElementNode, blockTag: string, inLink: boolean) => {
+    for (const child of node.children) {
+      if (child.type === 'text') {
+        if (!block) block = { tag: blockTag, chars: [], origins: [], linkLength: 0 };
+        const current = block;
+
+        for (let i = 0; i < child.text.length; i++) {
+          const char = child.text[i];
+          if (/\s/.test(char) || char === '\u00ad') {
+            // Collapse whitespace runs to one space; soft hyphens disappear
+            const last = current.chars[current.chars.length - 1];
+            if (char === '\u00ad' || last === undefined || last === ' ') continue;
+            current.chars.push(' ');
+          } else {
+            current.chars.push(char);
+            if (inLink) current.linkLength++;
+          }
+          current.origins.push({ node: child, offset: i });
+        }
+        continue;
+      }
+
+      if (isBoilerplate(child)) continue;
+
+      if (child.tag === 'br') {
+        // A line break separates words like whitespace; map it to the character before
+        const last = block?.chars[block.chars.length - 1];
+        if (block && last !== undefined && last !== ' ') {
+          block.chars.push(' ');
+          block.origins.push(block.origins[block.origins.length - 1]);
+        }
+        continue;
+      }
+
+      if (BLOCK_TAGS.has(child.tag)) {
+        flush();
+        visit(child, child.tag, inLink);
+        flush();
+      } else {
+        visit(child, blockTag, inLink || child.tag === 'a');
+      }
+    }
+  };
+
+  visit(contentRoot, contentRoot.tag, false);
+  flush();
+  return blocks;
+}
+
+function isReadable(block: Block): boolean {
+  if (HEADING_TAGS.has(block.tag)) return block.linkLength < block.text.length;
+  if (block.linkLength / block.text.length > MAX_LINK_DENSITY) return false;
+  return block.text.length >= MIN_BLOCK_LENGTH || /[.!?]["'”’)]?$/.test(block.text);
+}
+
+/**
+ * Extract the main article text from a page's HTML. Paragraphs are joined
+ * with blank lines; once adding one would exceed `maxLength`, the rest are
+ * dropped (or, for the first, cut short) and `truncated` is set.
+ */
+export function extractArticle(html: string, maxLength: number = Infinity): ExtractedArticle {
+  const root = parseHtml(html);
+  numberTextNodes(root);
+
+  const titleNode = findElement(root, 'title')?.children[0];
+  const title = titleNode?.type === 'text' ? titleNode.text.replace(/\s+/g, ' ').trim() : '';
+
+  const blocks = collectBlocks(findContentRoot(root)).filter(isReadable);
+
+  let text = '';
+  const origins: ExtractedArticle['origins'] = [];
+  const paragraphs: ArticleParagraph[] = [];
+  let truncated = false;
+
+  for (const block of blocks) {
+    const separator = text ? '\n\n' : '';
+    if (text.length + separator.length + block.text.length > maxLength) {
+      truncated = true;
+      // A single oversized paragraph is cut rather than lost
+      if (!text) {
+        block.text = block.text.slice(0, maxLength);
+        block.origins = block.origins.slice(0, maxLength);
+      } else {
+        break;
+      }
+    }
+
+    text += separator;
+    origins.push(...Array.from(separator, () => null));
+
+    paragraphs.push({ tag: block.tag, charStart: text.length, charEnd: text.length + block.text.length });
+    text += block.text;
+    for (const origin of block.origins) origins.push(origin);
+  }
+
+  return { ...(title && { title }), text, paragraphs, truncated, origins, html };
+}
+
+/**
+ * Map a range of the article text onto the text nodes it came from, one
+ * entry per node in document order. Offsets within a node are UTF-16 offsets
+ * into its decoded text (Text.data); htmlStart/htmlEnd are offsets into the
+ * submitted HTML.
+ */
+export function mapToTextNodes(article: ExtractedArticle, charStart: number, charEnd: number): TextNodeRange[] {
+  const ranges: Array<{ node: TextNode; start: number; end: number }> = [];
+
+  for (let i = Math.max(0, charStart); i < Math.min(charEnd, article.origins.length); i++) {
+    const origin = article.origins[i];
+    if (!origin) continue;
+
+    const last = ranges[ranges.length - 1];
+    if (last && last.node === origin.node) {
+      last.start = Math.min(last.start, origin.offset);
+      last.end = Math.max(last.end, origin.offset + 1);
+    } else {
+      ranges.push({ node: origin.node, start: origin.offset, end: origin.offset + 1 });
+    }
+  }
+
+  return ranges
+    .filter(range => range.node.index >= 0)
+    .map(({ node, start, end }) => {
+      const { offsets } = decodeText(article.html.slice(node.sourceStart, node.sourceEnd), node.sourceStart, true);
+      return {
+        node: node.index,
+        start,
+        end,
+        text: node.text.slice(start, end),
+        htmlStart: offsets[start],
+        htmlEnd: offsets[end],
+      };
+    });
+}
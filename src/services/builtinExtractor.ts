@@ -0,0 +1,219 @@
+/**
+ * Built-in claim extractor, used when the NLP service is unavailable
+ *
+ * Splits text into sentences and scores how check-worthy each one is from
+ * surface features: numbers, named entities, comparatives and attribution
+ * phrases raise the score, hedges and opinion markers lower it. Sentences
+ * above MIN_CONFIDENCE are returned in the NLP service's ExtractedClaim shape,
+ * with character offsets into the original text.
+ *
+ * Entities are found with patterns rather than a model, so labels are coarse:
+ * PERCENT, MONEY, DATE, CARDINAL, PERSON, ORG, and MISC for other proper nouns.
+ */
+
+import { ExtractedClaim, Entity, DEFAULT_MAX_CLAIMS } from './nlpService';
+
+// Sentences scoring below this aren't returned
+const MIN_CONFIDENCE = 0.45;
+
+// Sentences shorter or longer than this (in words) aren't claims
+const MIN_WORDS = 5;
+const MAX_WORDS = 80;
+
+const MAX_KEYWORDS = 8;
+
+// Words followed by a period that doesn't end the sentence
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'vs', 'etc', 'e.g', 'i.e', 'approx', 'inc', 'ltd', 'co', 'corp',
+  'no', 'fig', 'gen', 'gov', 'sen', 'rep', 'rev', 'sgt', 'col', 'lt', 'capt', 'jan', 'feb', 'mar', 'apr', 'jun', 'jul',
+  'aug', 'sep', 'sept', 'oct', 'nov', 'dec', 'u.s', 'u.k', 'u.n', 'e.u',
+]);
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'for', 'from', 'had', 'has', 'have', 'he', 'her',
+  'his', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'she', 'that', 'the', 'their', 'there', 'these', 'they',
+  'this', 'those', 'to', 'was', 'were', 'which', 'who', 'will', 'with', 'would', 'than', 'then', 'also', 'about',
+  'after', 'before', 'more', 'most', 'less', 'over', 'under', 'said', 'says', 'according', 'what', 'when', 'where',
+  'while', 'some', 'such', 'only', 'other', 'into', 'very', 'just', 'being', 'does', 'did', 'not', 'can', 'could',
+]);
+
+// Titles that mark the proper noun they start as a person
+const PERSON_TITLE = /^(?:Mr|Mrs|Ms|Dr|Prof|Professor|President|Senator|Sen|Rep|Governor|Gov|Minister|Chancellor|Judge|Pope|King|Queen|Prince|Princess)\.?\s+(?=[A-Z])/;
+
+// Last words that mark a proper noun as an organization
+const ORG_SUFFIXES = /\b(?:University|Institute|Inc|Corp|Corporation|Company|Ltd|Organization|Organisation|Agency|Association|Department|Ministry|Council|Bank|Party|Court|Commission|Foundation|Center|Centre|Committee|Bureau|Administration|Office|Service|Fund|Group|Times|News|Post)\.?$/;
+
+const MONTHS = 'January|February|March|April|May|June|July|August|September|October|November|December';
+
+const NUMBER_WORDS = /\b(?:million|billion|trillion|thousand|hundred|dozens?|percent|per cent|half|twice|double|triple|quarter|third)\b/i;
+const COMPARATIVES = /\b(?:more|less|fewer|higher|lower|larger|smaller|greater|bigger|faster|slower|older|younger|most|least|largest|biggest|highest|lowest|smallest|fastest|oldest|youngest|tallest|longest|deepest|richest|poorest|first|last|only|record|increased?|increases|decreased?|decreases|rose|risen|fell|fallen|doubled|tripled|halved|grew|dropped|surpassed|exceeded)\b/i;
+const ATTRIBUTION = /\b(?:according to|said|says|stated|reported|announced|claimed|confirmed|found that|finds that|shows? that|showed that|estimated?|estimates|study|studies|survey|research|researchers|data|statistics|census|report)\b/i;
+const QUOTATION = /["“”]|\b(?:said|says|stated|told)\b/i;
+const OPINION = /\b(?:I|we)\s+(?:think|believe|feel|guess|hope)\b|\b(?:in my opinion|in our view|should|ought to|must|beautiful|terrible|awful|amazing|wonderful|horrible|disgusting|stupid|great|best|worst)\b/i;
+const HEDGES = /\b(?:might|may|could|perhaps|possibly|probably|maybe|seems?|appears?)\b/i;
+const FIRST_PERSON = /\b(?:I|me|my|we|us|our)\b/;
+
+interface Sentence {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Whether the period at `index` follows an abbreviation or an initial
+ */
+function isAbbreviation(text: string, index: number): boolean {
+  const word = /(\S+)$/.exec(text.slice(Math.max(0, index - 20), index))?.[1];
+  if (!word) return false;
+  const bare = word.replace(/^[("'“‘[]+/, '').toLowerCase();
+  return ABBREVIATIONS.has(bare) || /^[a-z]$/i.test(bare);
+}
+
+/**
+ * Split text into sentences at terminal punctuation and line breaks,
+ * keeping offsets into the original text
+ */
+export function splitSentences(text: string): Sentence[] {
+  const sentences: Sentence[] = [];
+  const boundary = /[.!?]+["'”’)\]]*(?=\s|$)|\n/g;
+  let start = 0;
+
+  const push = (from: number, to: number) => {
+    while (from < to && /\s/.test(text[from])) from++;
+    while (to > from && /\s/.test(text[to - 1])) to--;
+    if (to > from) sentences.push({ text: text.slice(from, to), start: from, end: to });
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+
+    if (match[0] !== '\n') {
+      if (match[0] === '.' && isAbbreviation(text, match.index)) continue;
+      // "e.g. the" or "... and then" carry on the same sentence
+      const next = /^\s*(\S)/.exec(text.slice(end, end + 50))?.[1];
+      if (next && /[a-z]/.test(next)) continue;
+    }
+
+    push(start, match[0] === '\n' ? match.index : end);
+    start = end;
+  }
+  push(start, text.length);
+
+  return sentences;
+}
+
+/**
+ * Pattern-based entities in a sentence, without overlaps
+ */
+export function findEntities(sentence: string): Entity[] {
+  const taken: Array<[number, number]> = [];
+  const found: Array<Entity & { index: number }> = [];
+
+  const add = (pattern: RegExp, label: string | ((match: RegExpExecArray) => Entity | null)) => {
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(sentence)) !== null) {
+      const start = match.index;
+      const end = start + match[0].length;
+      if (taken.some(([s, e]) => start < e && end > s)) continue;
+      const entity = typeof label === 'string' ? { text: match[0], label } : label(match);
+      if (!entity) continue;
+      taken.push([start, end]);
+      found.push({ ...entity, index: start });
+    }
+  };
+
+  add(/\d+(?:[.,]\d+)*\s?(?:%|percent\b|per cent\b)/gi, 'PERCENT');
+  add(/[$€£]\s?\d[\d,]*(?:\.\d+)?(?:\s?(?:million|billion|trillion|[mbk])\b)?|\b\d[\d,]*(?:\.\d+)?\s?(?:million\s|billion\s|trillion\s)?(?:dollars|euros|pounds)\b/gi, 'MONEY');
+  add(new RegExp(`\\b(?:(?:\\d{1,2}\\s)?(?:${MONTHS})(?:\\s\\d{1,2})?(?:,?\\s(?:1[89]|20)\\d\\d)?|(?:1[89]|20)\\d\\ds?)\\b`, 'g'), 'DATE');
+  add(/\b\d[\d,]*(?:\.\d+)?(?:\s(?:million|billion|trillion|thousand))?\b/gi, 'CARDINAL');
+  add(/\b[A-Z][\w'’&.-]*(?:\s+(?:of|the|for|and|de)\s+[A-Z][\w'’&.-]*|\s+[A-Z][\w'’&.-]*)*/g, match => {
+    const titled = PERSON_TITLE.test(match[0]);
+    const text = match[0].replace(PERSON_TITLE, '').replace(/^(?:The|A|An)\s+(?=[A-Z])/, '').replace(/[.'’]+$/, '');
+    const isAcronym = /^[A-Z]{2,6}s?$/.test(text);
+    // A single capitalized word opening the sentence is usually just capitalized
+    if (match.index === 0 && !match[0].includes(' ') && !isAcronym) return null;
+    if (STOPWORDS.has(text.toLowerCase()) || text === 'I') return null;
+    if (isAcronym || ORG_SUFFIXES.test(text)) return { text, label: 'ORG' };
+    if (titled || /^\s*(?:said|says|told|argued)\b/.test(sentence.slice(match.index + match[0].length))) {
+      return { text, label: 'PERSON' };
+    }
+    return { text, label: 'MISC' };
+  });
+
+  return found
+    .sort((a, b) => a.index - b.index)
+    .filter((entity, i, all) => all.findIndex(e => e.text === entity.text) === i)
+    .map(({ text, label }) => ({ text, label }));
+}
+
+function keywordsOf(sentence: string, entities: Entity[]): string[] {
+  const keywords = new Set<string>();
+  for (const entity of entities) {
+    if (!['CARDINAL', 'PERCENT', 'MONEY', 'DATE'].includes(entity.label)) keywords.add(entity.text.toLowerCase());
+  }
+  for (const word of sentence.toLowerCase().match(/[\p{L}][\p{L}\p{N}'-]*/gu) || []) {
+    if (word.length >= 4 && !STOPWORDS.has(word)) keywords.add(word);
+  }
+  return Array.from(keywords).slice(0, MAX_KEYWORDS);
+}
+
+/**
+ * How check-worthy a sentence is (0-1) and what kind of claim it makes,
+ * or null if it isn't a claim at all
+ */
+function scoreSentence(sentence: string, entities: Entity[]): { confidence: number; claimType: string } | null {
+  const wordCount = sentence.split(/\s+/).length;
+  if (wordCount < MIN_WORDS || wordCount > MAX_WORDS) return null;
+  if (/\?["'”’)]*$/.test(sentence)) return null;
+
+  const hasNumber = /\d/.test(sentence) || NUMBER_WORDS.test(sentence);
+  const namedEntities = entities.filter(e => ['PERSON', 'ORG', 'MISC'].includes(e.label)).length;
+  const comparative = COMPARATIVES.test(sentence);
+  const attribution = ATTRIBUTION.test(sentence);
+
+  let score = 0.2;
+  if (hasNumber) score += 0.3;
+  if (namedEntities > 0) score += 0.2 + Math.min(0.1, (namedEntities - 1) * 0.05);
+  if (comparative) score += 0.15;
+  if (attribution) score += 0.15;
+  if (OPINION.test(sentence)) score -= 0.3;
+  if (HEDGES.test(sentence)) score -= 0.1;
+  if (FIRST_PERSON.test(sentence)) score -= 0.1;
+
+  const claimType = QUOTATION.test(sentence) && namedEntities > 0 ? 'quote'
+    : hasNumber ? 'statistic'
+    : comparative ? 'comparison'
+    : 'factual';
+
+  return { confidence: Math.round(Math.max(0, Math.min(0.95, score)) * 100) / 100, claimType };
+}
+
+/**
+ * Extract the most check-worthy sentences from text, in document order
+ */
+export function extractClaimsBuiltin(text: string, maxClaims: number = DEFAULT_MAX_CLAIMS): ExtractedClaim[] {
+  const claims: ExtractedClaim[] = [];
+
+  splitSentences(text).forEach((sentence, index) => {
+    const entities = findEntities(sentence.text);
+    const scored = scoreSentence(sentence.text, entities);
+    if (!scored || scored.confidence < MIN_CONFIDENCE) return;
+
+    claims.push({
+      text: sentence.text,
+      claim_type: scored.claimType,
+      confidence: scored.confidence,
+      entities,
+      evidence_keywords: keywordsOf(sentence.text, entities),
+      sentence_index: index,
+      char_start: sentence.start,
+      char_end: sentence.end,
+    });
+  });
+
+  return claims
+    .sort((a, b) => b.confidence - a.confidence || a.char_start - b.char_start)
+    .slice(0, maxClaims)
+    .sort((a, b) => a.char_start - b.char_start);
+}
@@ -0,0 +1,109 @@
+/**
+ * Safety checks for job callback URLs
+ *
+ * Callbacks are POSTed by the server, so a callback URL must not reach the
+ * server's own network: loopback, private, link-local (including cloud
+ * metadata endpoints) and other reserved addresses are refused. Hostnames
+ * are checked when they resolve, on every connection, so a name can't pass
+ * the check and then point somewhere else (DNS rebinding).
+ *
+ * Configuration:
+ *   JOB_CALLBACK_HOSTS=hooks.example.com   (only these hosts are accepted;
+ *                                            they may resolve to private addresses)
+ */
+
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+const BLOCKED = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  BLOCKED.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  BLOCKED.addSubnet(prefix, bits, 'ipv6');
+}
+
+function allowedHosts(): string[] | null {
+  const hosts = (process.env.JOB_CALLBACK_HOSTS || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+  return hosts.length > 0 ? hosts : null;
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not public
+ */
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 4) return BLOCKED.check(address, 'ipv4');
+  if (family !== 6) return true;
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked as IPv4
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  return mapped ? BLOCKED.check(mapped[1], 'ipv4') : BLOCKED.check(address, 'ipv6');
+}
+
+function isAllowlisted(hostname: string): boolean {
+  return !!allowedHosts()?.includes(hostname.toLowerCase());
+}
+
+/**
+ * Why a callback URL can't be used, or null if it can. Hostnames are only
+ * checked against the allowlist here; their addresses are checked on connect.
+ */
+export function checkCallbackUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'callbackUrl is not a valid URL';
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return 'callbackUrl must be an http or https URL';
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  const hosts = allowedHosts();
+  if (hosts) {
+    return hosts.includes(hostname.toLowerCase()) ? null : `callbackUrl host ${hostname} is not in JOB_CALLBACK_HOSTS`;
+  }
+  if (hostname.toLowerCase() === 'localhost' || (net.isIP(hostname) && isBlockedAddress(hostname))) {
+    return `callbackUrl host ${hostname} is not a public address`;
+  }
+  return null;
+}
+
+/**
+ * dns.lookup that fails for hostnames resolving to blocked addresses
+ */
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+
+    const usable = isAllowlisted(hostname) ? addresses : addresses.filter(a => !isBlockedAddress(a.address));
+    if (usable.length === 0) {
+      const refused = Object.assign(new Error(`${hostname} does not resolve to a public address`), { code: 'ECALLBACKBLOCKED' });
+      return callback(refused, '', 0);
+    }
+
+    if (options.all) {
+      (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, usable);
+    } else {
+      callback(null, usable[0].address, usable[0].family);
+    }
+  });
+};
+
+/**
+ * Agents for callback requests, resolving hostnames through the guard
+ */
+export const callbackAgents = {
+  httpAgent: new http.Agent({ lookup: guardedLookup }),
+  httpsAgent: new https.Agent({ lookup: guardedLookup }),
+};
@@ -0,0 +1,176 @@
+/**
+ * Check-worthiness filtering of extracted claims
+ *
+ * Sorts extracted claims into factual claims, which are worth sending to the
+ * sources, and opinions, predictions, questions and commands, which aren't.
+ * Classification is by the LLM (analyzeClaimWithLLM) or by a local heuristic;
+ * the heuristic also covers claims the LLM couldn't classify. Claims that are
+ * filtered out get an immediate 'opinion' verdict saying why.
+ *
+ * Configuration:
+ *   CHECK_WORTHINESS_FILTER=none   (none, heuristic or llm; requests can override it)
+ */
+
+import { Claim, Verification, ClaimKind, CheckWorthinessFilter, FilteredClaim } from '../types';
+import { analyzeClaimWithLLM, llmSource } from './llmService';
+import { isSourceConfigured } from './sourceRegistry';
+
+// The LLM's verdict counts only at or above this confidence
+const MIN_LLM_CONFIDENCE = 0.6;
+
+const FILTERS: CheckWorthinessFilter[] = ['none', 'heuristic', 'llm'];
+
+const QUESTION = /\?["'”’)]*$/;
+const COMMAND = /^(?:click|read|subscribe|sign up|share|follow|download|buy|call|join|watch|learn|try|visit|see|check out|don't|do not|never|always|remember)\b/i;
+// A capitalised word after the verb makes it a name ("Always Sunny"), not an instruction
+const NAME_FOLLOWS = /^\s+[A-Z]/;
+// A short label before a colon ("Learn more: the tower is 330 metres tall") isn't part of the claim
+const LEAD_IN = /^[\w' ]{1,20}:\s+(?=\S)/;
+// Case-sensitive, so a sentence opening with a name ("Will Smith won an Oscar") isn't a prediction
+const PREDICTION = /\b(?:will|won't|shall|is going to|are going to|is expected to|are expected to|is set to|are set to|is projected to|are projected to|forecasts?|predicts?)\b/;
+const OPINION = /\b(?:I|we)\s+(?:think|believe|feel|guess|hope|suspect)\b|\b(?:in my opinion|in our view|should|shouldn't|ought to|must)\b/i;
+// Evaluative words mark an opinion only in sentences without figures ("the best-selling album sold 5 million copies" is factual)
+const EVALUATIVE = /\b(?:beautiful|terrible|awful|amazing|wonderful|horrible|disgusting|stupid|ridiculous|great|best|worst|disaster|shameful)\b/i;
+
+export interface ClaimClassification {
+  claimType: ClaimKind;
+  checkWorthy: boolean;
+  confidence: number;
+  reason: string;
+  method: 'llm' | 'heuristic';
+}
+
+/**
+ * The filter to apply: the request's, or CHECK_WORTHINESS_FILTER
+ */
+export function resolveFilter(requested?: CheckWorthinessFilter): CheckWorthinessFilter {
+  if (requested) return requested;
+  const configured = process.env.CHECK_WORTHINESS_FILTER as CheckWorthinessFilter | undefined;
+  return configured && FILTERS.includes(configured) ? configured : 'none';
+}
+
+/**
+ * Years mentioned in the text, e.g. "by 2040"
+ */
+function mentionedYears(text: string): number[] {
+  return (text.match(/\b(?:1[89]|2[01])\d{2}\b/g) || []).map(year => parseInt(year));
+}
+
+/**
+ * What makes a sentence a prediction: a future year, or future tense in a
+ * sentence without years. "said inflation will hit 2% in 2019" reports a
+ * past forecast, which can be checked.
+ */
+function predictionMarker(sentence: string): string | undefined {
+  const thisYear = new Date().getFullYear();
+  const years = mentionedYears(sentence);
+  const futureYear = years.find(year => year > thisYear);
+  const modal = PREDICTION.exec(sentence)?.[0];
+
+  if (futureYear) return modal || String(futureYear);
+  return years.length === 0 ? modal : undefined;
+}
+
+/**
+ * Classify a sentence by its wording alone
+ */
+export function classifyHeuristically(text: string): ClaimClassification {
+  const sentence = text.trim().replace(LEAD_IN, '');
+  const classify = (claimType: ClaimKind, reason: string, confidence = 0.7): ClaimClassification =>
+    ({ claimType, checkWorthy: claimType === 'factual', confidence, reason, method: 'heuristic' });
+
+  if (QUESTION.test(sentence)) {
+    return classify('question', 'Phrased as a question');
+  }
+  const command = COMMAND.exec(sentence);
+  if (command && !NAME_FOLLOWS.test(sentence.slice(command[0].length))) {
+    return classify('command', `An instruction to the reader ("${command[0]}")`);
+  }
+  const prediction = predictionMarker(sentence);
+  if (prediction) {
+    return classify('prediction', `About the future ("${prediction}")`);
+  }
+  const opinion = OPINION.exec(sentence)?.[0] || (!/\d/.test(sentence) ? EVALUATIVE.exec(sentence)?.[0] : undefined);
+  if (opinion) {
+    return classify('opinion', `Expresses a view ("${opinion}")`);
+  }
+  return classify('factual', 'Makes a statement about facts', 0.6);
+}
+
+/**
+ * The OpenAI key the filter classifies with, or undefined when it uses the heuristic
+ */
+function classifierKey(filter: Exclude<CheckWorthinessFilter, 'none'>): string | undefined {
+  if (filter !== 'llm' || !isSourceConfigured(llmSource)) return undefined;
+  return process.env.OPENAI_API_KEY || undefined;
+}
+
+/**
+ * LLM calls classifying `claimCount` claims would make, for the quota pre-check
+ */
+export function classificationLlmCalls(claimCount: number, filter: CheckWorthinessFilter): number {
+  return filter !== 'none' && classifierKey(filter) ? claimCount : 0;
+}
+
+/**
+ * Classify each claim. With the 'llm' filter every claim costs one LLM call;
+ * `llmCalls` counts the calls made, for the client's quota. Without an OpenAI
+ * key the heuristic is used instead. Claims the LLM hasn't classified when
+ * `signal` aborts fall back to the heuristic.
+ */
+export async function classifyClaims(
+  claims: Claim[],
+  filter: Exclude<CheckWorthinessFilter, 'none'>,
+  signal?: AbortSignal
+): Promise<{ classifications: ClaimClassification[]; llmCalls: number }> {
+  const apiKey = classifierKey(filter);
+  if (!apiKey) {
+    if (filter === 'llm') console.log('[CheckWorthiness] No OpenAI API key, using the heuristic filter');
+    return { classifications: claims.map(c => classifyHeuristically(c.text)), llmCalls: 0 };
+  }
+
+  let llmCalls = 0;
+  const classifications = await Promise.all(claims.map(async (claim): Promise<ClaimClassification> => {
+    const { analysis, requested } = await analyzeClaimWithLLM(claim, apiKey, signal);
+    if (requested) llmCalls++;
+    if (!analysis || analysis.confidence < MIN_LLM_CONFIDENCE) {
+      return classifyHeuristically(claim.text);
+    }
+    return {
+      // A claim the model won't verify isn't factual, whatever type it gave
+      claimType: analysis.isVerifiableClaim ? analysis.claimType : analysis.claimType === 'factual' ? 'unknown' : analysis.claimType,
+      checkWorthy: analysis.isVerifiableClaim,
+      confidence: analysis.confidence,
+      reason: analysis.reasoning,
+      method: 'llm',
+    };
+  }));
+
+  return { classifications, llmCalls };
+}
+
+export function describeFiltered(claim: Claim, classification: ClaimClassification): FilteredClaim {
+  return {
+    claimId: claim.id,
+    claimType: classification.claimType,
+    reason: classification.reason,
+    method: classification.method,
+  };
+}
+
+/**
+ * The verdict returned for a claim that wasn't worth checking
+ */
+export function filteredVerification(claim: Claim, classification: ClaimClassification): Verification {
+  const { claimType } = classification;
+  const kind = claimType === 'unknown' ? 'not a factual claim' : `${/^[aeiou]/.test(claimType) ? 'an' : 'a'} ${claimType}`;
+  return {
+    claimId: claim.id,
+    rating: 'opinion',
+    confidence: Math.round(classification.confidence * 100) / 100,
+    summary: `Not fact-checked: this looks like ${kind}. ${classification.reason}`.trim(),
+    evidence: [],
+    checkedAt: new Date().toISOString(),
+    caveats: ['Skipped by the check-worthiness filter'],
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Searchable history of verified claims
+ *
+ * The verification cache forgets claims after CACHE_TTL; the history keeps
+ * the latest verification of every claim the sources were run for, with the
+ * pages it was seen on, so editors can see what has already been checked.
+ * Entries are keyed by the claim's cache key and identified by a hash of it.
+ * Clearing the cache doesn't clear the history.
+ *
+ * Configuration:
+ *   CLAIM_HISTORY_TTL=7776000   (seconds an entry is kept after its last check; 0 keeps entries forever)
+ */
+
+import crypto from 'crypto';
+import { Claim, Verification, ClaimHistoryEntry, ClaimSearchResult, Rating } from '../types';
+import { createStore } from './store';
+import { tokenizeClaim } from './similarityIndex';
+
+const CLAIM_HISTORY_TTL = parseInt(process.env.CLAIM_HISTORY_TTL || '7776000');
+
+// Origin URLs kept per claim
+const MAX_SOURCE_URLS = 20;
+
+const historyStore = createStore<ClaimHistoryEntry>('claim-history');
+
+export function getClaimId(cacheKey: string): string {
+  return crypto.createHash('sha256').update(cacheKey).digest('hex').slice(0, 16);
+}
+
+/**
+ * Record a fresh verification of a claim
+ */
+export async function recordClaimHistory(cacheKey: string, claim: Claim, verification: Verification): Promise<void> {
+  const existing = await historyStore.get(cacheKey);
+  const now = new Date().toISOString();
+
+  const sourceUrls = existing?.sourceUrls || [];
+  const entry: ClaimHistoryEntry = {
+    id: getClaimId(cacheKey),
+    claimText: claim.text,
+    verification,
+    sourceUrls: claim.sourceUrl
+      ? [claim.sourceUrl, ...sourceUrls.filter(u => u !== claim.sourceUrl)].slice(0, MAX_SOURCE_URLS)
+      : sourceUrls,
+    firstCheckedAt: existing?.firstCheckedAt || now,
+    lastCheckedAt: now,
+    checks: (existing?.checks || 0) + 1,
+  };
+
+  await historyStore.set(cacheKey, entry, CLAIM_HISTORY_TTL);
+}
+
+/**
+ * A history entry by claim id
+ */
+export async function getClaimHistoryEntry(id: string): Promise<ClaimHistoryEntry | undefined> {
+  for (const [, entry] of await historyStore.entries()) {
+    if (entry.id === id) return entry;
+  }
+  return undefined;
+}
+
+export interface ClaimSearchFilters {
+  /** Free-text query; every word must appear in the claim */
+  q?: string;
+  rating?: Rating;
+  /** A verification source that returned a result, e.g. "pubmed" */
+  source?: string;
+  /** Last checked at or after */
+  from?: string;
+  /** Last checked at or before */
+  to?: string;
+  /** Prefix of a page URL the claim was seen on */
+  url?: string;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * How well a claim matches the query tokens: 0 unless every token matches a
+ * claim token exactly or as a prefix; otherwise higher for exact matches and
+ * for shorter claims
+ */
+function relevance(queryTokens: Set<string>, claimTokens: Set<string>): number {
+  let score = 0;
+  for (const token of queryTokens) {
+    if (claimTokens.has(token)) {
+      score += 1;
+    } else if (Array.from(claimTokens).some(t => t.startsWith(token))) {
+      score += 0.5;
+    } else {
+      return 0;
+    }
+  }
+  return score / Math.max(claimTokens.size, queryTokens.size);
+}
+
+/**
+ * History entries matching the filters: by relevance when there is a query,
+ * newest first otherwise
+ */
+export async function searchClaimHistory(filters: ClaimSearchFilters): Promise<{ results: ClaimSearchResult[]; total: number }> {
+  const queryTokens = filters.q ? tokenizeClaim(filters.q) : new Set<string>();
+  const from = filters.from ? Date.parse(filters.from) : -Infinity;
+  const to = filters.to ? Date.parse(filters.to) : Infinity;
+
+  const matching: ClaimSearchResult[] = [];
+
+  for (const [, entry] of await historyStore.entries()) {
+    const { verification } = entry;
+    const checkedAt = Date.parse(entry.lastCheckedAt);
+
+    if (filters.rating && verification.rating !== filters.rating) continue;
+    if (checkedAt < from || checkedAt > to) continue;
+    if (filters.url && !entry.sourceUrls.some(u => u.startsWith(filters.url!))) continue;
+    if (filters.source && !verification.sourceVerdicts?.some(v => v.source === filters.source && v.status === 'ok')) continue;
+
+    if (queryTokens.size > 0) {
+      const score = relevance(queryTokens, tokenizeClaim(entry.claimText));
+      if (score === 0) continue;
+      matching.push({ ...entry, score: Math.round(score * 1000) / 1000 });
+    } else {
+      matching.push(entry);
+    }
+  }
+
+  matching.sort((a, b) => (b.score || 0) - (a.score || 0) || b.lastCheckedAt.localeCompare(a.lastCheckedAt));
+
+  return {
+    results: matching.slice(filters.offset, filters.offset + filters.limit),
+    total: matching.length,
+  };
+}
@@ -0,0 +1,388 @@
+/**
+ * Claim normalization between extraction and verification
+ *
+ * Extracted sentences often can't be checked on their own: "It rose 40% last
+ * year" needs its subject, and "X rose 40% and Y fell 5%" makes two claims
+ * that may have different verdicts. Each sentence is split into atomic claims
+ * at clause boundaries, clauses missing a subject borrow the previous
+ * clause's, and a leading pronoun is replaced by the entity it most likely
+ * refers to (from the sentence's own entities or the text before it).
+ *
+ * Atomic claims are verified in place of their sentence and keep a link back
+ * to it (parentId and the span they came from). Their verdicts are rolled up
+ * into one verification for the sentence, with the parts in `subClaims`, so
+ * responses still have one verification per extracted claim.
+ *
+ * Configuration:
+ *   CLAIM_NORMALIZATION=true   (false verifies extracted sentences as they are)
+ */
+
+import { Claim, AtomicClaim, SubClaimVerdict, Verification, Rating, Evidence, SourceVerdict, SourceVerdictStatus } from '../types';
+import { ExtractedClaim, Entity } from './nlpService';
+import { splitSentences, findEntities } from './builtinExtractor';
+import { verifyClaims, VerifyOptions, ClaimVerificationResult } from './verificationService';
+
+const NORMALIZATION_ENABLED = process.env.CLAIM_NORMALIZATION !== 'false';
+
+// How much text before a sentence is searched for a pronoun's antecedent
+const CONTEXT_CHARS = 600;
+const CONTEXT_SENTENCES = 2;
+
+// A subject borrowed from the previous clause is at most this many words
+const MAX_SUBJECT_WORDS = 8;
+
+// Clause boundaries: semicolons and coordinating conjunctions
+const CLAUSE_BOUNDARY = /\s*;\s*|,?\s+(?:and|but|while|whereas)\s+/g;
+
+// Words that make a clause finite; "-ed" forms are matched in lower case only
+const VERB_WORDS = /\b(?:is|are|was|were|be|been|has|have|had|will|would|can|could|did|does|do|shall|may|might|must|rose|fell|grew|won|lost|made|said|says|took|gave|became|reached|hit|cut|paid|spent|saw|led|left|found|built|sold|bought|ran|got|went|came|held|kept|met|began|told|owns|leads|holds|makes|costs|remains|accounts|represents|shows|rises|falls|grows|expects|plans|wants|employs|produces|controls|contains|includes|exceeds|kills|causes|reduces|increases)\b/i;
+const PAST_TENSE = /\b(?!hundred\b|united\b|need\b|speed\b|seed\b|feed\b|bed\b|red\b)[a-z]{2,}ed\b/;
+
+const LEADING_PRONOUN = /^(it|its|they|their|he|his|she|her)\b/i;
+const PERSON_PRONOUNS = new Set(['he', 'his', 'she', 'her']);
+const POSSESSIVE_PRONOUNS = new Set(['its', 'their', 'his', 'her']);
+
+// Entity labels that can't be what a pronoun refers to
+const NON_REFERENT_LABELS = new Set(['DATE', 'TIME', 'CARDINAL', 'ORDINAL', 'PERCENT', 'MONEY', 'QUANTITY']);
+
+// How true each rating is; unverified and opinion verdicts aren't checkable
+const TRUTH_VALUES: Partial<Record<Rating, number>> = {
+  verified: 1,
+  mostly_true: 0.75,
+  mixed: 0.5,
+  outdated: 0.5,
+  mostly_false: 0.25,
+  false: 0,
+};
+
+interface Clause {
+  text: string;
+  start: number;
+  end: number;
+}
+
+function hasVerb(text: string): boolean {
+  return VERB_WORDS.test(text) || PAST_TENSE.test(text);
+}
+
+/**
+ * Whether a piece of a sentence can stand as a clause: it has a verb, or
+ * opens with a subject pronoun ("it expects growth")
+ */
+function isClause(text: string): boolean {
+  return hasVerb(text) || /^(?:it|he|she|they|we)\s+\S/i.test(text);
+}
+
+function startsWithVerb(text: string): boolean {
+  const first = /^\S+/.exec(text)?.[0] || '';
+  return hasVerb(first) && first === first.toLowerCase();
+}
+
+/**
+ * The words before a clause's first verb, if they can stand as a subject
+ */
+function subjectOf(clause: string): string | null {
+  const words = clause.split(/\s+/);
+  const verbAt = words.findIndex(w => hasVerb(w));
+  if (verbAt < 1 || verbAt > MAX_SUBJECT_WORDS) return null;
+  return words.slice(0, verbAt).join(' ');
+}
+
+/**
+ * Whether position `index` is inside quotes or parentheses
+ */
+function isNested(text: string, index: number): boolean {
+  const before = text.slice(0, index);
+  const quotes = (before.match(/["“”]/g) || []).length;
+  const opened = (before.match(/[([]/g) || []).length - (before.match(/[)\]]/g) || []).length;
+  return quotes % 2 === 1 || opened > 0;
+}
+
+/**
+ * Split a sentence at the clause boundaries where both sides are clauses
+ * of their own (or the right side is a verb phrase sharing the subject)
+ */
+function splitClauses(sentence: string): Clause[] {
+  const trimmed = sentence.replace(/[.!]+["'”’)]*\s*$/, '');
+  const pieces: Clause[] = [];
+  let start = 0;
+
+  let match: RegExpExecArray | null;
+  CLAUSE_BOUNDARY.lastIndex = 0;
+  while ((match = CLAUSE_BOUNDARY.exec(trimmed)) !== null) {
+    if (isNested(trimmed, match.index)) continue;
+    pieces.push({ text: trimmed.slice(start, match.index), start, end: match.index });
+    start = match.index + match[0].length;
+  }
+  pieces.push({ text: trimmed.slice(start), start, end: trimmed.length });
+
+  // Rejoin pieces that aren't clauses, e.g. "between France and Germany"
+  const clauses: Clause[] = [];
+  for (const piece of pieces) {
+    const previous = clauses[clauses.length - 1];
+    if (previous && (!isClause(piece.text) || !isClause(previous.text))) {
+      previous.end = piece.end;
+      previous.text = sentence.slice(previous.start, previous.end);
+    } else {
+      clauses.push({ ...piece });
+    }
+  }
+  return clauses;
+}
+
+/**
+ * The nearest entity before a sentence that a pronoun could refer to
+ */
+function antecedentBefore(text: string, sentenceStart: number, person: boolean, entities: Entity[]): Entity | null {
+  const matches = (entity: Entity) => !NON_REFERENT_LABELS.has(entity.label) && (entity.label === 'PERSON') === person;
+
+  const context = splitSentences(text.slice(Math.max(0, sentenceStart - CONTEXT_CHARS), sentenceStart))
+    .slice(-CONTEXT_SENTENCES);
+  for (const sentence of context.reverse()) {
+    const found = findEntities(sentence.text).filter(matches);
+    if (found.length > 0) return found[0];
+  }
+
+  // Entities the extractor found in the sentence itself, when nothing precedes it
+  return entities.find(matches) || null;
+}
+
+function replacePronoun(clause: string, pronoun: string, referent: string): string {
+  return `${POSSESSIVE_PRONOUNS.has(pronoun.toLowerCase()) ? `${referent}'s` : referent}${clause.slice(pronoun.length)}`;
+}
+
+/**
+ * Atomic claims for an extracted sentence, or none when it can be verified
+ * as it is. `text` is the document the sentence was extracted from.
+ */
+export function normalizeClaim(claim: Claim, extracted: ExtractedClaim, text: string): AtomicClaim[] {
+  const clauses = splitClauses(claim.text);
+  const parts: string[] = [];
+  // Entities brought in from the text before the sentence
+  const referents: Entity[] = [];
+  let subject: string | null = null;
+
+  clauses.forEach((clause, i) => {
+    let part = clause.text.trim();
+    const pronoun = LEADING_PRONOUN.exec(part)?.[1];
+
+    if (i > 0 && startsWithVerb(part) && subject) {
+      part = `${subject} ${part}`;
+    } else if (pronoun) {
+      const person = PERSON_PRONOUNS.has(pronoun.toLowerCase());
+      // In a later clause the pronoun usually refers to the previous clause's subject
+      let referent = i > 0 && subject && !LEADING_PRONOUN.test(subject) ? subject : null;
+      if (!referent) {
+        const antecedent = antecedentBefore(text, extracted.char_start, person, extracted.entities);
+        if (antecedent) referents.push(antecedent);
+        referent = antecedent?.text || null;
+      }
+      if (referent) part = replacePronoun(part, pronoun, referent);
+    }
+
+    subject = subjectOf(part) || subject;
+    parts.push(part);
+  });
+
+  if (parts.length === 1 && parts[0] === claim.text.replace(/[.!]+["'”’)]*\s*$/, '').trim()) {
+    return [];
+  }
+
+  // Each part keeps the entities and keywords that appear in it
+  const entities = [...(claim.entities || []), ...referents]
+    .filter((entity, i, all) => all.findIndex(e => e.text === entity.text) === i);
+  return parts.map((part, i) => {
+    const lower = part.toLowerCase();
+    return {
+      id: `${claim.id}-${i + 1}`,
+      text: part,
+      context: claim.context,
+      sourceUrl: claim.sourceUrl,
+      ...(entities.length > 0 && { entities: entities.filter(e => lower.includes(e.text.toLowerCase())) }),
+      ...(claim.keywords && { keywords: claim.keywords.filter(k => lower.includes(k.toLowerCase())) }),
+      ...(claim.claimType && { claimType: claim.claimType }),
+      parentId: claim.id,
+      span: { start: clauses[i].start, end: clauses[i].end },
+    };
+  });
+}
+
+function ratingLabel(rating: Rating): string {
+  return rating.replace('_', ' ');
+}
+
+/**
+ * One rating for several: ratings that agree are kept; true and false make
+ * mixed; otherwise the least true decides
+ */
+function rollUpRating(ratings: Rating[]): Rating {
+  const checkable = ratings.filter(r => TRUTH_VALUES[r] !== undefined);
+  if (checkable.length === 0) {
+    return ratings.every(r => r === 'opinion') ? 'opinion' : 'unverified';
+  }
+
+  const truths = checkable.map(r => TRUTH_VALUES[r]!);
+  if (new Set(checkable).size === 1) return checkable[0];
+  if (Math.max(...truths) >= 0.75 && Math.min(...truths) <= 0.25) return 'mixed';
+  return checkable[truths.indexOf(Math.min(...truths))];
+}
+
+// Which status a source reports for a sentence when its parts differ
+const STATUS_ORDER: SourceVerdictStatus[] = ['ok', 'no_result', 'timeout', 'error', 'skipped'];
+
+/**
+ * One verdict per source for a sentence, from that source's verdicts on the
+ * parts. `evidenceIds` maps each part's evidence ids to the sentence's.
+ */
+function rollUpSourceVerdicts(
+  verifications: Verification[],
+  evidenceIds: Array<Map<string, string>>
+): SourceVerdict[] {
+  const bySource = new Map<string, SourceVerdict[]>();
+  verifications.forEach((v, part) => {
+    for (const verdict of v.sourceVerdicts || []) {
+      const ids = verdict.evidenceIds.flatMap(id => evidenceIds[part].get(id) ?? []);
+      bySource.set(verdict.source, [...(bySource.get(verdict.source) || []), { ...verdict, evidenceIds: ids }]);
+    }
+  });
+
+  return Array.from(bySource, ([source, verdicts]) => {
+    const status = STATUS_ORDER.find(s => verdicts.some(v => v.status === s)) || verdicts[0].status;
+    const rated = verdicts.filter(v => v.status === 'ok' && v.rating);
+    const reason = verdicts.find(v => v.status === status && v.reason)?.reason;
+    return {
+      source,
+      status,
+      ...(rated.length > 0 && {
+        rating: rollUpRating(rated.map(v => v.rating!)),
+        confidence: Math.min(...rated.map(v => v.confidence ?? 0)),
+      }),
+      // Parts are verified side by side
+      latencyMs: Math.max(...verdicts.map(v => v.latencyMs)),
+      evidenceIds: Array.from(new Set(verdicts.flatMap(v => v.evidenceIds))),
+      ...(status !== 'ok' && reason && { reason }),
+    };
+  });
+}
+
+/**
+ * One verification for a sentence from the verdicts on its atomic claims.
+ * Parts that agree keep their rating; true and false parts make the sentence
+ * mixed; otherwise the least true part decides. Evidence, source verdicts and
+ * conflicts are merged from the parts; a match is kept only for a sentence
+ * checked as a single (rewritten) part.
+ */
+export function rollUpVerdicts(parent: Claim, subClaims: SubClaimVerdict[]): Verification {
+  const verifications = subClaims.map(s => s.verification);
+  const checkable = verifications.filter(v => TRUTH_VALUES[v.rating] !== undefined);
+  const rating = rollUpRating(verifications.map(v => v.rating));
+
+  // Evidence is deduplicated by URL and renumbered per source, as the parts'
+  // ids (e.g. "google-1") repeat from part to part
+  const evidence: Evidence[] = [];
+  const evidenceIds = verifications.map(v => {
+    const ids = new Map<string, string>();
+    for (const { id, ...item } of v.evidence) {
+      let merged = evidence.find(e => e.url === item.url);
+      if (!merged) {
+        const source = id?.replace(/-\d+$/, '');
+        merged = source
+          ? { id: `${source}-${evidence.filter(e => e.id?.startsWith(`${source}-`)).length + 1}`, ...item }
+          : item;
+        evidence.push(merged);
+      }
+      if (id && merged.id) ids.set(id, merged.id);
+    }
+    return ids;
+  });
+
+  const sourceVerdicts = rollUpSourceVerdicts(verifications, evidenceIds);
+  const conflicts = verifications.flatMap(v => v.conflicts || [])
+    .filter((conflict, i, all) => all.findIndex(c => c.description === conflict.description) === i);
+  const caveats = Array.from(new Set(verifications.flatMap(v => v.caveats || [])));
+  const partial = verifications.some(v => v.status === 'partial');
+  const match = subClaims.length === 1 ? verifications[0].match : undefined;
+
+  return {
+    claimId: parent.id,
+    rating,
+    confidence: Math.min(...(checkable.length > 0 ? checkable : verifications).map(v => v.confidence)),
+    summary: subClaims.length === 1
+      ? verifications[0].summary
+      : `Checked as ${subClaims.length} separate claims: ` +
+        subClaims.map(s => `"${s.claim.text}" is ${ratingLabel(s.verification.rating)}`).join('; ') + '.',
+    evidence,
+    checkedAt: verifications.map(v => v.checkedAt).sort().pop()!,
+    ...(verifications.some(v => v.status) && { status: partial ? 'partial' as const : 'complete' as const }),
+    ...(caveats.length > 0 && { caveats }),
+    ...(conflicts.length > 0 && { conflicts }),
+    ...(sourceVerdicts.length > 0 && { sourceVerdicts }),
+    ...(match && { match }),
+    subClaims,
+  };
+}
+
+/**
+ * Verify extracted claims through their atomic claims. Results are indexed
+ * by the extracted claims, as from verifyClaims; onResult fires once per
+ * extracted claim, when all its parts are done. `atomicCount` is how many
+ * claims were actually verified.
+ */
+export async function verifyExtractedClaims(
+  text: string,
+  claims: Claim[],
+  nlpClaims: ExtractedClaim[],
+  options: VerifyOptions = {}
+): Promise<{ verifications: Verification[]; cachedCount: number; partialCount: number; atomicCount: number; sourceCalls: Record<string, number> }> {
+  const partsByClaim = claims.map((claim, i) =>
+    NORMALIZATION_ENABLED && nlpClaims[i] ? normalizeClaim(claim, nlpClaims[i], text) : []
+  );
+
+  // What actually gets verified: each claim's parts, or the claim itself
+  const toVerify: Claim[] = [];
+  const owners: number[] = [];
+  partsByClaim.forEach((parts, i) => {
+    for (const claim of parts.length > 0 ? parts : [claims[i]]) {
+      toVerify.push(claim);
+      owners.push(i);
+    }
+  });
+
+  const normalized = partsByClaim.filter(p => p.length > 0).length;
+  if (normalized > 0) {
+    console.log(`[Normalizer] ${normalized} of ${claims.length} claims normalized into ${toVerify.length - claims.length + normalized} atomic claims`);
+  }
+
+  const results: Array<ClaimVerificationResult | undefined> = new Array(toVerify.length);
+  const remaining = claims.map((_, i) => owners.filter(o => o === i).length);
+
+  const combine = (i: number): ClaimVerificationResult => {
+    const own = owners.flatMap((owner, index) => (owner === i ? [index] : []));
+    if (partsByClaim[i].length === 0) return results[own[0]]!;
+    return {
+      verification: rollUpVerdicts(claims[i], own.map((index, part) => ({
+        claim: partsByClaim[i][part],
+        verification: results[index]!.verification,
+      }))),
+      cached: own.every(index => results[index]!.cached),
+    };
+  };
+
+  const { sourceCalls } = await verifyClaims(toVerify, {
+    ...options,
+    onResult: (index, result) => {
+      results[index] = result;
+      const owner = owners[index];
+      if (--remaining[owner] === 0) options.onResult?.(owner, combine(owner));
+    },
+  });
+
+  const combined = claims.map((_, i) => combine(i));
+  return {
+    verifications: combined.map(r => r.verification),
+    cachedCount: combined.filter(r => r.cached).length,
+    partialCount: combined.filter(r => r.verification.status === 'partial').length,
+    atomicCount: toVerify.length,
+    sourceCalls,
+  };
+}
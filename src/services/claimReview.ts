@@ -0,0 +1,81 @@
+/**
+ * schema.org ClaimReview export
+ *
+ * Maps a claim's latest verification to ClaimReview JSON-LD for fact-check
+ * aggregators: our ratings become a 1-5 reviewRating (unverified, opinion and
+ * outdated have no place on that scale and carry only a name), the evidence
+ * becomes the claim's appearances and checkedAt the publication date.
+ *
+ * Configuration:
+ *   CLAIMREVIEW_PUBLISHER_NAME=LieDetector   (author of the reviews)
+ *   CLAIMREVIEW_PUBLISHER_URL=               (optional author URL)
+ */
+
+import { ClaimHistoryEntry, ClaimReview, Rating } from '../types';
+
+const PUBLISHER_NAME = process.env.CLAIMREVIEW_PUBLISHER_NAME || 'LieDetector';
+const PUBLISHER_URL = process.env.CLAIMREVIEW_PUBLISHER_URL;
+
+const BEST_RATING = 5;
+const WORST_RATING = 1;
+
+const RATING_VALUES: Partial<Record<Rating, number>> = {
+  verified: 5,
+  mostly_true: 4,
+  mixed: 3,
+  mostly_false: 2,
+  false: 1,
+};
+
+const RATING_NAMES: Record<Rating, string> = {
+  verified: 'True',
+  mostly_true: 'Mostly true',
+  mixed: 'Mixed',
+  mostly_false: 'Mostly false',
+  false: 'False',
+  unverified: 'Unverified',
+  opinion: 'Opinion',
+  outdated: 'Outdated',
+};
+
+/**
+ * Where a claim's review is published
+ */
+export function claimReviewUrl(baseUrl: string, id: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/api/claims/${id}/claimreview`;
+}
+
+export function toClaimReview(entry: ClaimHistoryEntry, baseUrl: string): ClaimReview {
+  const { verification } = entry;
+  const ratingValue = RATING_VALUES[verification.rating];
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'ClaimReview',
+    identifier: entry.id,
+    url: claimReviewUrl(baseUrl, entry.id),
+    claimReviewed: entry.claimText,
+    datePublished: verification.checkedAt,
+    author: {
+      '@type': 'Organization',
+      name: PUBLISHER_NAME,
+      ...(PUBLISHER_URL && { url: PUBLISHER_URL }),
+    },
+    reviewRating: {
+      '@type': 'Rating',
+      ...(ratingValue !== undefined && { ratingValue, bestRating: BEST_RATING, worstRating: WORST_RATING }),
+      alternateName: RATING_NAMES[verification.rating],
+      ...(verification.summary && { ratingExplanation: verification.summary }),
+    },
+    itemReviewed: {
+      '@type': 'Claim',
+      appearance: verification.evidence.map(evidence => ({
+        '@type': 'CreativeWork' as const,
+        url: evidence.url,
+        ...(evidence.quote && { text: evidence.quote }),
+        ...(evidence.datePublished && { datePublished: evidence.datePublished }),
+        publisher: { '@type': 'Organization' as const, name: evidence.sourceName },
+      })),
+    },
+  };
+}
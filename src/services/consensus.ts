@@ -0,0 +1,181 @@
+/**
+ * Evidence-weighted consensus across verification sources
+ *
+ * Each source's verdict is weighted by the source's reliability and the
+ * confidence it reported. Ratings on the true/false scale are averaged on a
+ * 0-1 axis; 'opinion' and 'outdated' are categorical and compete with the
+ * scale as a whole. Disagreement between sources lowers the combined
+ * confidence and is reported as conflicts so clients can show a verdict as
+ * contested.
+ */
+
+import { Rating, SourceConflict } from '../types';
+
+export interface WeightedVerdict {
+  source: string;
+  rating: Rating;
+  confidence: number;
+  /** 0-1 trust in the source, from VerificationSource.reliability */
+  reliability: number;
+}
+
+export interface ConsensusResult {
+  rating: Rating;
+  confidence: number;
+  /** 0-1, where 1 means every voting source agreed */
+  agreement: number;
+  /** Source whose verdict is closest to the consensus (used for the summary) */
+  primarySource: string | null;
+  conflicts: SourceConflict[];
+}
+
+// Position of each truth rating on a 0 (false) to 1 (verified) axis
+const RATING_SCORES: Partial<Record<Rating, number>> = {
+  verified: 1,
+  mostly_true: 0.75,
+  mixed: 0.5,
+  mostly_false: 0.25,
+  false: 0,
+};
+
+// Ratings that don't sit on the truth scale but still express a verdict
+const CATEGORICAL_RATINGS: Rating[] = ['opinion', 'outdated'];
+
+// Score gap at which two sources are considered to disagree
+const CONFLICT_THRESHOLD = 0.5;
+const MAJOR_CONFLICT_THRESHOLD = 0.75;
+
+/**
+ * Map a 0-1 score back to the nearest truth rating
+ */
+function scoreToRating(score: number): Rating {
+  let best: Rating = 'mixed';
+  let bestDistance = Infinity;
+  for (const [rating, value] of Object.entries(RATING_SCORES) as Array<[Rating, number]>) {
+    const distance = Math.abs(score - value);
+    if (distance < bestDistance) {
+      best = rating;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function weightOf(verdict: WeightedVerdict): number {
+  return Math.max(0, verdict.reliability) * Math.max(0, verdict.confidence);
+}
+
+/**
+ * Find pairs of sources whose verdicts disagree
+ */
+function findConflicts(voters: WeightedVerdict[]): SourceConflict[] {
+  const conflicts: SourceConflict[] = [];
+
+  for (let i = 0; i < voters.length; i++) {
+    for (let j = i + 1; j < voters.length; j++) {
+      const a = voters[i];
+      const b = voters[j];
+      if (a.rating === b.rating) continue;
+
+      const scoreA = RATING_SCORES[a.rating];
+      const scoreB = RATING_SCORES[b.rating];
+
+      let severity: SourceConflict['severity'] | null = null;
+      if (scoreA === undefined || scoreB === undefined) {
+        // One side says "opinion"/"outdated" while the other rates it
+        severity = 'major';
+      } else {
+        const gap = Math.abs(scoreA - scoreB);
+        if (gap >= MAJOR_CONFLICT_THRESHOLD) severity = 'major';
+        else if (gap >= CONFLICT_THRESHOLD) severity = 'moderate';
+      }
+
+      if (severity) {
+        conflicts.push({
+          sources: [a.source, b.source],
+          ratings: [a.rating, b.rating],
+          severity,
+          description: `${a.source} rated this claim '${a.rating}' but ${b.source} rated it '${b.rating}'`,
+        });
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Combine verdicts from several sources into a single rating
+ */
+export function computeConsensus(verdicts: WeightedVerdict[]): ConsensusResult {
+  // 'unverified' verdicts contribute evidence but not a vote
+  const voters = verdicts.filter(v => v.rating !== 'unverified' && weightOf(v) > 0);
+
+  if (voters.length === 0) {
+    const best = [...verdicts].sort((a, b) => b.confidence - a.confidence)[0];
+    return {
+      rating: 'unverified',
+      confidence: best ? best.confidence : 0.1,
+      agreement: 1,
+      primarySource: best ? best.source : null,
+      conflicts: [],
+    };
+  }
+
+  // Total weight behind the truth scale and behind each categorical rating
+  const groupWeights = new Map<string, number>();
+  for (const voter of voters) {
+    const group = CATEGORICAL_RATINGS.includes(voter.rating) ? voter.rating : 'scale';
+    groupWeights.set(group, (groupWeights.get(group) || 0) + weightOf(voter));
+  }
+
+  const totalWeight = Array.from(groupWeights.values()).reduce((sum, w) => sum + w, 0);
+  const [winningGroup, winningWeight] = Array.from(groupWeights.entries())
+    .sort((a, b) => b[1] - a[1])[0];
+
+  let rating: Rating;
+  let consensusScore: number | null = null;
+  let dispersion = 0;
+
+  if (winningGroup === 'scale') {
+    const scaleVoters = voters.filter(v => RATING_SCORES[v.rating] !== undefined);
+    consensusScore = scaleVoters.reduce(
+      (sum, v) => sum + RATING_SCORES[v.rating]! * weightOf(v), 0
+    ) / winningWeight;
+    rating = scoreToRating(consensusScore);
+
+    // Weighted mean absolute deviation from the consensus (0 to 0.5)
+    dispersion = scaleVoters.reduce(
+      (sum, v) => sum + Math.abs(RATING_SCORES[v.rating]! - consensusScore!) * weightOf(v), 0
+    ) / winningWeight;
+  } else {
+    rating = winningGroup as Rating;
+  }
+
+  // Share of weight behind the winning group, discounted by spread within it
+  const agreement = (winningWeight / totalWeight) * (1 - Math.min(1, dispersion * 2));
+
+  const averageConfidence = voters.reduce((sum, v) => sum + v.confidence * weightOf(v), 0) /
+    totalWeight;
+
+  // Full agreement keeps the sources' confidence; total disagreement halves it
+  const confidence = averageConfidence * (0.5 + 0.5 * agreement);
+
+  // The voter closest to the consensus (ties broken by weight) supplies the summary
+  const distanceTo = (v: WeightedVerdict): number => {
+    if (consensusScore === null) return v.rating === rating ? 0 : 1;
+    const score = RATING_SCORES[v.rating];
+    return score === undefined ? 1 : Math.abs(score - consensusScore);
+  };
+  const primary = [...voters].sort(
+    (a, b) => distanceTo(a) - distanceTo(b) || weightOf(b) - weightOf(a)
+  )[0];
+
+  return {
+    rating,
+    confidence,
+    agreement: Math.round(agreement * 100) / 100,
+    primarySource: primary.source,
+    conflicts: findConflicts(voters),
+  };
+}
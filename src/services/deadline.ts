@@ -0,0 +1,89 @@
+/**
+ * Deadline helpers for cancelling verification work
+ *
+ * A request's time budget becomes an AbortSignal that is handed to every
+ * source. Sources pass it to axios so outstanding HTTP calls are cancelled;
+ * the helpers here make waits (rate limiters, backoff sleeps) and sources
+ * that ignore the signal give up at the deadline too.
+ */
+
+export class DeadlineExceededError extends Error {
+  constructor(message = 'Verification deadline exceeded') {
+    super(message);
+    this.name = 'DeadlineExceededError';
+  }
+}
+
+/**
+ * Create a signal that aborts after `timeoutMs`, or when `parent` aborts.
+ * Call dispose() once the work is done to clear the timer.
+ */
+export function createDeadline(
+  timeoutMs?: number,
+  parent?: AbortSignal
+): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | null = null;
+
+  const onParentAbort = () => controller.abort(parent!.reason);
+
+  if (timeoutMs !== undefined && timeoutMs > 0) {
+    timer = setTimeout(() => controller.abort(new DeadlineExceededError()), timeoutMs);
+  }
+
+  if (parent) {
+    if (parent.aborted) onParentAbort();
+    else parent.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      if (timer) clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+}
+
+/**
+ * Reject with the signal's reason as soon as it aborts, even if `promise`
+ * is still pending
+ */
+export function raceWithSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Sleep that ends early (rejecting) if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(signal.reason);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
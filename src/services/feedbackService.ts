@@ -0,0 +1,187 @@
+/**
+ * User feedback on verdicts
+ *
+ * Extension users can report that a verdict is wrong by proposing a different
+ * rating. Reports are stored in the 'feedback' store and keyed to the
+ * verification they are about by its cache key; a per-claim summary counts
+ * reports and disputes (excluding rejected reports) so verifications can be
+ * flagged once enough users disagree with them. The summary is reset when the
+ * claim is verified again, so a fresh verdict doesn't inherit old disputes.
+ *
+ * Configuration:
+ *   DISPUTE_RATE_THRESHOLD=0.3   (share of reports that must propose another rating)
+ *   DISPUTE_MIN_REPORTS=3        (reports needed before a verdict can be flagged)
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Feedback, FeedbackRequest, FeedbackStatus, FeedbackSummary, Rating } from '../types';
+import { createStore } from './store';
+
+const DISPUTE_RATE_THRESHOLD = parseFloat(process.env.DISPUTE_RATE_THRESHOLD || '0.3');
+const DISPUTE_MIN_REPORTS = Math.max(1, parseInt(process.env.DISPUTE_MIN_REPORTS || '3') || 3);
+
+const feedbackStore = createStore<Feedback>('feedback');
+const summaryStore = createStore<FeedbackSummary>('feedback-summaries');
+
+// Summary updates are read-modify-write, so run them one at a time
+let summaryUpdates: Promise<unknown> = Promise.resolve();
+
+function updateSummary(claimKey: string, update: (summary: FeedbackSummary) => void): Promise<void> {
+  const run = summaryUpdates.then(async () => {
+    const summary = (await summaryStore.get(claimKey)) || { reports: 0, disputes: 0, reporters: [], updatedAt: '' };
+    update(summary);
+    summary.updatedAt = new Date().toISOString();
+    await summaryStore.set(claimKey, summary);
+  });
+  summaryUpdates = run.catch(() => {});
+  return run;
+}
+
+/**
+ * Start a fresh count for a claim whose verdict was just replaced, so reports
+ * on the old verdict don't flag the new one
+ */
+export function resetDisputes(claimKey: string): Promise<void> {
+  const run = summaryUpdates.then(async () => {
+    if (!(await summaryStore.get(claimKey))) return;
+    const now = new Date().toISOString();
+    await summaryStore.set(claimKey, { reports: 0, disputes: 0, reporters: [], since: now, updatedAt: now });
+  });
+  summaryUpdates = run.catch(() => {});
+  return run;
+}
+
+export class DuplicateFeedbackError extends Error {
+  constructor(readonly existingId?: string) {
+    super('Feedback for this claim was already submitted by this client');
+    this.name = 'DuplicateFeedbackError';
+  }
+}
+
+/**
+ * Store a report. Each client may report once per claim; a repeat throws
+ * DuplicateFeedbackError.
+ */
+export async function createFeedback(
+  request: FeedbackRequest,
+  claimKey: string,
+  submitter: { apiKeyId?: string; client?: string } = {}
+): Promise<Feedback> {
+  const feedback: Feedback = {
+    id: uuidv4(),
+    ...(request.claimId && { claimId: request.claimId }),
+    claimText: request.claimText,
+    claimKey,
+    shownRating: request.verification.rating,
+    ...(request.verification.confidence !== undefined && { shownConfidence: request.verification.confidence }),
+    ...(request.verification.checkedAt && { shownCheckedAt: request.verification.checkedAt }),
+    proposedRating: request.proposedRating,
+    disputed: request.proposedRating !== request.verification.rating,
+    ...(request.evidenceUrl && { evidenceUrl: request.evidenceUrl }),
+    ...(request.comment && { comment: request.comment }),
+    status: 'open',
+    ...(submitter.apiKeyId && { apiKeyId: submitter.apiKeyId }),
+    ...(submitter.client && { client: submitter.client }),
+    createdAt: new Date().toISOString(),
+  };
+
+  let duplicate = false;
+  await updateSummary(claimKey, summary => {
+    if (submitter.client && summary.reporters.includes(submitter.client)) {
+      duplicate = true;
+      return;
+    }
+    summary.reports++;
+    if (feedback.disputed) summary.disputes++;
+    if (submitter.client) summary.reporters.push(submitter.client);
+  });
+
+  if (duplicate) {
+    const existing = (await feedbackStore.entries()).find(
+      ([, f]) => f.claimKey === claimKey && f.client === submitter.client
+    );
+    throw new DuplicateFeedbackError(existing?.[0]);
+  }
+
+  await feedbackStore.set(feedback.id, feedback);
+  console.log(`[Feedback] ${feedback.disputed ? 'Dispute' : 'Confirmation'} for "${feedback.claimText.substring(0, 50)}..." (${feedback.shownRating} -> ${feedback.proposedRating})`);
+  return feedback;
+}
+
+export interface FeedbackFilters {
+  status?: FeedbackStatus;
+  /** Proposed rating */
+  rating?: Rating;
+  shownRating?: Rating;
+  disputed?: boolean;
+  claimId?: string;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Feedback matching the filters, newest first
+ */
+export async function listFeedback(filters: FeedbackFilters): Promise<{ feedback: Feedback[]; total: number }> {
+  const matching = (await feedbackStore.entries())
+    .map(([, f]) => f)
+    .filter(f =>
+      (!filters.status || f.status === filters.status) &&
+      (!filters.rating || f.proposedRating === filters.rating) &&
+      (!filters.shownRating || f.shownRating === filters.shownRating) &&
+      (filters.disputed === undefined || f.disputed === filters.disputed) &&
+      (!filters.claimId || f.claimId === filters.claimId)
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return {
+    feedback: matching.slice(filters.offset, filters.offset + filters.limit),
+    total: matching.length,
+  };
+}
+
+/**
+ * Record a reviewer's decision. Rejected reports stop counting towards the
+ * claim's dispute rate. Returns undefined if the feedback doesn't exist.
+ */
+export async function reviewFeedback(
+  id: string,
+  status: FeedbackStatus,
+  note?: string
+): Promise<Feedback | undefined> {
+  const feedback = await feedbackStore.get(id);
+  if (!feedback) return undefined;
+
+  const wasCounted = feedback.status !== 'rejected';
+  const isCounted = status !== 'rejected';
+
+  if (wasCounted !== isCounted) {
+    const delta = isCounted ? 1 : -1;
+    await updateSummary(feedback.claimKey, summary => {
+      // Reports on an earlier verdict were dropped from the count when it was replaced
+      if (summary.since && feedback.createdAt < summary.since) return;
+      summary.reports = Math.max(0, summary.reports + delta);
+      if (feedback.disputed) summary.disputes = Math.max(0, summary.disputes + delta);
+    });
+  }
+
+  const updated: Feedback = {
+    ...feedback,
+    status,
+    ...(note !== undefined && { reviewNote: note }),
+    reviewedAt: new Date().toISOString(),
+  };
+  await feedbackStore.set(id, updated);
+  return updated;
+}
+
+/**
+ * Caveat for a verdict enough users have disputed, or null
+ */
+export async function getDisputeCaveat(claimKey: string): Promise<string | null> {
+  const summary = await summaryStore.get(claimKey);
+  if (!summary || summary.reports < DISPUTE_MIN_REPORTS) return null;
+  if (summary.disputes / summary.reports < DISPUTE_RATE_THRESHOLD) return null;
+
+  return `Disputed by users: ${summary.disputes} of ${summary.reports} reports propose a different rating`;
+}
@@ -11,8 +11,13 @@ import {
   Rating, 
   Verification,
   GoogleFactCheckResponse,
+  GoogleFactCheckClaim,
   GoogleClaimReview
 } from '../types';
+import { VerificationSource, SourceCallOptions } from './sourceRegistry';
+import { acquireToken } from './rateLimiter';
+import { sleep } from './deadline';
+import { planQueries, recordQueryOutcome } from './queryPlanner';
 
 const GOOGLE_API_BASE = 'https://factchecktools.googleapis.com/v1alpha1';
 
@@ -21,13 +26,6 @@ const MAX_RETRIES = 3;
 const INITIAL_BACKOFF_MS = 1000; // 1 second
 const MAX_BACKOFF_MS = 10000; // 10 seconds
 
-/**
- * Sleep for a given number of milliseconds
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
 /**
  * Calculate exponential backoff with jitter
  */
@@ -105,109 +103,61 @@ function calculateConfidence(reviews: GoogleClaimReview[]): number {
 }
 
 /**
- * Search for fact-checks related to a claim with retry logic
+ * Query the Fact Check API with retry logic. Returns the matched claims
+ * (empty when nothing matched), or null when the API failed.
  */
-export async function searchFactChecks(
-  claim: Claim,
-  apiKey: string
-): Promise<Verification | null> {
-  if (!apiKey) {
-    console.warn('[GoogleFactCheck] No API key configured');
-    return null;
-  }
-  
-  console.log(`[GoogleFactCheck] Searching for: "${claim.text.substring(0, 100)}..."`);
+async function fetchFactChecks(
+  query: string,
+  apiKey: string,
+  options: SourceCallOptions & { maxAttempts: number }
+): Promise<GoogleFactCheckClaim[] | null> {
+  const { trace, signal, maxAttempts } = options;
   
   let lastError: Error | null = null;
   
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const startedAt = Date.now();
     try {
+      await acquireToken('google', signal);
       const response = await axios.get<GoogleFactCheckResponse>(
         `${GOOGLE_API_BASE}/claims:search`,
         {
           params: {
             key: apiKey,
-            query: claim.text,
+            query,
             languageCode: 'en',
           },
           timeout: 10000,
+          signal,
         }
       );
       
-      const { claims } = response.data;
-      
-      if (!claims || claims.length === 0) {
-        console.log(`[GoogleFactCheck] No fact-checks found for this claim`);
-        return null;
-      }
-    
-    console.log(`[GoogleFactCheck] Found ${claims.length} matching fact-checks!`);
-    
-    // Find the most relevant claim (first result is usually best match)
-    const topClaim = claims[0];
-    console.log(`[GoogleFactCheck] Top claim text: "${topClaim.text?.substring(0, 80)}..."`);
-    
-    const reviews = topClaim.claimReview || [];
-    console.log(`[GoogleFactCheck] Reviews count: ${reviews.length}`);
-    
-    if (reviews.length === 0) {
-      console.log(`[GoogleFactCheck] No reviews found for matched claim`);
-      return null;
-    }
-    
-    // Aggregate ratings from all reviews
-    const ratings = reviews.map(r => mapRating(r.textualRating));
-    
-    // Use the most common rating, or the first if all different
-    const ratingCounts = ratings.reduce((acc, r) => {
-      acc[r] = (acc[r] || 0) + 1;
-      return acc;
-    }, {} as Record<Rating, number>);
-    
-    const aggregateRating = Object.entries(ratingCounts)
-      .sort((a, b) => b[1] - a[1])[0][0] as Rating;
-    
-    // Build evidence from reviews
-    const evidence: Evidence[] = reviews.map(review => ({
-      url: review.url,
-      sourceName: review.publisher.name,
-      quote: review.title,
-      datePublished: review.reviewDate,
-      peerReviewed: false, // Fact-checkers aren't peer-reviewed in academic sense
-    }));
-    
-    // Generate summary
-    const primaryReview = reviews[0];
-    const summary = `${primaryReview.publisher.name} rated this claim as "${primaryReview.textualRating}". ` +
-      (reviews.length > 1 ? `${reviews.length} fact-checkers have reviewed this claim.` : '');
-    
-    const result = {
-      claimId: claim.id,
-      rating: aggregateRating,
-      confidence: calculateConfidence(reviews),
-      summary,
-      evidence,
-      checkedAt: new Date().toISOString(),
-    };
-    
-    console.log(`[GoogleFactCheck] SUCCESS! Returning verification: rating=${aggregateRating}, confidence=${result.confidence}`);
-    return result;
+      const claims = response.data.claims || [];
+      trace?.query('google', query, claims.length, Date.now() - startedAt);
+      return claims;
     } catch (error) {
       lastError = error as Error;
       
+      // Deadline passed: let the orchestrator record a timeout
+      if (signal?.aborted) {
+        throw error;
+      }
+      
       if (axios.isAxiosError(error)) {
         const status = error.response?.status;
         
         // Only retry on 503 (service unavailable) or 429 (rate limit)
-        if (status === 503 || status === 429) {
+        if ((status === 503 || status === 429) && attempt + 1 < maxAttempts) {
           const delay = getBackoffDelay(attempt);
-          console.warn(`[GoogleFactCheck] API error ${status}, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
-          await sleep(delay);
+          console.warn(`[GoogleFactCheck] API error ${status}, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${maxAttempts})`);
+          trace?.note(`HTTP ${status} on attempt ${attempt + 1}, retrying in ${Math.round(delay)}ms`);
+          await sleep(delay, signal);
           continue;
         }
         
-        // Don't retry on other errors (400, 401, 403, etc.)
+        // Don't retry on other errors (400, 401, 403, etc.) or once attempts run out
         console.error('[GoogleFactCheck] API error:', status, error.response?.data);
+        trace?.note(`HTTP ${status}, not retrying`);
         return null;
       }
       
@@ -217,6 +167,124 @@ export async function searchFactChecks(
   }
   
   // All retries exhausted
-  console.error(`[GoogleFactCheck] All ${MAX_RETRIES} retries exhausted`, lastError);
+  console.error(`[GoogleFactCheck] All ${maxAttempts} attempts exhausted`, lastError);
   return null;
 }
+
+/**
+ * Search for fact-checks related to a claim: a query planned from its
+ * entities and keywords first, then the claim text
+ */
+export async function searchFactChecks(
+  claim: Claim,
+  apiKey: string,
+  options: SourceCallOptions & { maxAttempts?: number } = {}
+): Promise<Verification | null> {
+  const { trace, signal, maxAttempts = MAX_RETRIES } = options;
+  
+  if (!apiKey) {
+    console.warn('[GoogleFactCheck] No API key configured');
+    return null;
+  }
+  
+  console.log(`[GoogleFactCheck] Searching for: "${claim.text.substring(0, 100)}..."`);
+  
+  let claims: GoogleFactCheckClaim[] = [];
+  for (const { query, strategy } of planQueries(claim, 'google', claim.text)) {
+    const found = await fetchFactChecks(query, apiKey, { trace, signal, maxAttempts });
+    if (found === null) {
+      return null;
+    }
+    recordQueryOutcome('google', strategy, found.length);
+    claims = found;
+    if (claims.length > 0) break;
+  }
+  
+  if (claims.length === 0) {
+    console.log(`[GoogleFactCheck] No fact-checks found for this claim`);
+    return null;
+  }
+  
+  console.log(`[GoogleFactCheck] Found ${claims.length} matching fact-checks!`);
+  
+  // Find the most relevant claim (first result is usually best match)
+  const topClaim = claims[0];
+  console.log(`[GoogleFactCheck] Top claim text: "${topClaim.text?.substring(0, 80)}..."`);
+  
+  const reviews = topClaim.claimReview || [];
+  console.log(`[GoogleFactCheck] Reviews count: ${reviews.length}`);
+  
+  trace?.note(`Top match: "${topClaim.text?.substring(0, 120)}" with ${reviews.length} review(s)`);
+  
+  if (reviews.length === 0) {
+    console.log(`[GoogleFactCheck] No reviews found for matched claim`);
+    return null;
+  }
+  
+  // Aggregate ratings from all reviews
+  const ratings = reviews.map(r => mapRating(r.textualRating));
+  
+  // Use the most common rating, or the first if all different
+  const ratingCounts = ratings.reduce((acc, r) => {
+    acc[r] = (acc[r] || 0) + 1;
+    return acc;
+  }, {} as Record<Rating, number>);
+  
+  const aggregateRating = Object.entries(ratingCounts)
+    .sort((a, b) => b[1] - a[1])[0][0] as Rating;
+  
+  trace?.note(`Review ratings: ${reviews.map(r => `${r.publisher.name}: "${r.textualRating}" -> ${mapRating(r.textualRating)}`).join('; ')}`);
+  
+  // Build evidence from reviews
+  const evidence: Evidence[] = reviews.map(review => ({
+    url: review.url,
+    sourceName: review.publisher.name,
+    quote: review.title,
+    datePublished: review.reviewDate,
+    peerReviewed: false, // Fact-checkers aren't peer-reviewed in academic sense
+  }));
+  
+  // Generate summary
+  const primaryReview = reviews[0];
+  const summary = `${primaryReview.publisher.name} rated this claim as "${primaryReview.textualRating}". ` +
+    (reviews.length > 1 ? `${reviews.length} fact-checkers have reviewed this claim.` : '');
+  
+  const result = {
+    claimId: claim.id,
+    rating: aggregateRating,
+    confidence: calculateConfidence(reviews),
+    summary,
+    evidence,
+    checkedAt: new Date().toISOString(),
+  };
+  
+  console.log(`[GoogleFactCheck] SUCCESS! Returning verification: rating=${aggregateRating}, confidence=${result.confidence}`);
+  return result;
+}
+
+/**
+ * Google Fact Check as a registered verification source.
+ * Only definitive ratings are reported; an 'unverified' match is treated as no result.
+ */
+export const googleFactCheckSource: VerificationSource = {
+  name: 'google',
+  priority: 10,
+  reliability: 0.95,
+  requiredConfig: ['GOOGLE_FACT_CHECK_API_KEY'],
+  canHandle: () => true,
+  async verify(claim, context) {
+    const result = await searchFactChecks(claim, context.config.GOOGLE_FACT_CHECK_API_KEY || '', {
+      trace: context.trace,
+      signal: context.signal,
+      maxAttempts: context.retries + 1,
+    });
+    if (result?.rating === 'unverified') {
+      context.trace.note('Fact-check ratings could not be mapped to a verdict, ignoring');
+    }
+    if (!result || result.rating === 'unverified') {
+      return null;
+    }
+    console.log(`[GoogleFactCheck] Found definitive fact-check`);
+    return result;
+  },
+};
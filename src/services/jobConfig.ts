@@ -0,0 +1,13 @@
+/**
+ * Job limits shared by the job runner and the request schemas, kept apart
+ * from jobService so loading the schemas doesn't start the job queue.
+ *
+ * Configuration:
+ *   JOB_MAX_CLAIMS=1000     (claims per job)
+ */
+
+const JOB_MAX_CLAIMS = Math.max(1, parseInt(process.env.JOB_MAX_CLAIMS || '1000') || 1000);
+
+export function getMaxJobClaims(): number {
+  return JOB_MAX_CLAIMS;
+}
@@ -0,0 +1,318 @@
+/**
+ * Asynchronous verification jobs
+ *
+ * Batches too large to verify within one HTTP request are submitted as jobs.
+ * An in-process queue feeds each job's claims through verifyClaims in chunks,
+ * saving the job to the 'jobs' store after every chunk. With the file store
+ * (STORE_BACKEND=file), queued and running jobs are resumed after a restart
+ * from the last saved chunk.
+ *
+ * When a job finishes, its optional callback URL is POSTed the result
+ * (see callbackTargets for the addresses a callback may reach).
+ * Claims and LLM calls are charged to the submitting client's daily quotas
+ * as each chunk finishes.
+ *
+ * Configuration:
+ *   JOB_CONCURRENCY=1       (jobs processed at once)
+ *   JOB_CHUNK_SIZE=50       (claims verified between saves)
+ *   JOB_MAX_CLAIMS=1000     (claims per job, see jobConfig)
+ *   JOB_TTL=604800          (seconds finished jobs are kept)
+ */
+
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { Claim, JobStatus, VerificationJob } from '../types';
+import { createStore } from './store';
+import { verifyClaims } from './verificationService';
+import { VerificationProfile, getProfile, withoutLlmFallback } from './profiles';
+import { sleep } from './deadline';
+import { recordUsage } from './quotas';
+import { llmSource } from './llmService';
+import { checkCallbackUrl, callbackAgents } from './callbackTargets';
+
+const JOB_CONCURRENCY = Math.max(1, parseInt(process.env.JOB_CONCURRENCY || '1') || 1);
+const JOB_CHUNK_SIZE = Math.max(1, parseInt(process.env.JOB_CHUNK_SIZE || '50') || 50);
+const JOB_TTL = parseInt(process.env.JOB_TTL || '604800');
+
+// Callback delivery: attempts and the delay before the first retry (doubled each time)
+const CALLBACK_ATTEMPTS = 3;
+const CALLBACK_RETRY_DELAY_MS = 2000;
+
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+const jobStore = createStore<VerificationJob>('jobs');
+
+// Job ids waiting to run, in submission order
+const queue: string[] = [];
+
+// Jobs currently running; GET reads these so progress is live between saves
+const active = new Map<string, { job: VerificationJob; controller: AbortController }>();
+
+// Jobs taken off the queue that are still being loaded, counted against
+// JOB_CONCURRENCY until they are in `active`
+let starting = 0;
+
+/**
+ * Save a job; finished jobs expire after JOB_TTL, active ones never do
+ */
+async function saveJob(job: VerificationJob): Promise<void> {
+  const ttl = FINISHED_STATUSES.includes(job.status) ? JOB_TTL : 0;
+  await jobStore.set(job.id, job, ttl);
+}
+
+/**
+ * Queue a new job
+ */
+export async function createJob(
+  claims: Claim[],
+  profile: VerificationProfile,
+  options: { url?: string; callbackUrl?: string; apiKeyId?: string; client?: string; withoutLlm?: boolean } = {}
+): Promise<VerificationJob> {
+  const job: VerificationJob = {
+    id: uuidv4(),
+    status: 'queued',
+    profile: profile.name,
+    ...(options.url && { url: options.url }),
+    claims,
+    progress: { total: claims.length, completed: 0, fromCache: 0, partial: 0 },
+    verifications: [],
+    ...(options.callbackUrl && {
+      callback: { url: options.callbackUrl, status: 'pending' as const, attempts: 0 },
+    }),
+    ...(options.apiKeyId && { apiKeyId: options.apiKeyId }),
+    ...(options.client && { client: options.client }),
+    ...(options.withoutLlm && { withoutLlm: true }),
+    createdAt: new Date().toISOString(),
+  };
+
+  await saveJob(job);
+  queue.push(job.id);
+  console.log(`[Jobs] Queued job ${job.id} with ${claims.length} claims (profile: ${profile.name})`);
+
+  processQueue();
+  return job;
+}
+
+/**
+ * Look up a job by id
+ */
+export async function getJob(id: string): Promise<VerificationJob | undefined> {
+  return active.get(id)?.job || jobStore.get(id);
+}
+
+/**
+ * Cancel a queued or running job and delete it. Returns the job as it was
+ * when cancelled, or undefined if it doesn't exist.
+ */
+export async function cancelJob(id: string): Promise<VerificationJob | undefined> {
+  const job = await getJob(id);
+  if (!job) return undefined;
+
+  const running = active.get(id);
+  if (running) {
+    running.controller.abort();
+    active.delete(id);
+  }
+
+  const queued = queue.indexOf(id);
+  if (queued !== -1) queue.splice(queued, 1);
+
+  await jobStore.delete(id);
+
+  if (!FINISHED_STATUSES.includes(job.status)) {
+    console.log(`[Jobs] Cancelled job ${id} at ${job.progress.completed}/${job.progress.total} claims`);
+    return { ...job, status: 'cancelled', finishedAt: new Date().toISOString() };
+  }
+
+  return job;
+}
+
+/**
+ * Start queued jobs while there is capacity
+ */
+function processQueue(): void {
+  while (active.size + starting < JOB_CONCURRENCY && queue.length > 0) {
+    const id = queue.shift()!;
+    starting++;
+    runJob(id).catch(error => console.error(`[Jobs] Job ${id} crashed:`, error));
+  }
+}
+
+/**
+ * Verify a job's remaining claims chunk by chunk, saving after each chunk
+ */
+async function runJob(id: string): Promise<void> {
+  let job: VerificationJob | undefined;
+  try {
+    job = await jobStore.get(id);
+  } finally {
+    starting--;
+  }
+  if (!job || FINISHED_STATUSES.includes(job.status) || active.has(id)) {
+    processQueue();
+    return;
+  }
+
+  const controller = new AbortController();
+  active.set(id, { job, controller });
+
+  try {
+    job.status = 'running';
+    job.startedAt = job.startedAt || new Date().toISOString();
+    await saveJob(job);
+
+    const configured = getProfile(job.profile);
+    if (!configured) {
+      throw new Error(`Profile "${job.profile}" no longer exists`);
+    }
+    const profile = job.withoutLlm ? withoutLlmFallback(configured) : configured;
+
+    for (let start = job.verifications.length; start < job.claims.length; start += JOB_CHUNK_SIZE) {
+      const chunk = job.claims.slice(start, start + JOB_CHUNK_SIZE);
+
+      const { verifications, sourceCalls } = await verifyClaims(chunk, {
+        profile,
+        signal: controller.signal,
+        onResult: (_index, result) => {
+          job.progress.completed++;
+          if (result.cached) job.progress.fromCache++;
+          if (result.verification.status === 'partial') job.progress.partial++;
+        },
+      });
+
+      // Cancelled jobs have already been deleted; don't save them back
+      if (controller.signal.aborted) return;
+
+      job.verifications.push(...verifications);
+      await saveJob(job);
+
+      if (job.client) {
+        await recordUsage(job.client, { claims: chunk.length, llmCalls: sourceCalls[llmSource.name] || 0 });
+      }
+    }
+
+    job.status = 'completed';
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    console.error(`[Jobs] Job ${id} failed:`, error);
+    job.status = 'failed';
+    job.error = error instanceof Error ? error.message : String(error);
+  } finally {
+    if (active.get(id)?.controller === controller) active.delete(id);
+    processQueue();
+  }
+
+  job.finishedAt = new Date().toISOString();
+  await saveJob(job);
+  console.log(`[Jobs] Job ${id} ${job.status}: ${job.progress.completed}/${job.progress.total} claims`);
+
+  if (job.callback) {
+    deliverCallback(job).catch(error => console.error(`[Jobs] Callback for job ${id} crashed:`, error));
+  }
+}
+
+/**
+ * Body POSTed to a job's callback URL
+ */
+function callbackPayload(job: VerificationJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    profile: job.profile,
+    url: job.url,
+    progress: job.progress,
+    verifications: job.verifications,
+    error: job.error,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+  };
+}
+
+/**
+ * POST the finished job to its callback URL, retrying with backoff
+ */
+async function deliverCallback(job: VerificationJob): Promise<void> {
+  const callback = job.callback!;
+
+  while (callback.attempts < CALLBACK_ATTEMPTS) {
+    callback.attempts++;
+
+    // Checked again in case JOB_CALLBACK_HOSTS changed since the job was queued
+    const refused = checkCallbackUrl(callback.url);
+    if (refused) {
+      callback.status = 'failed';
+      callback.lastError = refused;
+      console.warn(`[Jobs] Callback for job ${job.id} refused: ${refused}`);
+      break;
+    }
+
+    try {
+      await axios.post(callback.url, callbackPayload(job), {
+        headers: { 'Content-Type': 'application/json' },
+        timeout: 10000,
+        // A redirect could lead to an address the check would refuse
+        maxRedirects: 0,
+        ...callbackAgents,
+      });
+      callback.status = 'delivered';
+      callback.deliveredAt = new Date().toISOString();
+      delete callback.lastError;
+      console.log(`[Jobs] Delivered callback for job ${job.id}`);
+      break;
+    } catch (error) {
+      callback.lastError = axios.isAxiosError(error)
+        ? (error.response ? `HTTP ${error.response.status}` : error.message)
+        : String(error);
+      console.warn(`[Jobs] Callback for job ${job.id} failed (attempt ${callback.attempts}): ${callback.lastError}`);
+
+      if (callback.attempts < CALLBACK_ATTEMPTS) {
+        await sleep(CALLBACK_RETRY_DELAY_MS * Math.pow(2, callback.attempts - 1));
+      } else {
+        callback.status = 'failed';
+      }
+    }
+  }
+
+  // The job may have been deleted while the callback was being delivered
+  if (await jobStore.get(job.id)) {
+    await saveJob(job);
+  }
+}
+
+/**
+ * Re-queue jobs left unfinished by a previous run and retry undelivered
+ * callbacks. Only has an effect with a persistent store.
+ */
+export async function resumeJobs(): Promise<void> {
+  const unfinished: VerificationJob[] = [];
+
+  for (const [, job] of await jobStore.entries()) {
+    if (!FINISHED_STATUSES.includes(job.status)) {
+      unfinished.push(job);
+    } else if (job.callback?.status === 'pending') {
+      deliverCallback(job).catch(error => console.error(`[Jobs] Callback for job ${job.id} crashed:`, error));
+    }
+  }
+
+  if (unfinished.length === 0) return;
+
+  unfinished.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  for (const job of unfinished) {
+    // Counts from a chunk that was interrupted mid-way were never saved
+    job.status = 'queued';
+    job.progress.completed = job.verifications.length;
+    await saveJob(job);
+    queue.push(job.id);
+  }
+
+  console.log(`[Jobs] Resumed ${unfinished.length} unfinished jobs`);
+  processQueue();
+}
+
+/**
+ * Queue depth and running jobs (for health checks)
+ */
+export function getJobStats(): { queued: number; running: number; backend: string } {
+  return { queued: queue.length, running: active.size, backend: jobStore.backend };
+}
@@ -5,13 +5,15 @@
  */
 
 import axios from 'axios';
-import { Claim, Verification, Rating } from '../types';
+import { Claim, Verification, Rating, ClaimKind } from '../types';
+import { VerificationSource, SourceCallOptions } from './sourceRegistry';
+import { acquireToken } from './rateLimiter';
 
 const OPENAI_API_BASE = 'https://api.openai.com/v1';
 
 interface ClaimAnalysis {
   isVerifiableClaim: boolean;
-  claimType: 'factual' | 'opinion' | 'prediction' | 'question' | 'command' | 'unknown';
+  claimType: ClaimKind;
   confidence: number;
   reasoning: string;
   suggestedRating?: Rating;
@@ -20,16 +22,23 @@ interface ClaimAnalysis {
 
 /**
  * Analyze whether text represents a verifiable factual claim using LLM
+ * (used by the check-worthiness filter). Gives up, returning a null analysis,
+ * when `signal` aborts; `requested` says whether the API was called by then.
  */
 export async function analyzeClaimWithLLM(
   claim: Claim,
-  apiKey: string
-): Promise<ClaimAnalysis | null> {
+  apiKey: string,
+  signal?: AbortSignal
+): Promise<{ analysis: ClaimAnalysis | null; requested: boolean }> {
+  let requested = false;
   if (!apiKey) {
-    return null;
+    return { analysis: null, requested };
   }
   
   try {
+    await acquireToken('openai', signal);
+    if (signal?.aborted) throw new Error('Deadline reached before the request was sent');
+    requested = true;
     const response = await axios.post(
       `${OPENAI_API_BASE}/chat/completions`,
       {
@@ -67,23 +76,26 @@ Respond in JSON format:
           'Content-Type': 'application/json',
         },
         timeout: 10000,
+        signal,
       }
     );
     
     const content = response.data.choices[0]?.message?.content;
-    if (!content) return null;
+    if (!content) return { analysis: null, requested };
     
     const analysis = JSON.parse(content) as ClaimAnalysis;
     console.log(`[LLMFilter] Claim "${claim.text.substring(0, 50)}..." -> ${analysis.isVerifiableClaim ? 'VERIFIABLE' : 'NOT VERIFIABLE'} (${analysis.claimType}, ${analysis.confidence})`);
     
-    return analysis;
+    return { analysis, requested };
   } catch (error) {
-    if (axios.isAxiosError(error)) {
+    if (signal?.aborted) {
+      console.log(`[LLMFilter] Classification of "${claim.text.substring(0, 50)}..." cancelled at deadline`);
+    } else if (axios.isAxiosError(error)) {
       console.error('[LLMFilter] API error:', error.response?.status, error.response?.data?.error?.message);
     } else {
       console.error('[LLMFilter] Error:', error);
     }
-    return null;
+    return { analysis: null, requested };
   }
 }
 
@@ -93,13 +105,17 @@ Respond in JSON format:
  */
 export async function verifyClaimWithLLM(
   claim: Claim,
-  apiKey: string
+  apiKey: string,
+  options: SourceCallOptions = {}
 ): Promise<Verification | null> {
+  const { trace, signal } = options;
   if (!apiKey) {
     return null;
   }
   
+  const startedAt = Date.now();
   try {
+    await acquireToken('openai', signal);
     const response = await axios.post(
       `${OPENAI_API_BASE}/chat/completions`,
       {
@@ -138,13 +154,16 @@ Respond in JSON:
           'Content-Type': 'application/json',
         },
         timeout: 15000,
+        signal,
       }
     );
     
     const content = response.data.choices[0]?.message?.content;
+    trace?.query('openai:gpt-4o-mini', claim.text, content ? 1 : 0, Date.now() - startedAt);
     if (!content) return null;
     
     const result = JSON.parse(content);
+    trace?.note(`Model rated "${result.rating}" with confidence ${result.confidence}`);
     
     // Add caveat that this is AI-generated
     const caveats = result.caveats || [];
@@ -167,6 +186,7 @@ Respond in JSON:
       caveats,
     };
   } catch (error) {
+    if (signal?.aborted) throw error;
     if (axios.isAxiosError(error)) {
       console.error('[LLMVerify] API error:', error.response?.status, error.response?.data?.error?.message);
     } else {
@@ -177,36 +197,15 @@ Respond in JSON:
 }
 
 /**
- * Filter a batch of claims to only include verifiable ones
+ * The LLM as a registered verification source. Runs as a last resort, only
+ * when no other source produced a rating.
  */
-export async function filterVerifiableClaims(
-  claims: Claim[],
-  apiKey: string
-): Promise<Claim[]> {
-  if (!apiKey) {
-    console.log('[LLMFilter] No API key, skipping LLM filtering');
-    return claims;
-  }
-  
-  const verifiableClaims: Claim[] = [];
-  
-  for (const claim of claims) {
-    const analysis = await analyzeClaimWithLLM(claim, apiKey);
-    
-    if (!analysis) {
-      // If LLM fails, include the claim (fail open)
-      verifiableClaims.push(claim);
-      continue;
-    }
-    
-    if (analysis.isVerifiableClaim && analysis.confidence >= 0.6) {
-      verifiableClaims.push(claim);
-    }
-    
-    // Small delay between LLM calls
-    await new Promise(resolve => setTimeout(resolve, 100));
-  }
-  
-  console.log(`[LLMFilter] Filtered ${claims.length} claims to ${verifiableClaims.length} verifiable claims`);
-  return verifiableClaims;
-}
+export const llmSource: VerificationSource = {
+  name: 'llm',
+  priority: 100,
+  reliability: 0.5,
+  requiredConfig: ['OPENAI_API_KEY'],
+  fallback: true,
+  canHandle: () => true,
+  verify: (claim, context) => verifyClaimWithLLM(claim, context.config.OPENAI_API_KEY || '', context),
+};
@@ -6,6 +6,9 @@ import axios, { AxiosInstance } from 'axios';
 
 const NLP_SERVICE_URL = process.env.NLP_SERVICE_URL || 'http://localhost:3002';
 
+/** Claims extracted from a text when the request doesn't set maxClaims */
+export const DEFAULT_MAX_CLAIMS = 20;
+
 interface Entity {
   text: string;
   label: string;
@@ -50,7 +53,7 @@ class NlpServiceClient {
     
     // Check availability on startup
     this.checkHealth().catch(() => {
-      console.log('[NLP Service] Not available, will use fallback pattern matching');
+      console.log('[NLP Service] Not available, will use the built-in extractor');
     });
   }
   
@@ -75,7 +78,7 @@ class NlpServiceClient {
   async extractClaims(
     text: string, 
     url?: string, 
-    maxClaims: number = 20
+    maxClaims: number = DEFAULT_MAX_CLAIMS
   ): Promise<ExtractedClaim[] | null> {
     // Check if service is available
     if (!this.isAvailable) {
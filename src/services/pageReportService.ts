@@ -0,0 +1,237 @@
+/**
+ * Page credibility reports
+ *
+ * A report judges a whole article from its claim verdicts: each checkable
+ * claim (anything but unverified or opinion) contributes its rating's truth
+ * value, weighted by the verdict's confidence times the NLP extraction
+ * confidence, to a 0-100 score. Reports note how many claims were false or
+ * misleading and how much of the article could be checked at all.
+ *
+ * Reports are stored per normalized URL together with the response they were
+ * built from, so a repeat visit with the same text is answered instantly.
+ *
+ * Configuration:
+ *   PAGE_REPORT_TTL=86400   (seconds a report is kept)
+ */
+
+import crypto from 'crypto';
+import {
+  Claim, Verification, NlpClaimDetail, Rating, PageReport, PageReportClaim, PageCredibility, StoredPageReport,
+  CheckWorthinessFilter,
+} from '../types';
+import { createStore } from './store';
+import { DEFAULT_MAX_CLAIMS } from './nlpService';
+
+const PAGE_REPORT_TTL = parseInt(process.env.PAGE_REPORT_TTL || '86400');
+
+const reportStore = createStore<StoredPageReport>('page-reports');
+
+// How true each rating is; unverified and opinion verdicts aren't checkable
+const TRUTH_VALUES: Partial<Record<Rating, number>> = {
+  verified: 1,
+  mostly_true: 0.75,
+  mixed: 0.5,
+  outdated: 0.5,
+  mostly_false: 0.25,
+  false: 0,
+};
+
+const RATINGS: Rating[] = ['verified', 'mostly_true', 'mixed', 'mostly_false', 'false', 'unverified', 'opinion', 'outdated'];
+
+// Query parameters that don't change the page
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|ref|ref_src)$/i;
+
+// Below this share of checkable claims the explanation warns about coverage
+const LOW_COVERAGE = 0.3;
+
+/**
+ * The URL a page's report is stored under: no fragment, tracking parameters
+ * or trailing slash, and sorted query parameters
+ */
+export function normalizePageUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    parsed.hash = '';
+    for (const key of Array.from(parsed.searchParams.keys())) {
+      if (TRACKING_PARAMS.test(key)) parsed.searchParams.delete(key);
+    }
+    parsed.searchParams.sort();
+    if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+      parsed.pathname = parsed.pathname.slice(0, -1);
+    }
+    return parsed.toString();
+  } catch {
+    return url.trim();
+  }
+}
+
+export function hashContent(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+function credibilityFor(score: number | null): PageCredibility {
+  if (score === null) return 'insufficient';
+  if (score >= 75) return 'reliable';
+  if (score >= 45) return 'mixed';
+  return 'unreliable';
+}
+
+function percent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+function countPhrase(count: number, singular: string): string {
+  return `${count} ${count === 1 ? singular : `${singular}s`}`;
+}
+
+function explain(report: Omit<PageReport, 'explanation'>): string {
+  if (report.totalClaims === 0) {
+    return 'No claims were found on this page.';
+  }
+  if (report.score === null) {
+    return `None of the ${countPhrase(report.totalClaims, 'claim')} on this page could be checked.`;
+  }
+
+  const parts = [
+    `${report.checkableClaims} of ${countPhrase(report.totalClaims, 'claim')} could be checked, ` +
+    `covering ${percent(report.coverage.text)} of the article text.`,
+  ];
+
+  const trueCount = report.ratings.verified + report.ratings.mostly_true;
+  const findings = [
+    report.falseOrMisleading > 0 && `${report.falseOrMisleading} ${report.falseOrMisleading === 1 ? 'is' : 'are'} false or mostly false`,
+    trueCount > 0 && `${trueCount} ${trueCount === 1 ? 'is' : 'are'} true or mostly true`,
+    report.ratings.mixed > 0 && `${report.ratings.mixed} ${report.ratings.mixed === 1 ? 'is' : 'are'} mixed`,
+    report.ratings.outdated > 0 && `${report.ratings.outdated} ${report.ratings.outdated === 1 ? 'is' : 'are'} outdated`,
+  ].filter(Boolean);
+  if (findings.length > 0) {
+    const sentence = findings.join(', ');
+    parts.push(`${sentence[0].toUpperCase()}${sentence.slice(1)}.`);
+  }
+
+  parts.push(`Weighted by confidence, the checked claims score ${report.score}/100 (${report.credibility}).`);
+
+  if (report.coverage.claims < LOW_COVERAGE) {
+    parts.push('Most of the page could not be checked, so treat the score with caution.');
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Aggregate a page's claim verdicts into a report. `nlpDetails` are matched
+ * to claims by position; their confidences and offsets are optional.
+ */
+export function buildPageReport(input: {
+  url?: string;
+  text: string;
+  profile: string;
+  claims: Claim[];
+  verifications: Verification[];
+  nlpDetails?: NlpClaimDetail[];
+}): PageReport {
+  const { text, claims, verifications, nlpDetails = [] } = input;
+
+  const ratings = Object.fromEntries(RATINGS.map(r => [r, 0])) as Record<Rating, number>;
+  const reportClaims: PageReportClaim[] = [];
+  let weightedTruth = 0;
+  let totalWeight = 0;
+  let checkedChars = 0;
+
+  verifications.forEach((verification, i) => {
+    const detail = nlpDetails[i];
+    const truth = TRUTH_VALUES[verification.rating];
+    const checkable = truth !== undefined;
+    const nlpConfidence = detail?.confidence ?? 1;
+    const weight = checkable ? verification.confidence * nlpConfidence : 0;
+
+    ratings[verification.rating]++;
+    if (checkable) {
+      weightedTruth += weight * truth;
+      totalWeight += weight;
+      checkedChars += detail?.charStart !== undefined && detail.charEnd !== undefined
+        ? detail.charEnd - detail.charStart
+        : (claims[i]?.text.length || 0);
+    }
+
+    reportClaims.push({
+      claimId: verification.claimId,
+      text: claims[i]?.text || '',
+      rating: verification.rating,
+      confidence: verification.confidence,
+      nlpConfidence,
+      weight: Math.round(weight * 1000) / 1000,
+      checkable,
+    });
+  });
+
+  const checkableClaims = reportClaims.filter(c => c.checkable).length;
+  const score = totalWeight > 0 ? Math.round((weightedTruth / totalWeight) * 100) : null;
+
+  const report: Omit<PageReport, 'explanation'> = {
+    ...(input.url && { url: normalizePageUrl(input.url) }),
+    score,
+    credibility: credibilityFor(score),
+    totalClaims: verifications.length,
+    checkableClaims,
+    falseOrMisleading: ratings.false + ratings.mostly_false,
+    ratings,
+    coverage: {
+      claims: verifications.length > 0 ? checkableClaims / verifications.length : 0,
+      text: text.length > 0 ? Math.min(1, checkedChars / text.length) : 0,
+    },
+    claims: reportClaims,
+    profile: input.profile,
+    contentHash: hashContent(text),
+    generatedAt: new Date().toISOString(),
+  };
+
+  return { ...report, explanation: explain(report) };
+}
+
+function reportKey(url: string): string {
+  return `page:${normalizePageUrl(url)}`;
+}
+
+/**
+ * The stored report for a page, if any
+ */
+export async function getPageReport(url: string): Promise<StoredPageReport | undefined> {
+  return reportStore.get(reportKey(url));
+}
+
+/**
+ * The stored report for a page, if it was built from the same text with the
+ * same profile, check-worthiness filter and claim limit
+ */
+export async function findPageReport(
+  url: string,
+  text: string,
+  profile: string,
+  filter: CheckWorthinessFilter = 'none',
+  maxClaims: number = DEFAULT_MAX_CLAIMS
+): Promise<StoredPageReport | undefined> {
+  const stored = await getPageReport(url);
+  if (
+    !stored ||
+    stored.report.profile !== profile ||
+    (stored.filter || 'none') !== filter ||
+    (stored.maxClaims || DEFAULT_MAX_CLAIMS) !== maxClaims ||
+    stored.report.contentHash !== hashContent(text)
+  ) {
+    return undefined;
+  }
+  return stored;
+}
+
+/**
+ * Store a report under its URL, replacing any earlier one for the page
+ */
+export async function savePageReport(entry: StoredPageReport): Promise<void> {
+  if (!entry.report.url) return;
+  await reportStore.set(reportKey(entry.report.url), entry, PAGE_REPORT_TTL);
+}
+
+export async function clearPageReports(): Promise<void> {
+  await reportStore.clear();
+}
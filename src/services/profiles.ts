@@ -0,0 +1,135 @@
+/**
+ * Verification Profiles
+ *
+ * A profile controls how much work a verification request may do: which
+ * sources run, whether the LLM fallback is allowed, how often upstream calls
+ * are retried and whether only cached answers are acceptable.
+ *
+ * Built-in profiles can be overridden and new ones added with a JSON file:
+ *   VERIFICATION_PROFILES_PATH=./profiles.json   (array of profiles)
+ *   DEFAULT_VERIFICATION_PROFILE=standard
+ */
+
+import fs from 'fs';
+
+export interface VerificationProfile {
+  name: string;
+  description: string;
+  /** Sources allowed to run; omit to allow every enabled source */
+  sources?: string[];
+  /** Whether fallback sources (the LLM) may run */
+  allowLlmFallback: boolean;
+  /** Run fallback sources even when earlier sources already produced a rating */
+  alwaysRunFallback?: boolean;
+  /** Retries after the first attempt, for sources that retry (Google Fact Check) */
+  retries: number;
+  /** Answer from the cache only, never calling upstream sources */
+  cacheOnly: boolean;
+}
+
+const BUILT_IN_PROFILES: VerificationProfile[] = [
+  {
+    name: 'standard',
+    description: 'All enabled sources, with the LLM as a fallback when nothing else rates the claim',
+    allowLlmFallback: true,
+    retries: 2,
+    cacheOnly: false,
+  },
+  {
+    name: 'fast',
+    description: 'Quick answers for hover previews: Google Fact Check and Wikipedia only, no retries or LLM',
+    sources: ['google', 'wikipedia'],
+    allowLlmFallback: false,
+    retries: 0,
+    cacheOnly: false,
+  },
+  {
+    name: 'thorough',
+    description: 'Every enabled source including the LLM, even when other sources already rated the claim',
+    allowLlmFallback: true,
+    alwaysRunFallback: true,
+    retries: 3,
+    cacheOnly: false,
+  },
+  {
+    name: 'offline',
+    description: 'Previously verified claims only; never calls upstream sources',
+    allowLlmFallback: false,
+    retries: 0,
+    cacheOnly: true,
+  },
+];
+
+let profiles: Map<string, VerificationProfile> | null = null;
+
+/**
+ * Validate a profile loaded from the config file
+ */
+function isValidProfile(value: unknown): value is VerificationProfile {
+  if (typeof value !== 'object' || value === null) return false;
+  const profile = value as Record<string, unknown>;
+  return typeof profile.name === 'string' && profile.name.length > 0 &&
+    typeof profile.allowLlmFallback === 'boolean' &&
+    typeof profile.cacheOnly === 'boolean' &&
+    typeof profile.retries === 'number' && profile.retries >= 0 &&
+    (profile.sources === undefined || (Array.isArray(profile.sources) && profile.sources.every(s => typeof s === 'string')));
+}
+
+/**
+ * Load built-in profiles plus any from VERIFICATION_PROFILES_PATH
+ */
+function loadProfiles(): Map<string, VerificationProfile> {
+  const loaded = new Map(BUILT_IN_PROFILES.map(p => [p.name, p]));
+  const configPath = process.env.VERIFICATION_PROFILES_PATH;
+
+  if (configPath) {
+    try {
+      const configured = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+      for (const profile of Array.isArray(configured) ? configured : []) {
+        if (isValidProfile(profile)) {
+          loaded.set(profile.name, { ...profile, description: profile.description || '' });
+        } else {
+          console.warn(`[Profiles] Ignoring invalid profile in ${configPath}:`, profile?.name);
+        }
+      }
+      console.log(`[Profiles] Loaded profiles from ${configPath}`);
+    } catch (error) {
+      console.error(`[Profiles] Failed to read ${configPath}:`, error);
+    }
+  }
+
+  return loaded;
+}
+
+/**
+ * All available profiles
+ */
+export function listProfiles(): VerificationProfile[] {
+  if (!profiles) profiles = loadProfiles();
+  return Array.from(profiles.values());
+}
+
+/**
+ * Look up a profile by name, or the default profile when no name is given.
+ * Returns null for unknown names.
+ */
+export function getProfile(name?: string): VerificationProfile | null {
+  if (!profiles) profiles = loadProfiles();
+  const key = name || getDefaultProfileName();
+  return profiles.get(key) || (name ? null : BUILT_IN_PROFILES[0]);
+}
+
+/**
+ * A copy of a profile that never runs fallback sources, for clients whose
+ * daily LLM quota is used up
+ */
+export function withoutLlmFallback(profile: VerificationProfile): VerificationProfile {
+  return { ...profile, allowLlmFallback: false, alwaysRunFallback: false };
+}
+
+/**
+ * Name of the profile used when a request doesn't choose one
+ */
+export function getDefaultProfileName(): string {
+  return process.env.DEFAULT_VERIFICATION_PROFILE || 'standard';
+}
@@ -10,6 +10,9 @@
 
 import axios from 'axios';
 import { Claim, Verification, Evidence } from '../types';
+import { VerificationSource, SourceCallOptions } from './sourceRegistry';
+import { acquireToken } from './rateLimiter';
+import { planQueries, recordQueryOutcome } from './queryPlanner';
 
 const PUBMED_SEARCH_URL = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esearch.fcgi';
 const PUBMED_FETCH_URL = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils/efetch.fcgi';
@@ -26,49 +29,7 @@ interface PubMedArticle {
 }
 
 /**
- * Detect if a claim is health/medical related
- */
-export function isHealthClaim(claimText: string): boolean {
-  const healthKeywords = [
-    // Medical conditions
-    'cancer', 'diabetes', 'heart disease', 'stroke', 'alzheimer', 'dementia',
-    'depression', 'anxiety', 'obesity', 'hypertension', 'arthritis', 'asthma',
-    'covid', 'coronavirus', 'flu', 'influenza', 'vaccine', 'vaccination',
-    
-    // Treatments
-    'treatment', 'therapy', 'medication', 'drug', 'medicine', 'cure',
-    'antibiotic', 'supplement', 'vitamin', 'remedy', 'surgery',
-    
-    // Health behaviors
-    'diet', 'exercise', 'sleep', 'smoking', 'alcohol', 'caffeine',
-    'nutrition', 'calorie', 'protein', 'carbohydrate', 'fat',
-    
-    // Body parts/systems
-    'brain', 'heart', 'liver', 'kidney', 'lung', 'immune system',
-    'blood pressure', 'cholesterol', 'blood sugar', 'metabolism',
-    
-    // Research terms
-    'study', 'studies', 'research', 'clinical trial', 'trial', 'trials',
-    'experiment', 'experiments', 'survey', 'analysis', 'meta-analysis',
-    'findings', 'evidence', 'data', 'statistics', 'statistically',
-    'peer-reviewed', 'journal', 'publication', 'published', 'paper',
-    'concluded', 'found that', 'shows that', 'suggests that', 'proves',
-    'according to', 'scientists say', 'researchers found', 'experts',
-    'university', 'institute', 'laboratory', 'lab',
-    'sample', 'participants', 'subjects', 'patients', 'symptoms',
-    'percent', 'percentage', 'randomized', 'controlled', 'double-blind', 'placebo',
-    'risk', 'cause', 'prevent', 'reduce', 'increase', 'improve',
-    
-    // Medical professionals
-    'doctor', 'physician', 'scientist', 'researcher', 'medical',
-  ];
-  
-  const lowerText = claimText.toLowerCase();
-  return healthKeywords.some(keyword => lowerText.includes(keyword));
-}
-
-/**
- * Extract medical search terms from claim
+ * Medical search terms from the claim text, for claims without keywords
  */
 function extractMedicalTerms(claimText: string): string {
   // Remove common claim phrases
@@ -90,7 +51,7 @@ function extractMedicalTerms(claimText: string): string {
 /**
  * Search PubMed for relevant articles
  */
-async function searchPubMed(query: string, apiKey?: string): Promise<string[]> {
+async function searchPubMed(query: string, apiKey?: string, signal?: AbortSignal): Promise<string[]> {
   try {
     const params: Record<string, string> = {
       db: 'pubmed',
@@ -104,14 +65,17 @@ async function searchPubMed(query: string, apiKey?: string): Promise<string[]> {
       params.api_key = apiKey;
     }
     
+    await acquireToken('pubmed', signal);
     const response = await axios.get(PUBMED_SEARCH_URL, {
       params,
       timeout: 15000,
+      signal,
     });
     
     const idList = response.data?.esearchresult?.idlist;
     return idList || [];
   } catch (error) {
+    if (signal?.aborted) throw error;
     console.error('[PubMedService] Search error:', error);
     return [];
   }
@@ -120,7 +84,11 @@ async function searchPubMed(query: string, apiKey?: string): Promise<string[]> {
 /**
  * Get article summaries from PubMed IDs
  */
-async function getArticleSummaries(ids: string[], apiKey?: string): Promise<PubMedArticle[]> {
+async function getArticleSummaries(
+  ids: string[],
+  apiKey?: string,
+  signal?: AbortSignal
+): Promise<PubMedArticle[]> {
   if (ids.length === 0) return [];
   
   try {
@@ -134,9 +102,11 @@ async function getArticleSummaries(ids: string[], apiKey?: string): Promise<PubM
       params.api_key = apiKey;
     }
     
+    await acquireToken('pubmed', signal);
     const response = await axios.get(PUBMED_SUMMARY_URL, {
       params,
       timeout: 15000,
+      signal,
     });
     
     const result = response.data?.result;
@@ -157,6 +127,7 @@ async function getArticleSummaries(ids: string[], apiKey?: string): Promise<PubM
       };
     }).filter(Boolean) as PubMedArticle[];
   } catch (error) {
+    if (signal?.aborted) throw error;
     console.error('[PubMedService] Summary fetch error:', error);
     return [];
   }
@@ -169,6 +140,7 @@ function analyzeArticleRelevance(claimText: string, articles: PubMedArticle[]):
   supportingCount: number;
   contradictingCount: number;
   relevantArticles: PubMedArticle[];
+  scores: Array<{ article: PubMedArticle; overlap: string[]; stance: 'supporting' | 'contradicting' | 'neutral' | null }>;
 } {
   const claimLower = claimText.toLowerCase();
   
@@ -180,6 +152,7 @@ function analyzeArticleRelevance(claimText: string, articles: PubMedArticle[]):
   let supportingCount = 0;
   let contradictingCount = 0;
   const relevantArticles: PubMedArticle[] = [];
+  const scores: ReturnType<typeof analyzeArticleRelevance>['scores'] = [];
   
   for (const article of articles) {
     const titleLower = article.title.toLowerCase();
@@ -196,38 +169,53 @@ function analyzeArticleRelevance(claimText: string, articles: PubMedArticle[]):
       const hasSupport = supportTerms.some(t => titleLower.includes(t));
       const hasContradict = contradictTerms.some(t => titleLower.includes(t));
       
-      if (hasSupport && !hasContradict) supportingCount++;
-      else if (hasContradict && !hasSupport) contradictingCount++;
+      if (hasSupport && !hasContradict) {
+        supportingCount++;
+        scores.push({ article, overlap, stance: 'supporting' });
+      } else if (hasContradict && !hasSupport) {
+        contradictingCount++;
+        scores.push({ article, overlap, stance: 'contradicting' });
+      } else {
+        scores.push({ article, overlap, stance: 'neutral' });
+      }
+    } else {
+      scores.push({ article, overlap, stance: null });
     }
   }
   
-  return { supportingCount, contradictingCount, relevantArticles };
+  return { supportingCount, contradictingCount, relevantArticles, scores };
 }
 
 /**
  * Verify a health claim using PubMed
  */
-export async function verifyWithPubMed(claim: Claim, apiKey?: string): Promise<Verification | null> {
-  // Only process health-related claims
-  if (!isHealthClaim(claim.text)) {
-    console.log('[PubMedService] Not a health claim, skipping');
-    return null;
-  }
+export async function verifyWithPubMed(
+  claim: Claim,
+  apiKey?: string,
+  options: SourceCallOptions = {}
+): Promise<Verification | null> {
+  const { trace, signal } = options;
   
   console.log(`[PubMedService] Checking health claim: "${claim.text.substring(0, 60)}..."`);
   
-  const searchQuery = extractMedicalTerms(claim.text);
-  const articleIds = await searchPubMed(searchQuery, apiKey);
+  // A conjunction of the claim's keywords first, then the text
+  let articleIds: string[] = [];
+  for (const { query, strategy } of planQueries(claim, 'pubmed', extractMedicalTerms(claim.text))) {
+    const startedAt = Date.now();
+    articleIds = await searchPubMed(query, apiKey, signal);
+    trace?.query('pubmed:esearch', query, articleIds.length, Date.now() - startedAt);
+    recordQueryOutcome('pubmed', strategy, articleIds.length);
+    if (articleIds.length > 0) break;
+  }
   
   if (articleIds.length === 0) {
     console.log('[PubMedService] No PubMed articles found');
     return null;
   }
   
-  // Small delay to respect rate limits
-  await new Promise(resolve => setTimeout(resolve, 350));
-  
-  const articles = await getArticleSummaries(articleIds, apiKey);
+  const startedAt = Date.now();
+  const articles = await getArticleSummaries(articleIds, apiKey, signal);
+  trace?.query('pubmed:esummary', articleIds.join(','), articles.length, Date.now() - startedAt);
   
   if (articles.length === 0) {
     console.log('[PubMedService] Could not fetch article details');
@@ -235,6 +223,15 @@ export async function verifyWithPubMed(claim: Claim, apiKey?: string): Promise<V
   }
   
   const analysis = analyzeArticleRelevance(claim.text, articles);
+  for (const { article, overlap, stance } of analysis.scores) {
+    trace?.relevance(
+      `PMID ${article.uid}: ${article.title}`,
+      overlap.length,
+      stance !== null,
+      stance ? `${stance}; shared terms: ${overlap.join(', ')}` : undefined
+    );
+  }
+  trace?.note(`${analysis.relevantArticles.length} relevant, ${analysis.supportingCount} supporting, ${analysis.contradictingCount} contradicting`);
   
   if (analysis.relevantArticles.length === 0) {
     console.log('[PubMedService] No relevant articles found');
@@ -291,3 +288,17 @@ export async function verifyWithPubMed(claim: Claim, apiKey?: string): Promise<V
   
   return verification;
 }
+
+/**
+ * PubMed as a registered verification source (health and research claims
+ * and statistics, as routed by sourceRouter).
+ * PUBMED_API_KEY is optional and only raises the NCBI rate limit.
+ */
+export const pubmedSource: VerificationSource = {
+  name: 'pubmed',
+  priority: 20,
+  reliability: 0.75,
+  requiredConfig: [],
+  canHandle: () => true,
+  verify: (claim, context) => verifyWithPubMed(claim, context.config.PUBMED_API_KEY, context),
+};
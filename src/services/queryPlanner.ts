@@ -0,0 +1,119 @@
+/**
+ * Query planning for upstream sources
+ *
+ * Claims extracted by the NLP service carry entities and evidence keywords.
+ * Each source gets queries built from them in the form its search works best
+ * with: entity names for Wikipedia (they match article titles), a conjunction
+ * of keywords for PubMed, and entity names and keywords, multi-word ones
+ * quoted as phrases, for Google Fact Check. Claims without NLP data, or whose
+ * planned queries find nothing, fall back to the source's own query from the
+ * claim text.
+ *
+ * Hits per source and strategy are counted so the planned queries can be
+ * compared with the fallback (see /api/health).
+ */
+
+import { Claim } from '../types';
+
+export type QueryStrategy = 'entities' | 'keywords' | 'phrases' | 'fallback';
+
+export type PlannedSource = 'wikipedia' | 'pubmed' | 'google';
+
+export interface PlannedQuery {
+  query: string;
+  strategy: QueryStrategy;
+}
+
+// Entity labels that name something a source could have a page or paper on
+const NON_NAME_LABELS = new Set(['DATE', 'TIME', 'CARDINAL', 'ORDINAL', 'PERCENT', 'MONEY', 'QUANTITY']);
+
+const MAX_WIKIPEDIA_ENTITIES = 2;
+const MAX_PUBMED_KEYWORDS = 4;
+const MIN_PUBMED_KEYWORDS = 2;
+const MAX_GOOGLE_TERMS = 8;
+
+const stats: Record<PlannedSource, Partial<Record<QueryStrategy, { queries: number; hits: number }>>> = {
+  wikipedia: {},
+  pubmed: {},
+  google: {},
+};
+
+function entityNames(claim: Claim): string[] {
+  const names = (claim.entities || [])
+    .filter(e => !NON_NAME_LABELS.has(e.label))
+    .map(e => e.text.trim())
+    .filter(Boolean);
+  return Array.from(new Set(names));
+}
+
+/**
+ * Keywords that aren't numbers or part of an entity name
+ */
+function plainKeywords(claim: Claim, names: string[]): string[] {
+  const lowerNames = names.map(n => n.toLowerCase());
+  return Array.from(new Set((claim.keywords || []).map(k => k.trim().toLowerCase())))
+    .filter(k => k && !/^[\d.,%$€£]+$/.test(k) && !lowerNames.some(n => n.includes(k)));
+}
+
+function quote(term: string): string {
+  return /\s/.test(term) ? `"${term.replace(/"/g, '')}"` : term;
+}
+
+/**
+ * Queries for a source, best first, ending with `fallback` (the source's
+ * query from the claim text). Duplicates of the fallback are dropped.
+ */
+export function planQueries(claim: Claim, source: PlannedSource, fallback: string): PlannedQuery[] {
+  const names = entityNames(claim);
+  const keywords = plainKeywords(claim, names);
+  const planned: PlannedQuery[] = [];
+
+  if (source === 'wikipedia') {
+    for (const name of names.slice(0, MAX_WIKIPEDIA_ENTITIES)) {
+      planned.push({ query: name, strategy: 'entities' });
+    }
+  } else if (source === 'pubmed') {
+    // Papers are found by topic, so names only make up for missing keywords
+    const terms = (keywords.length >= MIN_PUBMED_KEYWORDS ? keywords : [...keywords, ...names]).slice(0, MAX_PUBMED_KEYWORDS);
+    if (terms.length >= MIN_PUBMED_KEYWORDS) {
+      planned.push({ query: terms.map(quote).join(' AND '), strategy: 'keywords' });
+    }
+  } else {
+    const terms = [...names, ...keywords].slice(0, MAX_GOOGLE_TERMS).map(quote);
+    if (names.length > 0 && terms.length >= 2) {
+      planned.push({ query: terms.join(' '), strategy: 'phrases' });
+    }
+  }
+
+  return [
+    ...planned.filter(p => p.query.toLowerCase() !== fallback.toLowerCase()),
+    { query: fallback, strategy: 'fallback' },
+  ];
+}
+
+/**
+ * Count a query's outcome for the hit-rate stats
+ */
+export function recordQueryOutcome(source: PlannedSource, strategy: QueryStrategy, hits: number): void {
+  const entry = stats[source][strategy] || { queries: 0, hits: 0 };
+  stats[source][strategy] = entry;
+  entry.queries++;
+  if (hits > 0) entry.hits++;
+}
+
+/**
+ * Queries sent and queries with at least one hit, per source and strategy
+ */
+export function getQueryPlannerStats() {
+  return Object.fromEntries(
+    Object.entries(stats).map(([source, strategies]) => [
+      source,
+      Object.fromEntries(
+        Object.entries(strategies).map(([strategy, { queries, hits }]) => [
+          strategy,
+          { queries, hits, hitRate: queries > 0 ? Math.round((hits / queries) * 1000) / 1000 : 0 },
+        ])
+      ),
+    ])
+  ) as Record<PlannedSource, Partial<Record<QueryStrategy, { queries: number; hits: number; hitRate: number }>>>;
+}
@@ -0,0 +1,189 @@
+/**
+ * Per-client rate limits and daily quotas
+ *
+ * A client is the API key a request carries or, without one, the caller's IP.
+ * Each client gets a request rate limit on the verification routes (fixed
+ * one-minute windows, in memory) and daily quotas on claims verified and LLM
+ * calls made, reset at 00:00 UTC. Daily usage is kept in the 'quotas' store,
+ * so it survives restarts with the file backend.
+ *
+ * Defaults apply to every client; a key's `limits` in the key file override
+ * them for that key. 0 disables a limit.
+ *   CLIENT_RATE_LIMIT=60          (requests per minute)
+ *   CLIENT_DAILY_CLAIMS=2000
+ *   CLIENT_DAILY_LLM_CALLS=200
+ */
+
+import { createStore } from './store';
+
+export interface ClientLimits {
+  requestsPerMinute: number;
+  dailyClaims: number;
+  dailyLlmCalls: number;
+}
+
+export interface QuotaUsage {
+  claims: number;
+  llmCalls: number;
+}
+
+export interface RequestWindow {
+  /** Requests allowed per window (0 = unlimited) */
+  limit: number;
+  remaining: number;
+  /** Seconds until the window resets */
+  resetSeconds: number;
+}
+
+const WINDOW_MS = 60000;
+
+// Request counts per client for the current window
+const windows = new Map<string, { start: number; count: number }>();
+
+// Daily usage per client, loaded from the store once per day. Promises, so
+// concurrent first requests share one load instead of racing.
+const usageStore = createStore<QuotaUsage>('quotas');
+const usage = new Map<string, Promise<QuotaUsage>>();
+let usageDate = '';
+
+function readLimit(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '');
+  return value >= 0 ? value : fallback;
+}
+
+/**
+ * Limits for a client, with any per-key overrides applied
+ */
+export function getClientLimits(overrides?: Partial<ClientLimits>): ClientLimits {
+  return {
+    requestsPerMinute: readLimit('CLIENT_RATE_LIMIT', 60),
+    dailyClaims: readLimit('CLIENT_DAILY_CLAIMS', 2000),
+    dailyLlmCalls: readLimit('CLIENT_DAILY_LLM_CALLS', 200),
+    ...overrides,
+  };
+}
+
+/**
+ * Count one request against the client's current window
+ */
+export function consumeRequest(client: string, limit: number): RequestWindow & { allowed: boolean } {
+  const window = currentWindow(client);
+
+  if (limit > 0 && window.count >= limit) {
+    return { allowed: false, ...describeWindow(window, limit) };
+  }
+
+  window.count++;
+  return { allowed: true, ...describeWindow(window, limit) };
+}
+
+/**
+ * The client's current window, without counting a request
+ */
+export function peekRequests(client: string, limit: number): RequestWindow {
+  return describeWindow(currentWindow(client), limit);
+}
+
+function currentWindow(client: string): { start: number; count: number } {
+  const now = Date.now();
+  let window = windows.get(client);
+
+  if (!window || now - window.start >= WINDOW_MS) {
+    // Drop expired windows now and then so one-off clients don't accumulate
+    if (windows.size > 10000) {
+      for (const [key, w] of windows) {
+        if (now - w.start >= WINDOW_MS) windows.delete(key);
+      }
+    }
+    window = { start: now, count: 0 };
+    windows.set(client, window);
+  }
+
+  return window;
+}
+
+function describeWindow(window: { start: number; count: number }, limit: number): RequestWindow {
+  return {
+    limit,
+    remaining: limit > 0 ? Math.max(0, limit - window.count) : 0,
+    resetSeconds: Math.max(0, Math.ceil((window.start + WINDOW_MS - Date.now()) / 1000)),
+  };
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * When daily quotas next reset (00:00 UTC)
+ */
+export function getQuotaResetTime(): Date {
+  const reset = new Date();
+  reset.setUTCHours(24, 0, 0, 0);
+  return reset;
+}
+
+function loadUsage(client: string): { key: string; usage: Promise<QuotaUsage> } {
+  const date = today();
+  if (date !== usageDate) {
+    usage.clear();
+    usageDate = date;
+  }
+
+  const key = `${client}:${date}`;
+  let entry = usage.get(key);
+  if (!entry) {
+    entry = usageStore.get(key).then(stored => stored ? { ...stored } : { claims: 0, llmCalls: 0 });
+    usage.set(key, entry);
+  }
+
+  return { key, usage: entry };
+}
+
+/**
+ * The client's usage so far today
+ */
+export async function getUsage(client: string): Promise<QuotaUsage> {
+  return { ...(await loadUsage(client).usage) };
+}
+
+/**
+ * Add to the client's usage for today
+ */
+export async function recordUsage(client: string, delta: Partial<QuotaUsage>): Promise<void> {
+  if (!delta.claims && !delta.llmCalls) return;
+
+  const { key, usage: pending } = loadUsage(client);
+  const current = await pending;
+  current.claims += delta.claims || 0;
+  current.llmCalls += delta.llmCalls || 0;
+
+  // Keep the record a little past the reset so late writes don't recreate it
+  const ttl = Math.ceil((getQuotaResetTime().getTime() - Date.now()) / 1000) + 3600;
+  await usageStore.set(key, { ...current }, ttl);
+}
+
+/**
+ * Which daily quota, if any, would be exceeded by verifying `requestedClaims`
+ * more claims and making `requestedLlmCalls` LLM calls the caller knows a
+ * request needs. Calls verification may make through the `llm` source aren't
+ * known up front; `llmExhausted` tells the caller to run without it instead.
+ */
+export async function checkQuota(
+  client: string,
+  limits: ClientLimits,
+  requestedClaims: number,
+  requestedLlmCalls = 0
+): Promise<{ exceeded: 'claims' | 'llmCalls' | null; usage: QuotaUsage; llmExhausted: boolean }> {
+  const current = await getUsage(client);
+  const llmExhausted = limits.dailyLlmCalls > 0 && current.llmCalls >= limits.dailyLlmCalls;
+
+  if (limits.dailyClaims > 0 && current.claims + requestedClaims > limits.dailyClaims) {
+    return { exceeded: 'claims', usage: current, llmExhausted };
+  }
+  if (requestedLlmCalls > 0 && limits.dailyLlmCalls > 0 && current.llmCalls + requestedLlmCalls > limits.dailyLlmCalls) {
+    return { exceeded: 'llmCalls', usage: current, llmExhausted };
+  }
+
+  return { exceeded: null, usage: current, llmExhausted };
+}
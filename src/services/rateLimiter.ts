@@ -0,0 +1,148 @@
+/**
+ * Per-upstream rate limiting
+ *
+ * Each upstream API gets one token bucket shared by every in-flight
+ * verification, so concurrent claims can't collectively exceed its limit.
+ *
+ * Limits are in requests/second and can be overridden per upstream:
+ *   RATE_LIMIT_GOOGLE     (default 2)
+ *   RATE_LIMIT_PUBMED     (default 3, or 10 when PUBMED_API_KEY is set)
+ *   RATE_LIMIT_WIKIPEDIA  (default 10)
+ *   RATE_LIMIT_OPENAI     (default 5)
+ */
+
+export type Upstream = 'google' | 'pubmed' | 'wikipedia' | 'openai';
+
+/**
+ * Token bucket that hands out tokens to waiters in FIFO order
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private waiters: Array<{ resolve: () => void }> = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    readonly ratePerSecond: number,
+    readonly capacity: number = 1
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait until a token is available and take it. Rejects with the signal's
+   * reason, giving up its place in the queue, if the signal aborts first.
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    this.refill();
+
+    if (this.waiters.length === 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.waiters = this.waiters.filter(w => w !== waiter);
+        reject(signal!.reason);
+      };
+      const waiter = {
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiters.push(waiter);
+      this.schedule();
+    });
+  }
+
+  /**
+   * Number of callers currently waiting for a token
+   */
+  get pending(): number {
+    return this.waiters.length;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+
+  private schedule(): void {
+    if (this.timer) return;
+
+    const waitMs = Math.max(0, ((1 - this.tokens) / this.ratePerSecond) * 1000);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.refill();
+
+      while (this.tokens >= 1 && this.waiters.length > 0) {
+        this.tokens -= 1;
+        this.waiters.shift()!.resolve();
+      }
+
+      if (this.waiters.length > 0) {
+        this.schedule();
+      }
+    }, Math.ceil(waitMs));
+  }
+}
+
+const limiters = new Map<Upstream, TokenBucket>();
+
+/**
+ * Resolve the configured requests/second for an upstream
+ */
+function getConfiguredRate(upstream: Upstream): number {
+  const defaults: Record<Upstream, number> = {
+    google: 2,
+    // NCBI allows 3 req/s without an API key, 10 req/s with one
+    pubmed: process.env.PUBMED_API_KEY ? 10 : 3,
+    wikipedia: 10,
+    openai: 5,
+  };
+
+  const configured = parseFloat(process.env[`RATE_LIMIT_${upstream.toUpperCase()}`] || '');
+  return configured > 0 ? configured : defaults[upstream];
+}
+
+/**
+ * Get the shared limiter for an upstream, creating it on first use
+ * (lazily, so it sees env vars loaded by dotenv)
+ */
+export function getRateLimiter(upstream: Upstream): TokenBucket {
+  let limiter = limiters.get(upstream);
+  if (!limiter) {
+    limiter = new TokenBucket(getConfiguredRate(upstream));
+    limiters.set(upstream, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Wait for permission to make one request to an upstream
+ */
+export function acquireToken(upstream: Upstream, signal?: AbortSignal): Promise<void> {
+  return getRateLimiter(upstream).acquire(signal);
+}
+
+/**
+ * Current limiter settings and queue depth (for health checks)
+ */
+export function getRateLimiterStats(): Record<string, { ratePerSecond: number; pending: number }> {
+  const stats: Record<string, { ratePerSecond: number; pending: number }> = {};
+  for (const [upstream, limiter] of limiters) {
+    stats[upstream] = { ratePerSecond: limiter.ratePerSecond, pending: limiter.pending };
+  }
+  return stats;
+}
@@ -0,0 +1,184 @@
+/**
+ * Near-duplicate claim matching
+ *
+ * Indexes previously verified claim texts as token sets and finds the most
+ * similar one by Jaccard similarity, so rephrasings of a verified claim can
+ * reuse its verdict. Claims only match when they contain the same numbers and
+ * the same negations, because changing a statistic or adding a "not" changes
+ * the verdict.
+ */
+
+export interface SimilarityMatch {
+  key: string;
+  claimText: string;
+  score: number;
+}
+
+interface IndexedClaim {
+  claimText: string;
+  tokens: Set<string>;
+  /** Numbers and negations that must be identical for a match */
+  signature: string;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'am',
+  'of', 'in', 'on', 'at', 'to', 'for', 'by', 'with', 'from', 'as', 'into',
+  'and', 'or', 'but', 'that', 'this', 'these', 'those', 'it', 'its', 'has',
+  'have', 'had', 'do', 'does', 'did', 'which', 'who', 'than', 'then', 'so',
+  'there', 'their', 'they', 'he', 'she', 'his', 'her', 'we', 'our', 'you',
+]);
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'none', 'nobody', 'nothing', 'neither', 'nor', 'cannot']);
+
+// Spelled-out units collapse onto their abbreviation so "330 metres" matches "330m"
+const UNIT_ALIASES: Record<string, string> = {
+  metre: 'm', metres: 'm', meter: 'm', meters: 'm',
+  kilometre: 'km', kilometres: 'km', kilometer: 'km', kilometers: 'km',
+  kilogram: 'kg', kilograms: 'kg', kilo: 'kg', kilos: 'kg',
+  percent: '%', percentage: '%', pct: '%',
+  foot: 'ft', feet: 'ft', mile: 'mi', miles: 'mi',
+};
+
+/**
+ * Very light stemming: enough to match "stands"/"stand" and "studies"/"study"
+ */
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Break claim text into comparable tokens plus its number/negation signature
+ */
+function analyze(text: string): { tokens: Set<string>; signature: string } {
+  const normalized = text
+    .toLowerCase()
+    .replace(/n't\b/g, ' not')
+    // Separate numbers from attached units ("330m" -> "330 m") and drop thousands separators
+    .replace(/(\d),(?=\d{3}\b)/g, '$1')
+    .replace(/(\d)([a-z%]+)/g, '$1 $2');
+
+  const tokens = new Set<string>();
+  const numbers: string[] = [];
+  const negations: string[] = [];
+
+  for (const raw of normalized.match(/\d+(?:\.\d+)?|[a-z]+|%/g) || []) {
+    if (/^\d/.test(raw)) {
+      const value = String(parseFloat(raw));
+      numbers.push(value);
+      tokens.add(value);
+      continue;
+    }
+
+    if (NEGATIONS.has(raw)) {
+      negations.push(raw === 'cannot' ? 'not' : raw);
+      continue;
+    }
+
+    const unit = UNIT_ALIASES[raw];
+    if (unit) {
+      tokens.add(unit);
+      continue;
+    }
+
+    if (STOP_WORDS.has(raw)) continue;
+    if (raw.length === 1 && raw !== 'm') continue;
+    tokens.add(stem(raw));
+  }
+
+  const signature = [
+    numbers.sort().join(','),
+    negations.length % 2 === 1 ? 'negated' : '',
+  ].join('|');
+
+  return { tokens, signature };
+}
+
+/**
+ * The comparable tokens of a text (stemmed, stop words and negations removed),
+ * for other lookups that should match claims the same way
+ */
+export function tokenizeClaim(text: string): Set<string> {
+  return analyze(text).tokens;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let intersection = 0;
+  for (const token of a) {
+    if (b.has(token)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+/**
+ * Inverted index over claim texts for near-duplicate lookups
+ */
+export class SimilarityIndex {
+  private claims = new Map<string, IndexedClaim>();
+  private postings = new Map<string, Set<string>>();
+
+  add(key: string, claimText: string): void {
+    this.remove(key);
+
+    const { tokens, signature } = analyze(claimText);
+    this.claims.set(key, { claimText, tokens, signature });
+
+    for (const token of tokens) {
+      let keys = this.postings.get(token);
+      if (!keys) {
+        keys = new Set();
+        this.postings.set(token, keys);
+      }
+      keys.add(key);
+    }
+  }
+
+  remove(key: string): void {
+    const existing = this.claims.get(key);
+    if (!existing) return;
+
+    for (const token of existing.tokens) {
+      const keys = this.postings.get(token);
+      keys?.delete(key);
+      if (keys && keys.size === 0) this.postings.delete(token);
+    }
+    this.claims.delete(key);
+  }
+
+  clear(): void {
+    this.claims.clear();
+    this.postings.clear();
+  }
+
+  get size(): number {
+    return this.claims.size;
+  }
+
+  /**
+   * Find the most similar indexed claim scoring at least `threshold`
+   */
+  findBest(claimText: string, threshold: number): SimilarityMatch | null {
+    const { tokens, signature } = analyze(claimText);
+
+    const candidates = new Set<string>();
+    for (const token of tokens) {
+      this.postings.get(token)?.forEach(key => candidates.add(key));
+    }
+
+    let best: SimilarityMatch | null = null;
+    for (const key of candidates) {
+      const candidate = this.claims.get(key)!;
+      if (candidate.signature !== signature) continue;
+
+      const score = jaccard(tokens, candidate.tokens);
+      if (score >= threshold && (!best || score > best.score)) {
+        best = { key, claimText: candidate.claimText, score };
+      }
+    }
+
+    return best;
+  }
+}
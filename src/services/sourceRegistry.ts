@@ -0,0 +1,149 @@
+/**
+ * Verification Source Registry
+ *
+ * Every upstream that can rate a claim (Google Fact Check, PubMed, Wikipedia,
+ * the LLM fallback, internal sources) registers itself here as a
+ * VerificationSource. The orchestrator in verificationService iterates the
+ * registry instead of hard-wiring the chain.
+ *
+ * Sources can be switched on and off without code changes:
+ *   ENABLED_SOURCES=google,wikipedia   - only run these sources
+ *   DISABLED_SOURCES=pubmed            - run everything except these
+ */
+
+import { Claim, Verification } from '../types';
+import { SourceTracer } from './trace';
+
+/**
+ * Runtime information handed to a source for a single verification
+ */
+export interface SourceContext {
+  /** Resolved values of the source's required (and any other) config keys */
+  config: NodeJS.ProcessEnv;
+  /** Records queries, hit counts and relevance scores for the verification trace */
+  trace: SourceTracer;
+  /** Retries allowed after a failed upstream call, from the request's profile */
+  retries: number;
+  /** Aborts when the request's deadline passes; pass it to upstream HTTP calls */
+  signal?: AbortSignal;
+}
+
+/**
+ * Optional tracing and cancellation accepted by the source service functions
+ */
+export type SourceCallOptions = Partial<Pick<SourceContext, 'trace' | 'signal'>>;
+
+export interface VerificationSource {
+  /** Unique identifier, used in config lists and logs */
+  name: string;
+  /** Lower numbers run first */
+  priority: number;
+  /** 0-1 trust in the source's ratings, used to weight it in the consensus */
+  reliability: number;
+  /** Environment variables that must be set for the source to run */
+  requiredConfig: string[];
+  /**
+   * Fallback sources only run when no earlier source produced a rating
+   * other than 'unverified' (e.g. the LLM)
+   */
+  fallback?: boolean;
+  /** Whether this source is able to say anything about the claim */
+  canHandle(claim: Claim): boolean;
+  /** Verify the claim, returning null when the source has nothing useful */
+  verify(claim: Claim, context: SourceContext): Promise<Verification | null>;
+}
+
+const sources = new Map<string, VerificationSource>();
+
+/**
+ * Parse a comma-separated list of source names from the environment
+ */
+function parseSourceList(value: string | undefined): string[] | null {
+  if (!value) return null;
+
+  const names = value
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  return names.length > 0 ? names : null;
+}
+
+/**
+ * Check if a config value is set to something other than an .env.example placeholder
+ */
+export function isConfigValueSet(value: string | undefined): boolean {
+  return !!value && !/^your_.*_here$/.test(value);
+}
+
+/**
+ * Register a verification source. Re-registering a name replaces the old source.
+ */
+export function registerSource(source: VerificationSource): void {
+  if (sources.has(source.name)) {
+    console.warn(`[SourceRegistry] Replacing existing source "${source.name}"`);
+  }
+  sources.set(source.name, source);
+}
+
+/**
+ * Remove a verification source from the registry
+ */
+export function unregisterSource(name: string): boolean {
+  return sources.delete(name);
+}
+
+/**
+ * Get every registered source, ordered by priority
+ */
+export function getRegisteredSources(): VerificationSource[] {
+  return Array.from(sources.values()).sort((a, b) => a.priority - b.priority);
+}
+
+/**
+ * Check if a source is enabled by the ENABLED_SOURCES / DISABLED_SOURCES config
+ */
+export function isSourceEnabled(name: string): boolean {
+  const enabled = parseSourceList(process.env.ENABLED_SOURCES);
+  const disabled = parseSourceList(process.env.DISABLED_SOURCES);
+  const key = name.toLowerCase();
+
+  if (enabled && !enabled.includes(key)) return false;
+  if (disabled && disabled.includes(key)) return false;
+  return true;
+}
+
+/**
+ * Check if all of a source's required config keys are set
+ */
+export function isSourceConfigured(source: VerificationSource): boolean {
+  return source.requiredConfig.every(key => isConfigValueSet(process.env[key]));
+}
+
+/**
+ * Get the sources that are enabled and configured, ordered by priority
+ */
+export function getActiveSources(): VerificationSource[] {
+  return getRegisteredSources().filter(
+    source => isSourceEnabled(source.name) && isSourceConfigured(source)
+  );
+}
+
+/**
+ * Describe every registered source and whether it will run (for health checks)
+ */
+export function describeSources(): Array<{
+  name: string;
+  priority: number;
+  enabled: boolean;
+  configured: boolean;
+  fallback: boolean;
+}> {
+  return getRegisteredSources().map(source => ({
+    name: source.name,
+    priority: source.priority,
+    enabled: isSourceEnabled(source.name),
+    configured: isSourceConfigured(source),
+    fallback: !!source.fallback,
+  }));
+}
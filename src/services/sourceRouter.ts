@@ -0,0 +1,254 @@
+/**
+ * Source Routing
+ *
+ * Decides which sources verify a claim, and in what order, from the claim's
+ * type (the NLP service's claim_type, e.g. statistic or quote) and the topics
+ * detected in its text. The first route matching both is used; its sources
+ * run in the order listed, with optional per-source retries and reliability.
+ * Sources a route doesn't list are skipped, so PubMed only sees claims that
+ * a route sends it (health and research claims, by default).
+ * Registered sources that no route lists run on every route, in priority
+ * order, ahead of the route's fallback sources, so a source added with
+ * registerSource() works without a routing file.
+ *
+ * Built-in routes and topics can be overridden, and new ones added, with a
+ * JSON file of the form { "topics": { name: [keywords] }, "routes": [...] }:
+ *   SOURCE_ROUTES_PATH=./routes.json
+ * Configured routes are checked before the built-in ones; a configured route
+ * or topic with a built-in name replaces it.
+ */
+
+import fs from 'fs';
+import { Claim, RouteSource, SourceRouting } from '../types';
+import { getRegisteredSources } from './sourceRegistry';
+
+export interface SourceRoute {
+  name: string;
+  /** Claim types the route applies to; omit to match any type */
+  claimTypes?: string[];
+  /** Topics the route applies to (any of them); omit to match any topic */
+  topics?: string[];
+  /** Sources to run, in order */
+  sources: RouteSource[];
+}
+
+const BUILT_IN_TOPICS: Record<string, string[]> = {
+  health: [
+    // Medical conditions
+    'cancer', 'diabetes', 'heart disease', 'stroke', 'alzheimer', 'dementia',
+    'depression', 'anxiety', 'obesity', 'hypertension', 'arthritis', 'asthma',
+    'covid', 'coronavirus', 'flu', 'influenza', 'vaccine', 'vaccination', 'infection', 'virus',
+
+    // Treatments
+    'treatment', 'therapy', 'medication', 'drug', 'medicine', 'cure',
+    'antibiotic', 'supplement', 'vitamin', 'remedy', 'surgery',
+
+    // Health behaviors
+    'diet', 'exercise', 'sleep', 'smoking', 'alcohol', 'caffeine',
+    'nutrition', 'calorie', 'protein', 'carbohydrate', 'fat',
+
+    // Body parts/systems
+    'brain', 'heart', 'liver', 'kidney', 'lung', 'immune system',
+    'blood pressure', 'cholesterol', 'blood sugar', 'metabolism',
+
+    // Medical research and professionals
+    'clinical trial', 'placebo', 'randomized', 'double-blind', 'patient', 'symptom',
+    'doctor', 'physician', 'medical', 'health',
+  ],
+  research: [
+    // Studies and how they were run
+    'study', 'studies', 'research', 'trial', 'experiment', 'survey', 'meta-analysis',
+    'sample', 'participants', 'subjects', 'controlled', 'statistically',
+
+    // Findings and where they were published
+    'findings', 'found that', 'shows that', 'suggests that', 'concluded',
+    'peer-reviewed', 'journal', 'publication', 'published', 'paper',
+
+    // Who did the research
+    'scientist', 'researcher', 'researchers found', 'scientists say',
+    'university', 'institute', 'laboratory', 'lab',
+  ],
+};
+
+const GENERAL_SOURCES: RouteSource[] = [{ source: 'google' }, { source: 'wikipedia' }, { source: 'llm' }];
+
+const LITERATURE_SOURCES: RouteSource[] = [{ source: 'google' }, { source: 'pubmed' }, { source: 'wikipedia' }, { source: 'llm' }];
+
+const DEFAULT_ROUTE: SourceRoute = { name: 'default', sources: GENERAL_SOURCES };
+
+const BUILT_IN_ROUTES: SourceRoute[] = [
+  {
+    name: 'health',
+    topics: ['health'],
+    sources: LITERATURE_SOURCES,
+  },
+  {
+    name: 'research',
+    topics: ['research'],
+    sources: LITERATURE_SOURCES,
+  },
+  {
+    // No built-in source checks figures; Wikipedia's may be for another year
+    name: 'statistic',
+    claimTypes: ['statistic'],
+    sources: [{ source: 'google' }, { source: 'wikipedia', reliability: 0.35 }, { source: 'llm' }],
+  },
+  {
+    // Wikipedia rarely settles who said what, so it counts for less
+    name: 'quote',
+    claimTypes: ['quote'],
+    sources: [{ source: 'google' }, { source: 'wikipedia', reliability: 0.3 }, { source: 'llm' }],
+  },
+  DEFAULT_ROUTE,
+];
+
+interface RoutingTable {
+  topics: Array<{ name: string; pattern: RegExp }>;
+  routes: SourceRoute[];
+}
+
+let table: RoutingTable | null = null;
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+function isValidRouteSource(value: unknown): value is RouteSource {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return typeof entry.source === 'string' && entry.source.length > 0 &&
+    (entry.retries === undefined || (typeof entry.retries === 'number' && entry.retries >= 0)) &&
+    (entry.reliability === undefined || (typeof entry.reliability === 'number' && entry.reliability >= 0 && entry.reliability <= 1));
+}
+
+/**
+ * Validate a route loaded from the config file
+ */
+function isValidRoute(value: unknown): value is SourceRoute {
+  if (typeof value !== 'object' || value === null) return false;
+  const route = value as Record<string, unknown>;
+  return typeof route.name === 'string' && route.name.length > 0 &&
+    (route.claimTypes === undefined || isStringArray(route.claimTypes)) &&
+    (route.topics === undefined || isStringArray(route.topics)) &&
+    Array.isArray(route.sources) && route.sources.every(isValidRouteSource);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whole-word match of any keyword, allowing a plural ending
+ */
+function topicPattern(keywords: string[]): RegExp {
+  const alternatives = keywords.map(k => escapeRegExp(k.trim().toLowerCase())).filter(Boolean);
+  return new RegExp(`\\b(?:${alternatives.join('|')})(?:s|es)?\\b`, 'i');
+}
+
+/**
+ * Load built-in routes and topics plus any from SOURCE_ROUTES_PATH
+ */
+function loadRoutingTable(): RoutingTable {
+  const topics = { ...BUILT_IN_TOPICS };
+  let routes = BUILT_IN_ROUTES;
+  const configPath = process.env.SOURCE_ROUTES_PATH;
+
+  if (configPath) {
+    try {
+      const configured = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+
+      for (const [name, keywords] of Object.entries(configured?.topics || {})) {
+        if (isStringArray(keywords) && keywords.length > 0) {
+          topics[name] = keywords;
+        } else {
+          console.warn(`[SourceRouter] Ignoring invalid topic in ${configPath}:`, name);
+        }
+      }
+
+      const configuredRoutes: SourceRoute[] = [];
+      for (const route of Array.isArray(configured?.routes) ? configured.routes : []) {
+        if (isValidRoute(route)) {
+          configuredRoutes.push(route);
+        } else {
+          console.warn(`[SourceRouter] Ignoring invalid route in ${configPath}:`, route?.name);
+        }
+      }
+      const names = new Set(configuredRoutes.map(r => r.name));
+      routes = [...configuredRoutes, ...BUILT_IN_ROUTES.filter(r => !names.has(r.name))];
+
+      console.log(`[SourceRouter] Loaded source routes from ${configPath}`);
+    } catch (error) {
+      console.error(`[SourceRouter] Failed to read ${configPath}:`, error);
+    }
+  }
+
+  return {
+    topics: Object.entries(topics).map(([name, keywords]) => ({ name, pattern: topicPattern(keywords) })),
+    routes,
+  };
+}
+
+function getRoutingTable(): RoutingTable {
+  if (!table) table = loadRoutingTable();
+  return table;
+}
+
+/**
+ * Topics whose keywords appear in the claim
+ */
+export function detectTopics(claim: Claim): string[] {
+  return getRoutingTable().topics
+    .filter(topic => topic.pattern.test(claim.text))
+    .map(topic => topic.name);
+}
+
+/**
+ * A route's sources plus the registered sources no route lists: those run
+ * in priority order, fallback ones last and the rest before the route's
+ * first fallback source
+ */
+function withUnlistedSources(sources: RouteSource[]): RouteSource[] {
+  const listed = new Set(getRoutingTable().routes.flatMap(r => r.sources.map(s => s.source)));
+  const registered = getRegisteredSources();
+  const unlisted = registered.filter(s => !listed.has(s.name));
+  if (unlisted.length === 0) return sources;
+
+  const isFallback = (name: string) => !!registered.find(s => s.name === name)?.fallback;
+  let firstFallback = sources.findIndex(entry => isFallback(entry.source));
+  if (firstFallback === -1) firstFallback = sources.length;
+
+  return [
+    ...sources.slice(0, firstFallback),
+    ...unlisted.filter(s => !s.fallback).map(s => ({ source: s.name })),
+    ...sources.slice(firstFallback),
+    ...unlisted.filter(s => s.fallback).map(s => ({ source: s.name })),
+  ];
+}
+
+/**
+ * The route for a claim: the first whose claim types and topics match,
+ * or the built-in default. Sources no route lists are added to it.
+ */
+export function routeClaim(claim: Claim): SourceRouting {
+  const claimType = claim.claimType?.toLowerCase();
+  const topics = detectTopics(claim);
+
+  const route = getRoutingTable().routes.find(r =>
+    (!r.claimTypes || (!!claimType && r.claimTypes.some(t => t.toLowerCase() === claimType))) &&
+    (!r.topics || r.topics.some(t => topics.includes(t)))
+  ) || DEFAULT_ROUTE;
+
+  return {
+    route: route.name,
+    ...(claimType && { claimType }),
+    topics,
+    sources: withUnlistedSources(route.sources),
+  };
+}
+
+/**
+ * The routing table in effect (for health checks)
+ */
+export function listRoutes(): SourceRoute[] {
+  return getRoutingTable().routes;
+}
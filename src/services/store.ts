@@ -0,0 +1,230 @@
+/**
+ * Key-value storage with TTLs
+ *
+ * Backends:
+ * - memory: a Map, lost on restart (default)
+ * - file:   an append-only JSON-lines log per namespace, replayed on startup
+ *           and compacted when it accumulates too many stale records
+ *
+ * Configuration:
+ *   STORE_BACKEND=memory|file
+ *   STORE_PATH=./data          (directory for file backend logs)
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export type StoreBackend = 'memory' | 'file';
+
+export interface KeyValueStore<T> {
+  readonly backend: StoreBackend;
+  get(key: string): Promise<T | undefined>;
+  /** ttlSeconds of 0 or undefined means the entry never expires */
+  set(key: string, value: T, ttlSeconds?: number): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  clear(): Promise<void>;
+  /** All live (unexpired) entries */
+  entries(): Promise<Array<[string, T]>>;
+  size(): Promise<number>;
+  /** Seconds until the entry expires, 0 if it never does, undefined if missing */
+  ttl(key: string): Promise<number | undefined>;
+}
+
+interface StoredEntry<T> {
+  value: T;
+  expiresAt: number | null;
+}
+
+type LogRecord<T> =
+  | { op: 'set'; key: string; value: T; expiresAt: number | null }
+  | { op: 'del'; key: string }
+  | { op: 'clear' };
+
+/**
+ * In-process store, also used as the index for the file backend
+ */
+export class MemoryStore<T> implements KeyValueStore<T> {
+  readonly backend: StoreBackend = 'memory';
+  protected data = new Map<string, StoredEntry<T>>();
+
+  async get(key: string): Promise<T | undefined> {
+    return this.getLive(key)?.value;
+  }
+
+  async set(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    this.data.set(key, { value, expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : null });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.data.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.data.clear();
+  }
+
+  async entries(): Promise<Array<[string, T]>> {
+    this.pruneExpired();
+    return Array.from(this.data.entries()).map(([key, entry]) => [key, entry.value]);
+  }
+
+  async size(): Promise<number> {
+    this.pruneExpired();
+    return this.data.size;
+  }
+
+  async ttl(key: string): Promise<number | undefined> {
+    const entry = this.getLive(key);
+    if (!entry) return undefined;
+    return entry.expiresAt === null ? 0 : Math.max(1, Math.ceil((entry.expiresAt - Date.now()) / 1000));
+  }
+
+  protected getLive(key: string): StoredEntry<T> | undefined {
+    const entry = this.data.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.data.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  protected pruneExpired(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.data) {
+      if (entry.expiresAt !== null && entry.expiresAt <= now) {
+        this.data.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Append-only file store. Every write is appended to the log; the full log is
+ * replayed into memory on startup, so reads never touch the disk.
+ */
+export class FileStore<T> extends MemoryStore<T> {
+  readonly backend: StoreBackend = 'file';
+  private recordsWritten = 0;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.load();
+  }
+
+  async set(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    await super.set(key, value, ttlSeconds);
+    const entry = this.data.get(key)!;
+    await this.append({ op: 'set', key, value, expiresAt: entry.expiresAt });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const existed = await super.delete(key);
+    if (existed) {
+      await this.append({ op: 'del', key });
+    }
+    return existed;
+  }
+
+  async clear(): Promise<void> {
+    await super.clear();
+    await this.append({ op: 'clear' });
+  }
+
+  /**
+   * Replay the log into memory
+   */
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+    let corrupt = 0;
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as LogRecord<T>;
+        if (record.op === 'set') {
+          this.data.set(record.key, { value: record.value, expiresAt: record.expiresAt });
+        } else if (record.op === 'del') {
+          this.data.delete(record.key);
+        } else if (record.op === 'clear') {
+          this.data.clear();
+        }
+        this.recordsWritten++;
+      } catch {
+        // A crash mid-append can leave a truncated last line
+        corrupt++;
+      }
+    }
+
+    this.pruneExpired();
+    console.log(`[Store] Loaded ${this.data.size} entries from ${this.filePath}` +
+      (corrupt > 0 ? ` (skipped ${corrupt} corrupt lines)` : ''));
+  }
+
+  /**
+   * Queue a record for appending. Writes are serialized so the log stays in order.
+   */
+  private append(record: LogRecord<T>): Promise<void> {
+    this.writeChain = this.writeChain
+      .then(async () => {
+        await fs.promises.appendFile(this.filePath, JSON.stringify(record) + '\n');
+        this.recordsWritten++;
+        if (this.shouldCompact()) {
+          await this.compact();
+        }
+      })
+      .catch(error => {
+        console.error(`[Store] Failed to write ${this.filePath}:`, error);
+      });
+    return this.writeChain;
+  }
+
+  private shouldCompact(): boolean {
+    return this.recordsWritten > 1000 && this.recordsWritten > this.data.size * 2;
+  }
+
+  /**
+   * Rewrite the log with only live entries
+   */
+  private async compact(): Promise<void> {
+    this.pruneExpired();
+    const lines = Array.from(this.data.entries()).map(([key, entry]) =>
+      JSON.stringify({ op: 'set', key, value: entry.value, expiresAt: entry.expiresAt })
+    );
+
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, lines.length > 0 ? lines.join('\n') + '\n' : '');
+    await fs.promises.rename(tempPath, this.filePath);
+    this.recordsWritten = lines.length;
+    console.log(`[Store] Compacted ${this.filePath} to ${lines.length} entries`);
+  }
+}
+
+/**
+ * The configured backend (STORE_BACKEND), defaulting to memory
+ */
+export function getStoreBackend(): StoreBackend {
+  return process.env.STORE_BACKEND === 'file' ? 'file' : 'memory';
+}
+
+/**
+ * Whether stored data survives a restart
+ */
+export function isPersistentStoreConfigured(): boolean {
+  return getStoreBackend() === 'file';
+}
+
+/**
+ * Create a store for a namespace using the configured backend
+ */
+export function createStore<T>(namespace: string): KeyValueStore<T> {
+  if (getStoreBackend() === 'file') {
+    const dir = process.env.STORE_PATH || './data';
+    return new FileStore<T>(path.join(dir, `${namespace}.jsonl`));
+  }
+  return new MemoryStore<T>();
+}
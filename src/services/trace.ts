@@ -0,0 +1,51 @@
+/**
+ * Verification decision tracing
+ *
+ * Each source gets a SourceTracer through its SourceContext and records the
+ * queries it sent, how many hits came back and how it scored them. The
+ * orchestrator assembles these into a VerificationTrace per claim, which is
+ * stored with the verification and returned when a request asks for it.
+ */
+
+import { SourceTrace, SourceVerdictStatus, TraceQuery, TraceRelevance } from '../types';
+
+export class SourceTracer {
+  private queries: TraceQuery[] = [];
+  private scores: TraceRelevance[] = [];
+  private notes: string[] = [];
+
+  constructor(readonly source: string) {}
+
+  /**
+   * Record a request sent upstream and how many results it returned
+   */
+  query(upstream: string, query: string, hits: number, durationMs: number): void {
+    this.queries.push({ upstream, query, hits, durationMs });
+  }
+
+  /**
+   * Record how relevant a returned item was judged to be
+   */
+  relevance(item: string, score: number, relevant: boolean, detail?: string): void {
+    this.scores.push({ item, score, relevant, ...(detail && { detail }) });
+  }
+
+  /**
+   * Record a free-form decision or observation
+   */
+  note(text: string): void {
+    this.notes.push(text);
+  }
+
+  finish(status: SourceVerdictStatus, durationMs: number, reason?: string): SourceTrace {
+    return {
+      source: this.source,
+      status,
+      ...(reason && { reason }),
+      durationMs,
+      queries: this.queries,
+      relevance: this.scores,
+      notes: this.notes,
+    };
+  }
+}
@@ -2,31 +2,124 @@
  * Verification Service - Aggregates results from multiple fact-checking sources
  * 
  * Verification flow:
- * 1. Check cache
- * 2. Google Fact Check API (authoritative fact-checkers)
- * 3. PubMed for health claims (scientific literature)
- * 4. Wikipedia (reference information, supplementary)
- * 5. OpenAI LLM fallback
- * 6. Return unverified if nothing found
+ * 1. Check cache (in-memory hot layer, then the verification store, then
+ *    near-duplicates of previously verified claims)
+ * 2. Run the sources on the claim's route, in order (see sourceRouter and
+ *    sourceRegistry). By default:
+ *    - Google Fact Check API (authoritative fact-checkers)
+ *    - PubMed for health claims (scientific literature)
+ *    - Wikipedia (reference information, supplementary)
+ *    - OpenAI LLM fallback
+ * 3. Return unverified if nothing found
  */
 
 import NodeCache from 'node-cache';
-import { Claim, Verification, Rating, Evidence } from '../types';
-import { searchFactChecks } from './googleFactCheck';
-import { verifyClaimWithLLM } from './llmService';
-import { verifyWithWikipedia } from './wikipediaService';
-import { verifyWithPubMed, isHealthClaim } from './pubmedService';
+import {
+  Claim,
+  Verification,
+  Rating,
+  Evidence,
+  SourceVerdict,
+  SourceTrace,
+  StoredVerification,
+  VerificationTrace,
+} from '../types';
+import { googleFactCheckSource } from './googleFactCheck';
+import { llmSource } from './llmService';
+import { wikipediaSource } from './wikipediaService';
+import { pubmedSource } from './pubmedService';
+import {
+  registerSource,
+  getRegisteredSources,
+  isSourceEnabled,
+  isSourceConfigured,
+} from './sourceRegistry';
+import { routeClaim } from './sourceRouter';
+import { computeConsensus, ConsensusResult } from './consensus';
+import { createStore } from './store';
+import { SimilarityIndex, SimilarityMatch } from './similarityIndex';
+import { SourceTracer } from './trace';
+import { VerificationProfile, getProfile } from './profiles';
+import { createDeadline, raceWithSignal } from './deadline';
+import { getDisputeCaveat, resetDisputes } from './feedbackService';
+import { recordClaimHistory } from './claimHistoryService';
 
-// In-memory cache for verification results
+// Built-in sources. Additional sources can call registerSource() from their own module.
+registerSource(googleFactCheckSource);
+registerSource(pubmedSource);
+registerSource(wikipediaSource);
+registerSource(llmSource);
+
+// How long verifications are kept in the store, and in the hot layer in front of it
+const CACHE_TTL = parseInt(process.env.CACHE_TTL || '3600');
+const CACHE_HOT_TTL = Math.min(CACHE_TTL, parseInt(process.env.CACHE_HOT_TTL || '300'));
+
+// Verification store (persistent when STORE_BACKEND=file)
+const store = createStore<StoredVerification>('verifications');
+
+// In-memory hot layer in front of the store
 const cache = new NodeCache({
-  stdTTL: parseInt(process.env.CACHE_TTL || '3600'),
+  stdTTL: CACHE_HOT_TTL,
   checkperiod: 120,
 });
 
+// Lookups answered by the store after missing the hot layer
+let storeHits = 0;
+let storeMisses = 0;
+
+// Near-duplicate index over stored claim texts, built from the store on first use.
+// SIMILARITY_THRESHOLD is the minimum Jaccard score to reuse a verdict (0 disables matching).
+const SIMILARITY_THRESHOLD = parseFloat(process.env.SIMILARITY_THRESHOLD || '0.75');
+const similarityIndex = new SimilarityIndex();
+let similarityIndexReady: Promise<void> | null = null;
+let similarityHits = 0;
+
+// Verifications currently running, keyed by cache key, so identical claims
+// arriving concurrently (from any route) share one upstream run
+const inFlight = new Map<string, { promise: Promise<SourcesRun>; signal?: AbortSignal }>();
+let coalescedCount = 0;
+
+export interface VerifyOptions {
+  /** Return a decision trace per claim */
+  trace?: boolean;
+  /** Profile controlling which sources run; defaults to the configured default profile */
+  profile?: VerificationProfile;
+  /** Time budget for the whole batch; sources still running are cancelled */
+  timeoutMs?: number;
+  /** External cancellation, e.g. the client disconnecting */
+  signal?: AbortSignal;
+  /** Called as each claim finishes, in completion order (used for streaming) */
+  onResult?: (index: number, result: ClaimVerificationResult) => void;
+}
+
+export interface ClaimVerificationResult {
+  verification: Verification;
+  cached: boolean;
+  /** Missing for verifications cached before traces were recorded */
+  trace?: VerificationTrace;
+}
+
+/**
+ * The outcome of running a claim through the sources
+ */
+interface SourcesRun {
+  verification: Verification;
+  trace: VerificationTrace;
+}
+
+/**
+ * A verification produced by one source, tagged with where it came from
+ */
+interface SourceResult {
+  source: string;
+  reliability: number;
+  verification: Verification;
+}
+
 /**
  * Generate a cache key for a claim
  */
-function getCacheKey(claim: Claim): string {
+export function getCacheKey(claim: Pick<Claim, 'text'>): string {
   // Normalize the text for better cache hits
   const normalizedText = claim.text
     .toLowerCase()
@@ -38,6 +131,99 @@ function getCacheKey(claim: Claim): string {
   return `claim:${normalizedText}`;
 }
 
+/**
+ * Look up a verification in the hot layer, falling back to the store
+ */
+async function getCachedVerification(cacheKey: string): Promise<StoredVerification | undefined> {
+  const hot = cache.get<StoredVerification>(cacheKey);
+  if (hot) return hot;
+  
+  const stored = await store.get(cacheKey);
+  if (!stored) {
+    storeMisses++;
+    return undefined;
+  }
+  
+  storeHits++;
+  
+  // Promote into the hot layer without outliving the stored entry
+  const remaining = await store.ttl(cacheKey);
+  cache.set(cacheKey, stored, remaining ? Math.min(CACHE_HOT_TTL, remaining) : CACHE_HOT_TTL);
+  return stored;
+}
+
+/**
+ * Load every stored claim into the similarity index (once)
+ */
+function ensureSimilarityIndex(): Promise<void> {
+  if (!similarityIndexReady) {
+    similarityIndexReady = store.entries().then(entries => {
+      for (const [key, entry] of entries) {
+        similarityIndex.add(key, entry.claimText);
+      }
+      console.log(`[VerificationService] Similarity index built with ${similarityIndex.size} claims`);
+    });
+  }
+  return similarityIndexReady;
+}
+
+/**
+ * Find a stored verification for a near-duplicate of the claim
+ */
+async function findSimilarVerification(
+  claim: Claim
+): Promise<{ match: SimilarityMatch; stored: StoredVerification } | undefined> {
+  if (!(SIMILARITY_THRESHOLD > 0)) return undefined;
+  
+  await ensureSimilarityIndex();
+  const match = similarityIndex.findBest(claim.text, SIMILARITY_THRESHOLD);
+  if (!match) return undefined;
+  
+  const stored = await getCachedVerification(match.key);
+  if (!stored) {
+    // Expired from the store since it was indexed
+    similarityIndex.remove(match.key);
+    return undefined;
+  }
+  
+  similarityHits++;
+  return { match, stored };
+}
+
+/**
+ * Write a verification to the store and the hot layer, record it in the
+ * claim history, and reset user disputes of the previous verdict
+ */
+async function cacheVerification(
+  cacheKey: string,
+  claim: Claim,
+  verification: Verification,
+  trace: VerificationTrace
+): Promise<void> {
+  const entry: StoredVerification = {
+    claimText: claim.text,
+    sourceUrl: claim.sourceUrl,
+    verification,
+    trace,
+    storedAt: new Date().toISOString(),
+  };
+  
+  cache.set(cacheKey, entry);
+  await store.set(cacheKey, entry, CACHE_TTL);
+  
+  if (similarityIndexReady) {
+    similarityIndex.add(cacheKey, claim.text);
+  }
+  
+  await recordClaimHistory(cacheKey, claim, verification).catch(error =>
+    console.error('[VerificationService] Failed to record claim history:', error)
+  );
+  
+  await resetDisputes(cacheKey).catch(error =>
+    console.error('[VerificationService] Failed to reset disputes:', error)
+  );
+}
+
 /**
  * Create a default unverified result
  */
@@ -63,199 +249,581 @@ function mergeEvidence(primary: Evidence[], secondary: Evidence[]): Evidence[] {
 }
 
 /**
- * Combine verifications from multiple sources
+ * Combine verifications from multiple sources into a consensus verdict
  */
 function combineVerifications(
   claim: Claim,
-  results: Array<Verification | null>
-): Verification {
-  const validResults = results.filter((r): r is Verification => r !== null);
-  
-  if (validResults.length === 0) {
-    return createUnverifiedResult(claim);
+  results: SourceResult[]
+): { verification: Verification; consensus: ConsensusResult | null } {
+  if (results.length === 0) {
+    return { verification: createUnverifiedResult(claim), consensus: null };
   }
   
-  // Sort by confidence (highest first)
-  validResults.sort((a, b) => b.confidence - a.confidence);
+  const consensus = computeConsensus(results.map(r => ({
+    source: r.source,
+    rating: r.verification.rating,
+    confidence: r.verification.confidence,
+    reliability: r.reliability,
+  })));
   
-  // Use the highest confidence result as primary
-  const primary = validResults[0];
+  // The source closest to the consensus leads the summary and evidence list
+  const primary = results.find(r => r.source === consensus.primarySource) || results[0];
+  const others = results.filter(r => r !== primary);
   
   // Merge evidence from all sources
-  let allEvidence = primary.evidence;
-  for (const result of validResults.slice(1)) {
-    allEvidence = mergeEvidence(allEvidence, result.evidence);
+  let allEvidence = primary.verification.evidence;
+  for (const result of others) {
+    allEvidence = mergeEvidence(allEvidence, result.verification.evidence);
   }
   
-  // Combine caveats
+  // Combine caveats, leading with any disagreement between sources
   const allCaveats = new Set<string>();
-  for (const result of validResults) {
-    if (result.caveats) {
-      result.caveats.forEach(c => allCaveats.add(c));
+  if (consensus.conflicts.length > 0) {
+    allCaveats.add('Sources disagree on this claim - treat the rating as contested');
+  }
+  for (const result of results) {
+    if (result.verification.caveats) {
+      result.verification.caveats.forEach(c => allCaveats.add(c));
     }
   }
   
   // Build combined summary
-  let summary = primary.summary;
-  if (validResults.length > 1) {
-    summary += ` (Verified against ${validResults.length} sources)`;
+  let summary = primary.verification.summary;
+  if (results.length > 1) {
+    summary += ` (Verified against ${results.length} sources`;
+    summary += consensus.conflicts.length > 0
+      ? `; ${consensus.conflicts.map(c => c.description).join('; ')})`
+      : ')';
   }
   
-  return {
+  const verification: Verification = {
     claimId: claim.id,
-    rating: primary.rating,
-    confidence: primary.confidence,
+    rating: consensus.rating,
+    confidence: consensus.confidence,
     summary,
     evidence: allEvidence,
     checkedAt: new Date().toISOString(),
     caveats: Array.from(allCaveats).slice(0, 5),
+    ...(consensus.conflicts.length > 0 && { conflicts: consensus.conflicts }),
+  };
+  
+  return { verification, consensus };
+}
+
+/**
+ * Run the claim through every applicable source, combine and cache the result
+ */
+async function verifyWithSources(
+  claim: Claim,
+  cacheKey: string,
+  profile: VerificationProfile,
+  signal?: AbortSignal
+): Promise<SourcesRun> {
+  console.log(`[VerificationService] Verifying: "${claim.text.substring(0, 50)}..."`);
+  
+  const runStartedAt = Date.now();
+  const results: SourceResult[] = [];
+  const sourceVerdicts: SourceVerdict[] = [];
+  const sourceTraces: SourceTrace[] = [];
+  
+  let timedOut = false;
+  
+  const skip = (name: string, reason: string) => {
+    sourceVerdicts.push({ source: name, status: 'skipped', latencyMs: 0, evidenceIds: [], reason });
+    sourceTraces.push(new SourceTracer(name).finish('skipped', 0, reason));
+  };
+  
+  const timeout = (tracer: SourceTracer, latencyMs: number, reason: string) => {
+    timedOut = true;
+    sourceVerdicts.push({ source: tracer.source, status: 'timeout', latencyMs, evidenceIds: [], reason });
+    sourceTraces.push(tracer.finish('timeout', latencyMs, reason));
+  };
+  
+  // Run the sources on the claim's route in the route's order. Fallback
+  // sources (the LLM) only run when nothing earlier produced a rating.
+  const routing = routeClaim(claim);
+  const registered = getRegisteredSources();
+  const routed = routing.sources
+    .filter((entry, i, all) => all.findIndex(e => e.source === entry.source) === i)
+    .flatMap(settings => {
+      const source = registered.find(s => s.name === settings.source);
+      return source ? [{ source, settings }] : [];
+    });
+  
+  for (const { source, settings } of routed) {
+    if (!isSourceEnabled(source.name)) {
+      skip(source.name, 'disabled');
+      continue;
+    }
+    
+    if (!isSourceConfigured(source)) {
+      skip(source.name, 'not configured');
+      continue;
+    }
+    
+    if (profile.sources && !profile.sources.includes(source.name)) {
+      skip(source.name, `excluded by '${profile.name}' profile`);
+      continue;
+    }
+    
+    if (source.fallback && !profile.allowLlmFallback) {
+      skip(source.name, `fallback disabled by '${profile.name}' profile`);
+      continue;
+    }
+    
+    const rated = results.find(r => r.verification.rating !== 'unverified');
+    if (source.fallback && rated && !profile.alwaysRunFallback) {
+      skip(source.name, `not needed: ${rated.source} rated the claim '${rated.verification.rating}'`);
+      continue;
+    }
+    
+    if (!source.canHandle(claim)) {
+      skip(source.name, 'not applicable');
+      continue;
+    }
+    
+    const tracer = new SourceTracer(source.name);
+    if (signal?.aborted) {
+      timeout(tracer, 0, 'deadline passed before the source ran');
+      continue;
+    }
+    
+    if (source.fallback && rated) {
+      tracer.note(`Fallback triggered: '${profile.name}' profile always runs fallback sources`);
+    } else if (source.fallback) {
+      console.log(`[VerificationService] No fact-checks found, trying ${source.name} verification...`);
+      tracer.note(results.length === 0
+        ? 'Fallback triggered: no earlier source returned a result'
+        : `Fallback triggered: earlier sources (${results.map(r => r.source).join(', ')}) were all unverified`);
+    }
+    
+    const startedAt = Date.now();
+    try {
+      // Race the source against the deadline in case it ignores the signal
+      const result = await raceWithSignal(source.verify(claim, {
+        config: process.env,
+        trace: tracer,
+        // A route can lower the profile's retries, never raise them
+        retries: Math.min(profile.retries, settings.retries ?? profile.retries),
+        signal,
+      }), signal);
+      const latencyMs = Date.now() - startedAt;
+      
+      if (signal?.aborted && !result) {
+        timeout(tracer, latencyMs, 'deadline exceeded');
+      } else if (result) {
+        console.log(`[VerificationService] Got result from ${source.name}: ${result.rating}`);
+        const evidence = result.evidence.map((e, i) => ({ ...e, id: `${source.name}-${i + 1}` }));
+        results.push({
+          source: source.name,
+          reliability: settings.reliability ?? source.reliability,
+          verification: { ...result, evidence },
+        });
+        sourceVerdicts.push({
+          source: source.name,
+          status: 'ok',
+          rating: result.rating,
+          confidence: result.confidence,
+          latencyMs,
+          evidenceIds: evidence.map(e => e.id),
+        });
+        sourceTraces.push(tracer.finish('ok', latencyMs));
+      } else {
+        sourceVerdicts.push({ source: source.name, status: 'no_result', latencyMs, evidenceIds: [] });
+        sourceTraces.push(tracer.finish('no_result', latencyMs));
+      }
+    } catch (error) {
+      const latencyMs = Date.now() - startedAt;
+      if (signal?.aborted) {
+        console.log(`[VerificationService] ${source.name} cancelled at deadline after ${latencyMs}ms`);
+        timeout(tracer, latencyMs, 'deadline exceeded');
+        continue;
+      }
+      
+      console.error(`[VerificationService] ${source.name} error:`, error);
+      const reason = error instanceof Error ? error.message : String(error);
+      sourceVerdicts.push({ source: source.name, status: 'error', latencyMs, evidenceIds: [], reason });
+      sourceTraces.push(tracer.finish('error', latencyMs, reason));
+    }
+  }
+  
+  for (const source of registered) {
+    if (!routed.some(r => r.source === source)) {
+      skip(source.name, `not on the '${routing.route}' route`);
+    }
+  }
+  
+  // Combine all results
+  const { verification, consensus } = combineVerifications(claim, results);
+  
+  // Only reference evidence that survived the merge
+  const keptEvidence = new Set(verification.evidence.map(e => e.id));
+  verification.sourceVerdicts = sourceVerdicts.map(v => ({
+    ...v,
+    evidenceIds: v.evidenceIds.filter(id => keptEvidence.has(id)),
+  }));
+  
+  const trace: VerificationTrace = {
+    claimId: claim.id,
+    claimText: claim.text,
+    cache: 'miss',
+    profile: profile.name,
+    routing,
+    tracedAt: new Date(runStartedAt).toISOString(),
+    durationMs: Date.now() - runStartedAt,
+    sources: sourceTraces,
+    combine: {
+      rating: verification.rating,
+      confidence: verification.confidence,
+      agreement: consensus ? consensus.agreement : 1,
+      primarySource: consensus ? consensus.primarySource : null,
+      votes: results.map(r => ({
+        source: r.source,
+        rating: r.verification.rating,
+        confidence: r.verification.confidence,
+        reliability: r.reliability,
+      })),
+      conflicts: consensus ? consensus.conflicts.length : 0,
+    },
+  };
+  
+  if (timedOut) {
+    // Not final: a later request with more time may get a different verdict
+    verification.status = 'partial';
+    verification.caveats = [
+      'Verification incomplete: some sources did not finish before the deadline',
+      ...(verification.caveats || []),
+    ].slice(0, 5);
+    return { verification, trace };
+  }
+  
+  verification.status = 'complete';
+  
+  // Cache the result
+  await cacheVerification(cacheKey, claim, verification, trace);
+  
+  return { verification, trace };
+}
+
+/**
+ * Re-label a stored trace for the request it's being returned to
+ */
+function retrace(
+  trace: VerificationTrace | undefined,
+  claim: Claim,
+  cache: VerificationTrace['cache']
+): VerificationTrace | undefined {
+  return trace && { ...trace, claimId: claim.id, cache };
+}
+
+/**
+ * Answer for a claim with no cached verification under a cache-only profile
+ */
+function createCacheOnlyResult(claim: Claim, profile: VerificationProfile): SourcesRun {
+  const reason = `'${profile.name}' profile is cache-only`;
+  const verification: Verification = {
+    ...createUnverifiedResult(claim),
+    summary: 'This claim has not been verified before, and the request only accepts previously verified answers.',
+    caveats: [`No cached verification available ('${profile.name}' profile does not query sources)`],
+    sourceVerdicts: getRegisteredSources().map(source => ({
+      source: source.name,
+      status: 'skipped' as const,
+      latencyMs: 0,
+      evidenceIds: [],
+      reason,
+    })),
+  };
+  
+  return {
+    verification,
+    trace: {
+      claimId: claim.id,
+      claimText: claim.text,
+      cache: 'miss',
+      profile: profile.name,
+      tracedAt: new Date().toISOString(),
+      durationMs: 0,
+      sources: getRegisteredSources().map(source =>
+        new SourceTracer(source.name).finish('skipped', 0, reason)
+      ),
+      combine: {
+        rating: verification.rating,
+        confidence: verification.confidence,
+        agreement: 1,
+        primarySource: null,
+        votes: [],
+        conflicts: 0,
+      },
+    },
+  };
+}
+
+/**
+ * Answer for a claim whose deadline passed while waiting on another request's run
+ */
+function createTimedOutResult(claim: Claim, profile: VerificationProfile): SourcesRun {
+  const { verification, trace } = createCacheOnlyResult(claim, profile);
+  return {
+    verification: {
+      ...verification,
+      status: 'partial',
+      summary: 'Verification did not finish before the request deadline.',
+      caveats: ['Verification incomplete: some sources did not finish before the deadline'],
+      sourceVerdicts: verification.sourceVerdicts!.map(v => ({ ...v, status: 'timeout' as const, reason: 'deadline exceeded' })),
+    },
+    trace: {
+      ...trace,
+      sources: trace.sources.map(s => ({ ...s, status: 'timeout' as const, reason: 'deadline exceeded' })),
+    },
   };
 }
 
 /**
  * Verify a single claim using all available sources
  */
-export async function verifyClaim(claim: Claim): Promise<{ verification: Verification; cached: boolean }> {
+export async function verifyClaim(
+  claim: Claim,
+  options: Pick<VerifyOptions, 'profile' | 'signal'> = {}
+): Promise<ClaimVerificationResult> {
+  const profile = options.profile || getProfile()!;
+  const { signal } = options;
   const cacheKey = getCacheKey(claim);
   
   // Check cache first
-  const cached = cache.get<Verification>(cacheKey);
+  const cached = await getCachedVerification(cacheKey);
   if (cached) {
     console.log(`[VerificationService] Cache hit for: "${claim.text.substring(0, 50)}..."`);
-    return { 
-      verification: { ...cached, claimId: claim.id }, 
-      cached: true 
-    };
+    return withDisputeCaveat({ 
+      verification: { ...cached.verification, claimId: claim.id }, 
+      cached: true,
+      trace: retrace(cached.trace, claim, 'hit'),
+    }, cacheKey);
   }
   
-  console.log(`[VerificationService] Verifying: "${claim.text.substring(0, 50)}..."`);
-  
-  const googleApiKey = process.env.GOOGLE_FACT_CHECK_API_KEY;
-  const openaiApiKey = process.env.OPENAI_API_KEY;
-  const pubmedApiKey = process.env.PUBMED_API_KEY; // Optional
-  
-  const results: Array<Verification | null> = [];
-  
-  // 1. Try Google Fact Check API first (most authoritative)
-  if (googleApiKey && googleApiKey !== 'your_google_api_key_here') {
-    const googleResult = await searchFactChecks(claim, googleApiKey);
-    if (googleResult && googleResult.rating !== 'unverified') {
-      // High confidence result from fact-checkers - use it
-      console.log(`[VerificationService] Found definitive fact-check from Google`);
-      results.push(googleResult);
-    }
+  // Then look for a previously verified rephrasing of the same claim
+  const similar = await findSimilarVerification(claim);
+  if (similar) {
+    console.log(`[VerificationService] Similar claim match (${similar.match.score.toFixed(2)}) for: "${claim.text.substring(0, 50)}..."`);
+    return withDisputeCaveat({
+      verification: {
+        ...similar.stored.verification,
+        claimId: claim.id,
+        match: { score: similar.match.score, claimText: similar.match.claimText },
+      },
+      cached: true,
+      trace: retrace(similar.stored.trace, claim, 'similar'),
+    }, similar.match.key);
   }
   
-  // 2. For health claims, check PubMed
-  if (isHealthClaim(claim.text)) {
+  // Share an in-progress verification of the same claim instead of starting another.
+  // There's no await between the last check and registering below, so
+  // concurrent callers can't both miss it. Runs under different profiles
+  // aren't shared, nor are runs with and without the LLM fallback (a client
+  // out of LLM quota runs its profile without it).
+  const inFlightKey = `${profile.name}${profile.allowLlmFallback ? '' : ':no-llm'}:${cacheKey}`;
+  let pending = inFlight.get(inFlightKey);
+  while (pending) {
+    // A run sharing our deadline ends at that deadline anyway; otherwise
+    // don't wait past our own
+    const waitSignal = pending.signal === signal ? undefined : signal;
+    coalescedCount++;
+    console.log(`[VerificationService] Joining in-flight verification for: "${claim.text.substring(0, 50)}..."`);
+    let shared: SourcesRun;
     try {
-      const pubmedResult = await verifyWithPubMed(claim, pubmedApiKey);
-      if (pubmedResult) {
-        console.log(`[VerificationService] Found relevant PubMed research`);
-        results.push(pubmedResult);
-      }
+      shared = await raceWithSignal(pending.promise, waitSignal);
     } catch (error) {
-      console.error('[VerificationService] PubMed error:', error);
+      // The shared run failing is our failure too; only our own deadline
+      // passing first is a timeout
+      if (!signal?.aborted) throw error;
+      return { ...createTimedOutResult(claim, profile), cached: false };
+    }
+    // A partial result means the run's owner hit its deadline or went away;
+    // with time left of our own, join a newer run or run the sources ourselves
+    if (shared.verification.status !== 'partial' || signal?.aborted) {
+      return withDisputeCaveat({
+        verification: { ...shared.verification, claimId: claim.id },
+        cached: true,
+        trace: retrace(shared.trace, claim, 'coalesced'),
+      }, cacheKey);
     }
+    console.log(`[VerificationService] Shared run ended early, verifying again for: "${claim.text.substring(0, 50)}..."`);
+    const newer = inFlight.get(inFlightKey);
+    pending = newer && newer.promise !== pending.promise ? newer : undefined;
   }
   
-  // 3. Try Wikipedia for supplementary information
-  try {
-    const wikiResult = await verifyWithWikipedia(claim);
-    if (wikiResult && wikiResult.evidence.length > 0) {
-      console.log(`[VerificationService] Found Wikipedia reference`);
-      // Only add if we have no other results or to supplement
-      if (results.length === 0) {
-        results.push(wikiResult);
-      } else {
-        // Add Wikipedia evidence to existing results
-        results.push(wikiResult);
-      }
-    }
-  } catch (error) {
-    console.error('[VerificationService] Wikipedia error:', error);
+  if (profile.cacheOnly) {
+    return { ...createCacheOnlyResult(claim, profile), cached: false };
   }
   
-  // 4. If no results, try LLM as last resort
-  if (results.length === 0 || results.every(r => r?.rating === 'unverified')) {
-    if (openaiApiKey && openaiApiKey !== 'your_openai_api_key_here') {
-      console.log(`[VerificationService] No fact-checks found, trying LLM verification...`);
-      try {
-        const llmResult = await verifyClaimWithLLM(claim, openaiApiKey);
-        if (llmResult) {
-          results.push(llmResult);
-        }
-      } catch (error) {
-        console.error('[VerificationService] LLM error:', error);
-      }
+  // Replaces the entry of a run that ended early, if its owner hasn't removed
+  // it yet, so requests arriving now join this run instead
+  const promise = verifyWithSources(claim, cacheKey, profile, signal);
+  inFlight.set(inFlightKey, { promise, signal });
+  
+  try {
+    const { verification, trace } = await promise;
+    return withDisputeCaveat({ verification, cached: false, trace }, cacheKey);
+  } finally {
+    if (inFlight.get(inFlightKey)?.promise === promise) {
+      inFlight.delete(inFlightKey);
     }
   }
+}
+
+/**
+ * Add a caveat when users have disputed the verdict stored under `claimKey`
+ * (see feedbackService). Copies the verification, which may be shared with the cache.
+ */
+async function withDisputeCaveat(result: ClaimVerificationResult, claimKey: string): Promise<ClaimVerificationResult> {
+  const caveat = await getDisputeCaveat(claimKey);
+  if (!caveat) return result;
   
-  // Combine all results
-  const verification = combineVerifications(claim, results);
+  const { verification } = result;
+  return { ...result, verification: { ...verification, caveats: [...(verification.caveats || []), caveat] } };
+}
+
+/**
+ * Map over items with at most `limit` promises in flight, preserving input order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
   
-  // Cache the result
-  cache.set(cacheKey, verification);
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
   
-  return { verification, cached: false };
+  const workers = Array.from({ length: Math.min(limit, items.length) }, worker);
+  await Promise.all(workers);
+  return results;
 }
 
 /**
- * Delay helper for rate limiting
+ * Count the sources that ran (succeeded, found nothing or failed) for freshly
+ * verified claims; cached, similar and coalesced results cost no upstream calls
  */
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+function countSourceCalls(results: ClaimVerificationResult[]): Record<string, number> {
+  const calls: Record<string, number> = {};
+  for (const result of results) {
+    if (result.cached) continue;
+    for (const verdict of result.verification.sourceVerdicts || []) {
+      if (verdict.status === 'ok' || verdict.status === 'no_result' || verdict.status === 'error') {
+        calls[verdict.source] = (calls[verdict.source] || 0) + 1;
+      }
+    }
+  }
+  return calls;
 }
 
 /**
- * Verify multiple claims with rate limiting (sequential to avoid 503s)
+ * Verify multiple claims concurrently. Upstream request rates are enforced by
+ * the shared per-source limiters in rateLimiter, so concurrency only bounds
+ * how many claims are in progress at once (VERIFY_CONCURRENCY, default 5).
  */
-export async function verifyClaims(claims: Claim[]): Promise<{ verifications: Verification[]; cachedCount: number }> {
+export async function verifyClaims(
+  claims: Claim[],
+  options: VerifyOptions = {}
+): Promise<{
+  verifications: Verification[];
+  cachedCount: number;
+  partialCount: number;
+  /** Upstream calls made by each source for this batch (reused verdicts excluded) */
+  sourceCalls: Record<string, number>;
+  traces?: VerificationTrace[];
+}> {
   console.log(`[VerificationService] Verifying ${claims.length} claims...`);
   
-  const results: { verification: Verification; cached: boolean }[] = [];
-  let cachedCount = 0;
-  let verifiedCount = 0;
+  const profile = options.profile || getProfile()!;
+  const concurrency = Math.max(1, parseInt(process.env.VERIFY_CONCURRENCY || '5') || 5);
+  const deadline = createDeadline(options.timeoutMs, options.signal);
   
-  for (const claim of claims) {
-    const result = await verifyClaim(claim);
-    results.push(result);
-    
-    if (result.cached) {
-      cachedCount++;
-    } else if (result.verification.rating !== 'unverified') {
-      verifiedCount++;
-    }
-    
-    // Rate limit: wait 500ms between API calls (only if not cached) to avoid Google 503s
-    if (!result.cached && claims.indexOf(claim) < claims.length - 1) {
-      await delay(500);
-    }
+  let results: ClaimVerificationResult[];
+  try {
+    results = await mapWithConcurrency(claims, concurrency, async (claim, index) => {
+      const result = await verifyClaim(claim, { profile, signal: deadline.signal });
+      options.onResult?.(index, result);
+      return result;
+    });
+  } finally {
+    deadline.dispose();
   }
   
+  const cachedCount = results.filter(r => r.cached).length;
+  const partialCount = results.filter(r => r.verification.status === 'partial').length;
+  const verifiedCount = results.filter(r => !r.cached && r.verification.rating !== 'unverified').length;
   const verifications = results.map(r => r.verification);
+  const sourceCalls = countSourceCalls(results);
+  
+  console.log(`[VerificationService] Complete. ${cachedCount} cached, ${verifiedCount} verified, ${claims.length - cachedCount - verifiedCount} unverified` +
+    (partialCount > 0 ? `, ${partialCount} partial` : ''));
+  
+  if (!options.trace) {
+    return { verifications, cachedCount, partialCount, sourceCalls };
+  }
   
-  console.log(`[VerificationService] Complete. ${cachedCount} cached, ${verifiedCount} verified, ${claims.length - cachedCount - verifiedCount} unverified`);
+  // Verifications cached before tracing existed have no trace to return
+  const traces = results.map((r, i) => r.trace || {
+    claimId: claims[i].id,
+    claimText: claims[i].text,
+    cache: 'hit' as const,
+    profile: profile.name,
+    tracedAt: r.verification.checkedAt,
+    durationMs: 0,
+    sources: [],
+    combine: {
+      rating: r.verification.rating,
+      confidence: r.verification.confidence,
+      agreement: 1,
+      primarySource: null,
+      votes: [],
+      conflicts: 0,
+    },
+  });
   
-  return { verifications, cachedCount };
+  return { verifications, cachedCount, partialCount, sourceCalls, traces };
 }
 
 /**
  * Get cache statistics
  */
-export function getCacheStats(): { keys: number; hits: number; misses: number } {
+export async function getCacheStats(): Promise<{
+  keys: number;
+  hits: number;
+  misses: number;
+  hotKeys: number;
+  storeHits: number;
+  similarityHits: number;
+  coalesced: number;
+  inFlight: number;
+  backend: string;
+}> {
   const stats = cache.getStats();
   return {
-    keys: cache.keys().length,
-    hits: stats.hits,
-    misses: stats.misses,
+    keys: await store.size(),
+    hits: stats.hits + storeHits,
+    misses: storeMisses,
+    hotKeys: cache.keys().length,
+    storeHits,
+    similarityHits,
+    coalesced: coalescedCount,
+    inFlight: inFlight.size,
+    backend: store.backend,
   };
 }
 
 /**
  * Clear the cache
  */
-export function clearCache(): void {
+export async function clearCache(): Promise<void> {
   cache.flushAll();
+  await store.clear();
+  similarityIndex.clear();
   console.log('[VerificationService] Cache cleared');
 }
@@ -9,6 +9,9 @@
 
 import axios from 'axios';
 import { Claim, Verification, Evidence, Rating } from '../types';
+import { VerificationSource, SourceCallOptions } from './sourceRegistry';
+import { acquireToken } from './rateLimiter';
+import { planQueries, recordQueryOutcome } from './queryPlanner';
 
 const WIKIPEDIA_API = 'https://en.wikipedia.org/w/api.php';
 const WIKIDATA_API = 'https://www.wikidata.org/w/api.php';
@@ -32,7 +35,7 @@ interface WikiPage {
 }
 
 /**
- * Extract key entities and numbers from claim text
+ * Search terms from the claim text, for claims without entities
  */
 function extractSearchTerms(claimText: string): string {
   // Remove common claim phrases to get to the core content
@@ -55,8 +58,9 @@ function extractSearchTerms(claimText: string): string {
 /**
  * Search Wikipedia for relevant articles
  */
-async function searchWikipedia(query: string): Promise<WikiSearchResult[]> {
+async function searchWikipedia(query: string, signal?: AbortSignal): Promise<WikiSearchResult[]> {
   try {
+    await acquireToken('wikipedia', signal);
     const response = await axios.get(WIKIPEDIA_API, {
       params: {
         action: 'query',
@@ -70,10 +74,12 @@ async function searchWikipedia(query: string): Promise<WikiSearchResult[]> {
         'User-Agent': USER_AGENT,
       },
       timeout: 10000,
+      signal,
     });
     
     return response.data?.query?.search || [];
   } catch (error) {
+    if (signal?.aborted) throw error;
     console.error('[WikipediaService] Search error:', error);
     return [];
   }
@@ -82,8 +88,9 @@ async function searchWikipedia(query: string): Promise<WikiSearchResult[]> {
 /**
  * Get Wikipedia page extract
  */
-async function getPageExtract(pageId: number): Promise<WikiPage | null> {
+async function getPageExtract(pageId: number, signal?: AbortSignal): Promise<WikiPage | null> {
   try {
+    await acquireToken('wikipedia', signal);
     const response = await axios.get(WIKIPEDIA_API, {
       params: {
         action: 'query',
@@ -99,6 +106,7 @@ async function getPageExtract(pageId: number): Promise<WikiPage | null> {
         'User-Agent': USER_AGENT,
       },
       timeout: 10000,
+      signal,
     });
     
     const pages = response.data?.query?.pages;
@@ -107,6 +115,7 @@ async function getPageExtract(pageId: number): Promise<WikiPage | null> {
     }
     return null;
   } catch (error) {
+    if (signal?.aborted) throw error;
     console.error('[WikipediaService] Page extract error:', error);
     return null;
   }
@@ -157,11 +166,32 @@ function analyzeRelevance(claimText: string, wikiContent: string): {
 /**
  * Verify a claim using Wikipedia
  */
-export async function verifyWithWikipedia(claim: Claim): Promise<Verification | null> {
+export async function verifyWithWikipedia(
+  claim: Claim,
+  options: SourceCallOptions = {}
+): Promise<Verification | null> {
+  const { trace, signal } = options;
   console.log(`[WikipediaService] Checking: "${claim.text.substring(0, 60)}..."`);
   
-  const searchQuery = extractSearchTerms(claim.text);
-  const searchResults = await searchWikipedia(searchQuery);
+  // Entity names usually match article titles; the text is the fallback
+  const resultLists: WikiSearchResult[][] = [];
+  for (const { query, strategy } of planQueries(claim, 'wikipedia', extractSearchTerms(claim.text))) {
+    if (strategy === 'fallback' && resultLists.some(list => list.length > 0)) break;
+    
+    const startedAt = Date.now();
+    const results = await searchWikipedia(query, signal);
+    trace?.query('wikipedia:search', query, results.length, Date.now() - startedAt);
+    recordQueryOutcome('wikipedia', strategy, results.length);
+    resultLists.push(results);
+  }
+  
+  // Interleave the searches so each entity's best match is among the pages checked
+  const searchResults: WikiSearchResult[] = [];
+  for (let rank = 0; resultLists.some(list => rank < list.length); rank++) {
+    for (const result of resultLists.map(list => list[rank])) {
+      if (result && !searchResults.some(r => r.pageid === result.pageid)) searchResults.push(result);
+    }
+  }
   
   if (searchResults.length === 0) {
     console.log('[WikipediaService] No Wikipedia articles found');
@@ -173,10 +203,16 @@ export async function verifyWithWikipedia(claim: Claim): Promise<Verification |
   
   // Check top 3 results for relevance
   for (const result of searchResults.slice(0, 3)) {
-    const page = await getPageExtract(result.pageid);
+    const page = await getPageExtract(result.pageid, signal);
     if (!page?.extract) continue;
     
     const relevance = analyzeRelevance(claim.text, page.extract);
+    trace?.relevance(
+      page.title,
+      relevance.matchScore,
+      relevance.isRelevant,
+      `matched: ${relevance.matchedTerms.slice(0, 10).join(', ') || 'none'}`
+    );
     
     if (relevance.isRelevant) {
       evidence.push({
@@ -218,11 +254,27 @@ export async function verifyWithWikipedia(claim: Claim): Promise<Verification |
   return verification;
 }
 
+/**
+ * Wikipedia as a registered verification source (supplementary reference information)
+ */
+export const wikipediaSource: VerificationSource = {
+  name: 'wikipedia',
+  priority: 30,
+  reliability: 0.5,
+  requiredConfig: [],
+  canHandle: () => true,
+  async verify(claim, context) {
+    const result = await verifyWithWikipedia(claim, context);
+    return result && result.evidence.length > 0 ? result : null;
+  },
+};
+
 /**
  * Search Wikidata for structured data about entities
  */
-export async function searchWikidata(query: string): Promise<any[]> {
+export async function searchWikidata(query: string, signal?: AbortSignal): Promise<any[]> {
   try {
+    await acquireToken('wikipedia', signal);
     const response = await axios.get(WIKIDATA_API, {
       params: {
         action: 'wbsearchentities',
@@ -233,10 +285,12 @@ export async function searchWikidata(query: string): Promise<any[]> {
         origin: '*',
       },
       timeout: 10000,
+      signal,
     });
     
     return response.data?.search || [];
   } catch (error) {
+    if (signal?.aborted) throw error;
     console.error('[WikipediaService] Wikidata search error:', error);
     return [];
   }
@@ -17,9 +17,17 @@ export interface Claim {
   text: string;
   context?: string;
   sourceUrl?: string;
+  /** Named entities from extraction; used to plan source queries */
+  entities?: Array<{ text: string; label: string }>;
+  /** Evidence keywords from extraction; used to plan source queries */
+  keywords?: string[];
+  /** Kind of claim from extraction, e.g. statistic or quote; used to route it to sources */
+  claimType?: string;
 }
 
 export interface Evidence {
+  /** Stable within a verification, e.g. "google-1"; referenced by SourceVerdict.evidenceIds */
+  id?: string;
   url: string;
   sourceName: string;
   quote?: string;
@@ -27,6 +35,37 @@ export interface Evidence {
   peerReviewed?: boolean;
 }
 
+export interface SourceConflict {
+  sources: [string, string];
+  ratings: [Rating, Rating];
+  severity: 'moderate' | 'major';
+  description: string;
+}
+
+export type SourceVerdictStatus = 'ok' | 'no_result' | 'skipped' | 'error' | 'timeout';
+
+/**
+ * What a single source said about a claim, before the consensus
+ */
+export interface SourceVerdict {
+  source: string;
+  status: SourceVerdictStatus;
+  rating?: Rating;
+  confidence?: number;
+  latencyMs: number;
+  evidenceIds: string[];
+  /** Why the source was skipped or failed */
+  reason?: string;
+}
+
+/**
+ * Set when a verification was reused from a similar, previously verified claim
+ */
+export interface ClaimMatch {
+  score: number;
+  claimText: string;
+}
+
 export interface Verification {
   claimId: string;
   rating: Rating;
@@ -34,17 +73,511 @@ export interface Verification {
   summary: string;
   evidence: Evidence[];
   checkedAt: string;
+  /** 'partial' when the request deadline passed before every source finished */
+  status?: 'complete' | 'partial';
   caveats?: string[];
+  conflicts?: SourceConflict[];
+  sourceVerdicts?: SourceVerdict[];
+  match?: ClaimMatch;
+  /** Verdicts on the atomic claims this verification was rolled up from */
+  subClaims?: SubClaimVerdict[];
+}
+
+/**
+ * An atomic claim split or rewritten from an extracted sentence
+ */
+export interface AtomicClaim extends Claim {
+  parentId: string;
+  /** Where the part came from in the parent claim's text */
+  span: { start: number; end: number };
+}
+
+export interface SubClaimVerdict {
+  claim: AtomicClaim;
+  verification: Verification;
+}
+
+// Verification trace types (returned when a request sets trace: true)
+export interface TraceQuery {
+  upstream: string;
+  query: string;
+  hits: number;
+  durationMs: number;
+}
+
+export interface TraceRelevance {
+  item: string;
+  score: number;
+  relevant: boolean;
+  detail?: string;
+}
+
+export interface SourceTrace {
+  source: string;
+  status: SourceVerdictStatus;
+  reason?: string;
+  durationMs: number;
+  queries: TraceQuery[];
+  relevance: TraceRelevance[];
+  notes: string[];
+}
+
+export interface CombineTrace {
+  rating: Rating;
+  confidence: number;
+  agreement: number;
+  primarySource: string | null;
+  votes: Array<{ source: string; rating: Rating; confidence: number; reliability: number }>;
+  conflicts: number;
+}
+
+/**
+ * A source on a route, with settings overriding the profile's and the source's
+ */
+export interface RouteSource {
+  source: string;
+  retries?: number;
+  reliability?: number;
+}
+
+/**
+ * The route a claim took to the sources (see sourceRouter)
+ */
+export interface SourceRouting {
+  route: string;
+  claimType?: string;
+  topics: string[];
+  sources: RouteSource[];
+}
+
+export interface VerificationTrace {
+  claimId: string;
+  claimText: string;
+  /** How this request was answered; sources/combine describe the original run */
+  cache: 'miss' | 'hit' | 'similar' | 'coalesced';
+  /** Verification profile the sources ran under */
+  profile: string;
+  /** Missing when no sources ran (cache-only answers) */
+  routing?: SourceRouting;
+  tracedAt: string;
+  durationMs: number;
+  sources: SourceTrace[];
+  combine: CombineTrace;
+}
+
+/**
+ * A verification as persisted in the verification store, keyed by the
+ * normalized claim text
+ */
+export interface StoredVerification {
+  claimText: string;
+  sourceUrl?: string;
+  verification: Verification;
+  trace?: VerificationTrace;
+  storedAt: string;
+}
+
+/**
+ * The latest verification of a claim, kept in the claim history after it
+ * has expired from the verification cache
+ */
+export interface ClaimHistoryEntry {
+  /** Stable id derived from the claim's cache key */
+  id: string;
+  claimText: string;
+  verification: Verification;
+  /** Pages the claim was verified for, most recent first */
+  sourceUrls: string[];
+  firstCheckedAt: string;
+  lastCheckedAt: string;
+  /** How many times the sources were run for the claim */
+  checks: number;
+}
+
+export interface ClaimSearchResult extends ClaimHistoryEntry {
+  /** Relevance to the query, when one was given */
+  score?: number;
+}
+
+export interface ClaimSearchResponse {
+  results: ClaimSearchResult[];
+  /** Entries matching the query and filters */
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * schema.org ClaimReview, as exported for partners (JSON-LD)
+ */
+export interface ClaimReview {
+  '@context': 'https://schema.org';
+  '@type': 'ClaimReview';
+  identifier?: string;
+  url: string;
+  claimReviewed: string;
+  datePublished: string;
+  author: { '@type': 'Organization'; name: string; url?: string };
+  reviewRating: {
+    '@type': 'Rating';
+    /** 1 (false) to 5 (true); omitted for ratings off that scale */
+    ratingValue?: number;
+    bestRating?: number;
+    worstRating?: number;
+    alternateName: string;
+    ratingExplanation?: string;
+  };
+  itemReviewed: {
+    '@type': 'Claim';
+    appearance: Array<{
+      '@type': 'CreativeWork';
+      url: string;
+      text?: string;
+      datePublished?: string;
+      publisher?: { '@type': 'Organization'; name: string };
+    }>;
+  };
 }
 
 export interface VerifyRequest {
   claims: Claim[];
   url?: string;
+  /** Include a decision trace per claim in the response */
+  trace?: boolean;
+  /** Verification profile name (see GET /api/profiles) */
+  profile?: string;
+  /** Time budget for the whole request; unfinished claims come back 'partial' */
+  timeoutMs?: number;
+}
+
+export interface VerifyMeta {
+  total: number;
+  fromCache: number;
+  partial: number;
+  profile: string;
 }
 
 export interface VerifyResponse {
   verifications: Verification[];
   cached: boolean;
+  traces?: VerificationTrace[];
+  meta: VerifyMeta;
+}
+
+export type CheckWorthinessFilter = 'none' | 'heuristic' | 'llm';
+
+export type ClaimKind = 'factual' | 'opinion' | 'prediction' | 'question' | 'command' | 'unknown';
+
+/**
+ * An extracted claim the check-worthiness filter kept from the sources
+ */
+export interface FilteredClaim {
+  claimId: string;
+  claimType: ClaimKind;
+  reason: string;
+  method: 'llm' | 'heuristic';
+}
+
+export interface ExtractRequest {
+  text: string;
+  url?: string;
+  /** Maximum claims to extract (default 20) */
+  maxClaims?: number;
+  /** Check-worthiness filter; defaults to CHECK_WORTHINESS_FILTER */
+  filter?: CheckWorthinessFilter;
+}
+
+export interface ExtractAndVerifyRequest extends ExtractRequest {
+  profile?: string;
+  timeoutMs?: number;
+  /** Verify again even if a page report is stored for this url and text */
+  refresh?: boolean;
+}
+
+/**
+ * NLP service output for one extracted claim
+ */
+export interface NlpClaimDetail {
+  text: string;
+  claimType: string;
+  confidence: number;
+  entities: Array<{ text: string; label: string }>;
+  keywords: string[];
+  charStart?: number;
+  charEnd?: number;
+}
+
+export interface ExtractMeta {
+  total: number;
+  /**
+   * 'builtin' when the NLP service was unavailable and the built-in extractor
+   * ran; 'none' when there was no text to extract from
+   */
+  source: 'nlp' | 'builtin' | 'none';
+  nlpDetails?: NlpClaimDetail[];
+  error?: string;
+  /** Whether the response was served from a stored page report */
+  cachedReport?: boolean;
+  /** Claims the check-worthiness filter kept from the sources, and why */
+  filtered?: FilteredClaim[];
+}
+
+export interface ExtractResponse {
+  claims: Claim[];
+  meta: ExtractMeta;
+}
+
+export interface ExtractAndVerifyResponse {
+  claims: Claim[];
+  verifications: Verification[];
+  report?: PageReport;
+  meta: ExtractMeta & Partial<VerifyMeta>;
+}
+
+export type PageCredibility = 'reliable' | 'mixed' | 'unreliable' | 'insufficient';
+
+/**
+ * How one claim counted towards a page report
+ */
+export interface PageReportClaim {
+  claimId: string;
+  text: string;
+  rating: Rating;
+  /** Verdict confidence */
+  confidence: number;
+  /** NLP extraction confidence (1 when unknown) */
+  nlpConfidence: number;
+  /** confidence x nlpConfidence; 0 for claims that couldn't be checked */
+  weight: number;
+  /** Whether the claim got a checkable verdict (not unverified or opinion) */
+  checkable: boolean;
+}
+
+/**
+ * Credibility judgement for a whole page, aggregated from its claim verdicts
+ */
+export interface PageReport {
+  /** Normalized page URL the report is stored under */
+  url?: string;
+  /** 0-100, weighted by confidence; null when nothing could be checked */
+  score: number | null;
+  credibility: PageCredibility;
+  explanation: string;
+  totalClaims: number;
+  checkableClaims: number;
+  /** Claims rated false or mostly false */
+  falseOrMisleading: number;
+  ratings: Record<Rating, number>;
+  coverage: {
+    /** Share of claims that could be checked (0-1) */
+    claims: number;
+    /** Share of the article text inside checkable claims (0-1) */
+    text: number;
+  };
+  claims: PageReportClaim[];
+  profile: string;
+  /** SHA-256 of the text the report was built from */
+  contentHash: string;
+  generatedAt: string;
+}
+
+/**
+ * A page report stored with the response it was built from, so a repeat
+ * visit to the same page can be answered without extraction or verification
+ */
+export interface StoredPageReport {
+  report: PageReport;
+  claims: Claim[];
+  verifications: Verification[];
+  nlpDetails: NlpClaimDetail[];
+  /** Which extractor found the claims; 'nlp' for reports stored before it was recorded */
+  source?: ExtractMeta['source'];
+  /** The check-worthiness filter the claims went through; 'none' when missing */
+  filter?: CheckWorthinessFilter;
+  filtered?: FilteredClaim[];
+  /** The most claims the request extracted; the default of 20 when missing */
+  maxClaims?: number;
+}
+
+export interface AnalyzeHtmlRequest {
+  /** Raw page HTML */
+  html: string;
+  url?: string;
+  /** Maximum claims to extract (default 20) */
+  maxClaims?: number;
+  profile?: string;
+  timeoutMs?: number;
+  /** Verify again even if a page report is stored for this url and article text */
+  refresh?: boolean;
+  /** Check-worthiness filter; defaults to CHECK_WORTHINESS_FILTER */
+  filter?: CheckWorthinessFilter;
+}
+
+/**
+ * A paragraph of article text extracted from HTML
+ */
+export interface ArticleParagraph {
+  /** Block element the paragraph came from, e.g. "p" or "h2" */
+  tag: string;
+  charStart: number;
+  charEnd: number;
+}
+
+export interface Article {
+  title?: string;
+  /** Main article text; paragraphs are separated by blank lines */
+  text: string;
+  paragraphs: ArticleParagraph[];
+  /** Whether trailing paragraphs were dropped to fit the extraction limit */
+  truncated: boolean;
+}
+
+/**
+ * The part of a claim inside one text node of the submitted HTML
+ */
+export interface TextNodeRange {
+  /** Index among the page's non-whitespace text nodes (see articleExtractor) */
+  node: number;
+  /** UTF-16 offsets into the node's text */
+  start: number;
+  end: number;
+  /** The node text covered, for checking the mapping */
+  text: string;
+  /** Offsets into the submitted HTML */
+  htmlStart: number;
+  htmlEnd: number;
+}
+
+export interface ClaimHighlight {
+  claimId: string;
+  /** Position of the claim in the article text */
+  charStart: number;
+  charEnd: number;
+  ranges: TextNodeRange[];
+}
+
+export interface AnalyzeHtmlResponse {
+  article: Article;
+  claims: Claim[];
+  verifications: Verification[];
+  highlights: ClaimHighlight[];
+  report?: PageReport;
+  meta: ExtractMeta & Partial<VerifyMeta>;
+}
+
+export interface FieldError {
+  /** Location of the invalid value, e.g. "claims[2].text" */
+  path: string;
+  message: string;
+}
+
+export interface ErrorResponse {
+  error: string;
+  message: string;
+  /** Per-field problems when a request fails validation */
+  details?: FieldError[];
+}
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobProgress {
+  total: number;
+  completed: number;
+  fromCache: number;
+  partial: number;
+}
+
+export interface JobCallback {
+  url: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  lastError?: string;
+  deliveredAt?: string;
+}
+
+export interface VerificationJob {
+  id: string;
+  status: JobStatus;
+  profile: string;
+  url?: string;
+  claims: Claim[];
+  progress: JobProgress;
+  /** Verifications in claim order; filled in as chunks finish */
+  verifications: Verification[];
+  callback?: JobCallback;
+  /** Id of the API key that submitted the job; only it (or an admin key) can see it */
+  apiKeyId?: string;
+  /** Quota client the job's claims and LLM calls are charged to */
+  client?: string;
+  /** Verified without the LLM fallback: the client's daily LLM quota was used up when it was submitted */
+  withoutLlm?: boolean;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface JobRequest {
+  claims: Claim[];
+  url?: string;
+  profile?: string;
+  /** POSTed the finished job when it completes or fails */
+  callbackUrl?: string;
+}
+
+export type FeedbackStatus = 'open' | 'accepted' | 'rejected';
+
+/**
+ * A user's report that a verdict is wrong (or confirmation that it's right)
+ */
+export interface Feedback {
+  id: string;
+  claimId?: string;
+  claimText: string;
+  /** Cache key of the verification the feedback is about */
+  claimKey: string;
+  /** The verdict the user was shown */
+  shownRating: Rating;
+  shownConfidence?: number;
+  shownCheckedAt?: string;
+  proposedRating: Rating;
+  /** Whether the proposed rating differs from the one shown */
+  disputed: boolean;
+  evidenceUrl?: string;
+  comment?: string;
+  status: FeedbackStatus;
+  reviewNote?: string;
+  apiKeyId?: string;
+  client?: string;
+  createdAt: string;
+  reviewedAt?: string;
+}
+
+export interface FeedbackRequest {
+  claimId?: string;
+  claimText: string;
+  /** The verification as shown to the user */
+  verification: {
+    rating: Rating;
+    confidence?: number;
+    checkedAt?: string;
+  };
+  proposedRating: Rating;
+  evidenceUrl?: string;
+  comment?: string;
+}
+
+/**
+ * Report counts per claim, excluding rejected reports
+ */
+export interface FeedbackSummary {
+  reports: number;
+  disputes: number;
+  /** Clients that have reported on the claim (one report each) */
+  reporters: string[];
+  /** When the current verdict was stored; earlier reports were about an older one */
+  since?: string;
+  updatedAt: string;
 }
 
 // Google Fact Check API types